@@ -1,13 +1,46 @@
 import { Stack } from 'expo-router';
+import { defaultStorageAdapter } from '../storage/defaultAdapter';
+import { AccountProvider } from './context/AccountContext';
 import { AuthProvider } from './context/AuthContext';
+import { BudgetProvider } from './context/BudgetContext';
+import { CategoryProvider } from './context/CategoryContext';
+import { CategoryRuleProvider } from './context/CategoryRuleContext';
+import { EncryptionProvider, useEncryption } from './context/EncryptionContext';
+import { RecurringProvider } from './context/RecurringContext';
+import { SavingsProvider } from './context/SavingsContext';
 import { TransactionProvider } from './context/TransactionContext';
 
-export default function Layout() {
+// Picks AsyncStorage on native and localStorage on web
+const storage = defaultStorageAdapter;
+
+// Only mounted once EncryptionProvider has unlocked storage, so user accounts are encrypted too
+function DataProviders() {
+  const { storage: unlockedStorage } = useEncryption();
   return (
-    <AuthProvider>
-      <TransactionProvider>
-        <Stack screenOptions={{ headerShown: false }} />
+    <AuthProvider storage={unlockedStorage}>
+      <TransactionProvider storage={unlockedStorage}>
+        <AccountProvider storage={unlockedStorage}>
+          <RecurringProvider storage={unlockedStorage}>
+            <SavingsProvider storage={unlockedStorage}>
+              <BudgetProvider storage={unlockedStorage}>
+                <CategoryRuleProvider storage={unlockedStorage}>
+                  <CategoryProvider storage={unlockedStorage}>
+                    <Stack screenOptions={{ headerShown: false }} />
+                  </CategoryProvider>
+                </CategoryRuleProvider>
+              </BudgetProvider>
+            </SavingsProvider>
+          </RecurringProvider>
+        </AccountProvider>
       </TransactionProvider>
     </AuthProvider>
   );
 }
+
+export default function Layout() {
+  return (
+    <EncryptionProvider storage={storage}>
+      <DataProviders />
+    </EncryptionProvider>
+  );
+}
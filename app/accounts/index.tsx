@@ -0,0 +1,361 @@
+import { useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  Alert,
+  Platform,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { v4 as uuid } from 'uuid';
+import { accountTypeEmoji, accountTypeOptions } from '../../constants/Accounts';
+import { accountBalances, involvesAccount } from '../../utils/accounts';
+import { compareMoney, formatMoney, parseMoney, sumMoney, toInputValue, ZERO } from '../../utils/money';
+import { Account, AccountType, useAccounts } from '../context/AccountContext';
+import { useTransactions } from '../context/TransactionContext';
+
+export default function AccountsScreen() {
+  const router = useRouter();
+  const { accounts, addAccount, updateAccount, deleteAccount } = useAccounts();
+  const { transactions } = useTransactions();
+
+  // Account being edited, or null when the form adds a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<AccountType>('bank');
+  const [openingBalance, setOpeningBalance] = useState('');
+
+  const balances = accountBalances(accounts, transactions);
+  const netWorth = sumMoney(accounts.map(account => balances[account.id]));
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setType('bank');
+    setOpeningBalance('');
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter an account name');
+      return;
+    }
+    // Blank means zero; negative is allowed for cards and overdrafts
+    const parsedBalance = openingBalance.trim() ? parseMoney(openingBalance) : ZERO;
+    if (parsedBalance === null) {
+      Alert.alert('Error', 'Please enter a valid opening balance');
+      return;
+    }
+
+    if (editingId) {
+      updateAccount(editingId, { name: name.trim(), type, openingBalance: parsedBalance });
+    } else {
+      addAccount({ id: uuid(), name: name.trim(), type, openingBalance: parsedBalance });
+    }
+    resetForm();
+  };
+
+  const handleEdit = (account: Account) => {
+    setEditingId(account.id);
+    setName(account.name);
+    setType(account.type);
+    setOpeningBalance(toInputValue(account.openingBalance));
+  };
+
+  const handleDelete = (account: Account) => {
+    Alert.alert(
+      'Delete Account',
+      `Are you sure you want to delete "${account.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            if (!deleteAccount(account.id)) {
+              Alert.alert(
+                'Cannot Delete',
+                'Move or delete the transactions in this account first. At least one account must remain.'
+              );
+            } else if (editingId === account.id) {
+              resetForm();
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderAccount = (account: Account) => {
+    const balance = balances[account.id];
+    const count = transactions.filter(tx => involvesAccount(tx, account.id)).length;
+
+    return (
+      <TouchableOpacity key={account.id} style={styles.card} onPress={() => handleEdit(account)}>
+        <View style={styles.iconContainer}>
+          <Text style={styles.icon}>{accountTypeEmoji(account.type)}</Text>
+        </View>
+        <View style={styles.cardInfo}>
+          <Text style={styles.accountName}>{account.name}</Text>
+          <Text style={styles.accountSubtitle}>
+            {count} transaction{count !== 1 ? 's' : ''} · opened at {formatMoney(account.openingBalance)}
+          </Text>
+        </View>
+        <Text style={[styles.balance, { color: compareMoney(balance, ZERO) < 0 ? '#EF4444' : '#10B981' }]}>
+          {formatMoney(balance)}
+        </Text>
+        <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(account)}>
+          <Text style={styles.deleteButtonText}>🗑</Text>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Accounts</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.listContainer} showsVerticalScrollIndicator={false}>
+        <View style={styles.summaryCard}>
+          <Text style={styles.summaryLabel}>Net worth</Text>
+          <Text style={[styles.summaryValue, { color: compareMoney(netWorth, ZERO) < 0 ? '#EF4444' : '#1E293B' }]}>
+            {formatMoney(netWorth)}
+          </Text>
+        </View>
+
+        {accounts.map(renderAccount)}
+
+        <View style={styles.formCard}>
+          <Text style={styles.formTitle}>{editingId ? 'Edit Account' : 'Add Account'}</Text>
+          <TextInput
+            placeholder="Account name"
+            value={name}
+            onChangeText={setName}
+            style={styles.input}
+            placeholderTextColor="#9CA3AF"
+          />
+          <View style={styles.chipRow}>
+            {accountTypeOptions.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, type === option.value && styles.activeChip]}
+                onPress={() => setType(option.value)}
+              >
+                <Text style={[styles.chipText, type === option.value && styles.activeChipText]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            placeholder="Opening balance (negative for money owed)"
+            value={openingBalance}
+            onChangeText={setOpeningBalance}
+            keyboardType="numbers-and-punctuation"
+            style={styles.input}
+            placeholderTextColor="#9CA3AF"
+          />
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+            <Text style={styles.saveButtonText}>{editingId ? 'Save Changes' : 'Add Account'}</Text>
+          </TouchableOpacity>
+          {editingId && (
+            <TouchableOpacity onPress={resetForm}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 60 : 40,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  placeholder: {
+    width: 60,
+  },
+  listContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  summaryCard: {
+    backgroundColor: '#EEF2FF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  summaryLabel: {
+    fontSize: 13,
+    color: '#6366F1',
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 24,
+    fontWeight: '700',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  iconContainer: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#EEF2FF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  icon: {
+    fontSize: 20,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  accountName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 2,
+  },
+  accountSubtitle: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  balance: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  deleteButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#FEF2F2',
+    borderWidth: 1,
+    borderColor: '#FECACA',
+  },
+  deleteButtonText: {
+    fontSize: 14,
+    color: '#DC2626',
+  },
+  formCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 4,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  formTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#111827',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  activeChip: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  activeChipText: {
+    color: '#FFFFFF',
+  },
+  saveButton: {
+    backgroundColor: '#6366F1',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  cancelText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
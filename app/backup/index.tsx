@@ -0,0 +1,467 @@
+import { useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  Alert,
+  Platform,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import {
+  BACKUP_COLLECTIONS,
+  BACKUP_LABELS,
+  BackupData,
+  backupCounts,
+  createBackup,
+  decryptBackup,
+  encryptBackup,
+  InvalidBackupError,
+  isEncryptedBackup,
+  mergeBackup,
+  parseBackup,
+  serializeBackup
+} from '../../storage/backup';
+import { MIN_PASSPHRASE_LENGTH } from '../../storage/encryption';
+import { formatDateTime, toDateInputValue } from '../../utils/date';
+import { pickTextFile, saveTextFile } from '../../utils/files';
+import { useAccounts } from '../context/AccountContext';
+import { useBudgets } from '../context/BudgetContext';
+import { useCategories } from '../context/CategoryContext';
+import { useCategoryRules } from '../context/CategoryRuleContext';
+import { useEncryption } from '../context/EncryptionContext';
+import { useRecurring } from '../context/RecurringContext';
+import { useSavings } from '../context/SavingsContext';
+import { useTransactions } from '../context/TransactionContext';
+
+export default function BackupScreen() {
+  const router = useRouter();
+  const { transactions, restoreTransactions, isLoading: transactionsLoading } = useTransactions();
+  const { savingsGoals, restoreSavingsGoals, isLoading: savingsLoading } = useSavings();
+  const { rules: recurringRules, restoreRules, isLoading: recurringLoading } = useRecurring();
+  const { budgets, moves: budgetMoves, restoreBudgets, isLoading: budgetsLoading } = useBudgets();
+  const { accounts, restoreAccounts, isLoading: accountsLoading } = useAccounts();
+  const { categories, restoreCategories, isLoading: categoriesLoading } = useCategories();
+  const { categoryRules, restoreCategoryRules, isLoading: rulesLoading } = useCategoryRules();
+  const { isEncrypted } = useEncryption();
+
+  const [restore, setRestore] = useState<{ fileName: string; createdAt: string; data: BackupData } | null>(null);
+  // An encrypted backup waiting for its passphrase
+  const [lockedFile, setLockedFile] = useState<{ name: string; text: string } | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  // Data encrypted on this device is exported encrypted unless the user opts out
+  const [encryptExport, setEncryptExport] = useState(isEncrypted);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  // Deriving a key from a passphrase takes a moment
+  const [isWorking, setIsWorking] = useState(false);
+
+  // A backup taken before everything has loaded would be missing data
+  const isLoading = transactionsLoading || savingsLoading || recurringLoading || budgetsLoading ||
+    accountsLoading || categoriesLoading || rulesLoading;
+
+  const current: BackupData = {
+    transactions,
+    savingsGoals,
+    recurringRules,
+    budgets,
+    budgetMoves,
+    accounts,
+    categories,
+    categoryRules,
+  };
+  const currentCounts = backupCounts(current);
+
+  const handleExport = async () => {
+    if (encryptExport && exportPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      Alert.alert('Error', `The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (encryptExport && exportPassphrase !== confirmPassphrase) {
+      Alert.alert('Error', 'The passphrases do not match');
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const now = new Date();
+      const fileName = `badged-planner-backup-${toDateInputValue(now.toISOString())}.json`;
+      const backup = createBackup(current, now);
+      const text = encryptExport ? await encryptBackup(backup, exportPassphrase) : serializeBackup(backup);
+      await saveTextFile(fileName, text, 'application/json');
+    } catch (error) {
+      console.error('Failed to export backup:', error);
+      Alert.alert('Error', 'Could not save the backup file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const showReadError = (error: unknown) => {
+    if (error instanceof InvalidBackupError) {
+      Alert.alert('Invalid Backup', error.message);
+    } else {
+      console.error('Failed to read backup:', error);
+      Alert.alert('Error', 'Could not read that file');
+    }
+  };
+
+  const handleChooseFile = async () => {
+    try {
+      const file = await pickTextFile(['application/json', '*/*']);
+      if (!file) return;
+      if (isEncryptedBackup(file.text)) {
+        setRestore(null);
+        setRestorePassphrase('');
+        setLockedFile(file);
+        return;
+      }
+      setLockedFile(null);
+      setRestore({ fileName: file.name, ...parseBackup(file.text) });
+    } catch (error) {
+      showReadError(error);
+    }
+  };
+
+  const handleUnlockFile = async () => {
+    if (!lockedFile) return;
+    setIsWorking(true);
+    try {
+      const text = await decryptBackup(lockedFile.text, restorePassphrase);
+      setRestore({ fileName: lockedFile.name, ...parseBackup(text) });
+      setLockedFile(null);
+    } catch (error) {
+      showReadError(error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const apply = (data: BackupData) => {
+    restoreTransactions(data.transactions);
+    restoreSavingsGoals(data.savingsGoals);
+    restoreRules(data.recurringRules);
+    restoreBudgets(data.budgets, data.budgetMoves);
+    restoreAccounts(data.accounts);
+    restoreCategories(data.categories);
+    restoreCategoryRules(data.categoryRules);
+    setRestore(null);
+  };
+
+  const handleReplace = () => {
+    if (!restore) return;
+    Alert.alert(
+      'Replace All Data',
+      'Everything currently in the app is deleted and replaced with the backup. Export a backup first if ' +
+        'you might want it back.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Replace',
+          style: 'destructive',
+          onPress: () => {
+            apply(restore.data);
+            Alert.alert('Restore Complete', 'Your data was replaced with the backup.');
+          },
+        },
+      ]
+    );
+  };
+
+  const handleMerge = () => {
+    if (!restore) return;
+    const merged = mergeBackup(current, restore.data);
+    const added = merged.transactions.length - transactions.length;
+    apply(merged);
+    Alert.alert(
+      'Restore Complete',
+      `Added ${added} transaction${added !== 1 ? 's' : ''} and everything else missing from this device.`
+    );
+  };
+
+  const mergedCounts = restore ? backupCounts(mergeBackup(current, restore.data)) : null;
+  const restoreCounts = restore ? backupCounts(restore.data) : null;
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Backup</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Create a backup</Text>
+          <Text style={styles.cardText}>
+            Saves {currentCounts.transactions} transaction{currentCounts.transactions !== 1 ? 's' : ''}, your
+            accounts, categories, budgets, goals and rules as a single file you can restore on any device.
+          </Text>
+          <View style={styles.switchRow}>
+            <View style={styles.switchText}>
+              <Text style={styles.switchLabel}>Encrypt with a passphrase</Text>
+              <Text style={styles.switchHint}>Anyone with the file needs it to read or restore the backup</Text>
+            </View>
+            <Switch value={encryptExport} onValueChange={setEncryptExport} />
+          </View>
+          {encryptExport && (
+            <>
+              <TextInput
+                placeholder="Passphrase"
+                value={exportPassphrase}
+                onChangeText={setExportPassphrase}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                style={styles.input}
+                placeholderTextColor="#9CA3AF"
+              />
+              <TextInput
+                placeholder="Repeat passphrase"
+                value={confirmPassphrase}
+                onChangeText={setConfirmPassphrase}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                style={styles.input}
+                placeholderTextColor="#9CA3AF"
+              />
+            </>
+          )}
+          <TouchableOpacity
+            style={[styles.primaryButton, (isLoading || isWorking) && styles.disabledButton]}
+            onPress={handleExport}
+            disabled={isLoading || isWorking}
+          >
+            <Text style={styles.primaryButtonText}>💾 Export Backup</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Restore from a backup</Text>
+          <TouchableOpacity style={styles.fileButton} onPress={handleChooseFile}>
+            <Text style={styles.fileButtonText}>
+              📂 {restore?.fileName ?? lockedFile?.name ?? 'Choose a backup file'}
+            </Text>
+          </TouchableOpacity>
+
+          {lockedFile && (
+            <>
+              <Text style={styles.cardText}>This backup is encrypted. Enter the passphrase it was exported with.</Text>
+              <TextInput
+                placeholder="Passphrase"
+                value={restorePassphrase}
+                onChangeText={setRestorePassphrase}
+                onSubmitEditing={handleUnlockFile}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                style={styles.input}
+                placeholderTextColor="#9CA3AF"
+              />
+              <TouchableOpacity
+                style={[styles.primaryButton, (!restorePassphrase || isWorking) && styles.disabledButton]}
+                onPress={handleUnlockFile}
+                disabled={!restorePassphrase || isWorking}
+              >
+                <Text style={styles.primaryButtonText}>🔓 Unlock Backup</Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          {restore && restoreCounts && mergedCounts && (
+            <>
+              {restore.createdAt ? (
+                <Text style={styles.cardText}>Backup made {formatDateTime(restore.createdAt)}</Text>
+              ) : null}
+              <View style={styles.tableRow}>
+                <Text style={[styles.tableLabel, styles.tableHeading]} />
+                <Text style={[styles.tableValue, styles.tableHeading]}>Backup</Text>
+                <Text style={[styles.tableValue, styles.tableHeading]}>Now</Text>
+                <Text style={[styles.tableValue, styles.tableHeading]}>Merged</Text>
+              </View>
+              {BACKUP_COLLECTIONS.map(name => (
+                <View key={name} style={styles.tableRow}>
+                  <Text style={styles.tableLabel}>{BACKUP_LABELS[name]}</Text>
+                  <Text style={styles.tableValue}>{restoreCounts[name]}</Text>
+                  <Text style={styles.tableValue}>{currentCounts[name]}</Text>
+                  <Text style={styles.tableValue}>{mergedCounts[name]}</Text>
+                </View>
+              ))}
+              <Text style={styles.cardText}>
+                Merging adds what this device doesn&apos;t have yet and keeps your current version of anything
+                in both. Replacing makes the app match the backup exactly.
+              </Text>
+              <View style={styles.buttonRow}>
+                <TouchableOpacity style={[styles.primaryButton, styles.rowButton]} onPress={handleMerge}>
+                  <Text style={styles.primaryButtonText}>Merge</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.dangerButton, styles.rowButton]} onPress={handleReplace}>
+                  <Text style={styles.primaryButtonText}>Replace All</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 60 : 40,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  placeholder: {
+    width: 60,
+  },
+  content: {
+    padding: 20,
+    gap: 16,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  cardText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  fileButton: {
+    paddingVertical: 18,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#EEF2FF',
+    borderWidth: 1.5,
+    borderColor: '#C7D2FE',
+    borderStyle: 'dashed',
+  },
+  fileButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  switchText: {
+    flex: 1,
+  },
+  switchLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  switchHint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#111827',
+  },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  tableHeading: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#9CA3AF',
+    textTransform: 'uppercase',
+  },
+  tableLabel: {
+    flex: 2,
+    fontSize: 14,
+    color: '#374151',
+    textTransform: 'capitalize',
+  },
+  tableValue: {
+    flex: 1,
+    fontSize: 14,
+    color: '#111827',
+    textAlign: 'right',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rowButton: {
+    flex: 1,
+  },
+  primaryButton: {
+    backgroundColor: '#6366F1',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  dangerButton: {
+    backgroundColor: '#EF4444',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
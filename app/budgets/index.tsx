@@ -0,0 +1,613 @@
+import { Picker } from '@react-native-picker/picker';
+import { useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  Alert,
+  Platform,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { v4 as uuid } from 'uuid';
+import { budgetLimitFor, BudgetProgress, computeBudgetHistory } from '../../utils/budget';
+import { categoryPath, categoryPickerOptions } from '../../utils/categories';
+import { addMonths, formatMonth, toMonthKey } from '../../utils/date';
+import { addMoney, compareMoney, formatMoney, Money, parseMoney, subtractMoney, sumMoney, toInputValue, ZERO } from '../../utils/money';
+import { Budget, useBudgets } from '../context/BudgetContext';
+import { useCategories } from '../context/CategoryContext';
+import { useTransactions } from '../context/TransactionContext';
+
+// Above this share of the limit the bar turns amber as a warning
+const WARNING_PERCENT = 80;
+
+// Picker value standing for the "available to assign" pool in the move form
+const POOL = '';
+
+const progressColor = ({ isOverspent, percentUsed }: BudgetProgress) =>
+  isOverspent ? '#EF4444' : percentUsed >= WARNING_PERCENT ? '#F59E0B' : '#10B981';
+
+const moneyColor = (amount: Money) => (compareMoney(amount, ZERO) < 0 ? '#EF4444' : '#10B981');
+
+export default function BudgetsScreen() {
+  const router = useRouter();
+  const { budgets, moves, setBudget, deleteBudget, moveMoney, deleteMove } = useBudgets();
+  const { transactions } = useTransactions();
+  const { categories, getCategory } = useCategories();
+
+  const currentMonth = toMonthKey(new Date());
+  const [month, setMonth] = useState(currentMonth);
+  const [category, setCategory] = useState(categoryPickerOptions(categories, 'expense')[0]?.value ?? '');
+  const [limit, setLimit] = useState('');
+  const [rollover, setRollover] = useState(false);
+  const [moveFrom, setMoveFrom] = useState(POOL);
+  const [moveTo, setMoveTo] = useState(POOL);
+  const [moveAmount, setMoveAmount] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  // Keeps the selected category listed while editing a budget whose category was archived
+  const categoryOptions = categoryPickerOptions(categories, 'expense', category);
+
+  const history = computeBudgetHistory(budgets, transactions, moves, categories, month);
+  const { budgets: progress, availableToAssign } = history[history.length - 1];
+  const totalAssigned = sumMoney(progress.map(p => p.assigned));
+  const totalSpent = sumMoney(progress.map(p => p.spent));
+  const monthMoves = moves.filter(move => move.month === month);
+
+  const categoryLabel = (id: string) => `${getCategory(id)?.emoji ?? '💡'} ${categoryPath(categories, id)}`;
+
+  const handleSave = () => {
+    const parsedLimit = parseMoney(limit);
+    if (parsedLimit === null || compareMoney(parsedLimit, ZERO) <= 0) {
+      Alert.alert('Error', 'Please enter a valid monthly limit');
+      return;
+    }
+    // Takes effect in the month being viewed; earlier months keep their limit
+    setBudget(category, parsedLimit, rollover, month);
+    setLimit('');
+    setRollover(false);
+  };
+
+  const handleEdit = (budget: Budget) => {
+    setCategory(budget.category);
+    setLimit(toInputValue(budgetLimitFor(budget, month)));
+    setRollover(budget.rollover);
+  };
+
+  const handleMove = () => {
+    const amount = parseMoney(moveAmount);
+    if (amount === null || compareMoney(amount, ZERO) <= 0) {
+      Alert.alert('Error', 'Please enter a valid amount to move');
+      return;
+    }
+    if (moveFrom === moveTo) {
+      Alert.alert('Error', 'Choose two different envelopes');
+      return;
+    }
+    moveMoney({
+      id: uuid(),
+      month,
+      fromBudgetId: moveFrom || undefined,
+      toBudgetId: moveTo || undefined,
+      amount,
+    });
+    setMoveAmount('');
+  };
+
+  const envelopeName = (budgetId?: string) => {
+    const budget = budgets.find(b => b.id === budgetId);
+    return budget ? categoryLabel(budget.category) : 'Available to assign';
+  };
+
+  const handleDelete = (budget: Budget) => {
+    Alert.alert(
+      'Delete Budget',
+      `Remove the ${categoryPath(categories, budget.category)} budget from ${formatMonth(month)} on? ` +
+        'Earlier months keep it.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteBudget(budget.id, month) }
+      ]
+    );
+  };
+
+  const renderBudget = (item: BudgetProgress) => {
+    const { budget, carriedOver, assigned, spent, remaining, isOverspent, percentUsed } = item;
+    const color = progressColor(item);
+
+    return (
+      <View key={budget.id} style={styles.card}>
+        <View style={styles.cardHeader}>
+          <TouchableOpacity style={styles.cardInfo} onPress={() => handleEdit(budget)}>
+            <Text style={styles.budgetTitle}>
+              {categoryLabel(budget.category)}{budget.rollover ? ' · 🔄 Rollover' : ''}
+            </Text>
+            <Text style={styles.budgetSubtitle}>
+              {formatMoney(spent)} of {formatMoney(addMoney(carriedOver, assigned))}
+            </Text>
+            {compareMoney(carriedOver, ZERO) !== 0 && (
+              <Text style={[styles.carriedText, { color: moneyColor(carriedOver) }]}>
+                {formatMoney(carriedOver, { signed: true })} from last month
+              </Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(budget)}>
+            <Text style={styles.deleteButtonText}>🗑</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.progressBar}>
+          <View
+            style={[
+              styles.progressFill,
+              { width: `${Math.min(percentUsed, 100)}%`, backgroundColor: color }
+            ]}
+          />
+        </View>
+
+        <Text style={[styles.remainingText, { color }]}>
+          {isOverspent
+            ? `${formatMoney(subtractMoney(ZERO, remaining))} overspent`
+            : `${formatMoney(remaining)} left`}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Budgets</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.listContainer} showsVerticalScrollIndicator={false}>
+        {/* Month switcher */}
+        <View style={styles.monthRow}>
+          <TouchableOpacity style={styles.monthButton} onPress={() => setMonth(addMonths(month, -1))}>
+            <Text style={styles.monthButtonText}>‹</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setMonth(currentMonth)}>
+            <Text style={styles.monthLabel}>{formatMonth(month)}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.monthButton} onPress={() => setMonth(addMonths(month, 1))}>
+            <Text style={styles.monthButtonText}>›</Text>
+          </TouchableOpacity>
+        </View>
+
+        {budgets.length > 0 && (
+          <View style={styles.summaryCard}>
+            <View style={styles.summaryRow}>
+              <View>
+                <Text style={styles.summaryLabel}>Available to assign</Text>
+                <Text style={[styles.summaryValue, { color: moneyColor(availableToAssign) }]}>
+                  {formatMoney(availableToAssign)}
+                </Text>
+              </View>
+              <View style={styles.summaryRight}>
+                <Text style={styles.summaryLabel}>Spent / assigned</Text>
+                <Text style={styles.summarySecondary}>
+                  {formatMoney(totalSpent)} / {formatMoney(totalAssigned)}
+                </Text>
+              </View>
+            </View>
+          </View>
+        )}
+
+        {/* Set budget form */}
+        <View style={styles.formCard}>
+          <Text style={styles.formTitle}>Set a Monthly Limit</Text>
+          <View style={styles.pickerContainer}>
+            <Picker
+              selectedValue={category}
+              onValueChange={(value) => setCategory(value)}
+              style={styles.picker}
+            >
+              {categoryOptions.map((option) => (
+                <Picker.Item key={option.value} label={option.label} value={option.value} />
+              ))}
+            </Picker>
+          </View>
+          <TextInput
+            placeholder="Monthly limit"
+            value={limit}
+            onChangeText={setLimit}
+            keyboardType="numeric"
+            style={styles.input}
+            placeholderTextColor="#9CA3AF"
+          />
+          <View style={styles.switchRow}>
+            <View style={styles.cardInfo}>
+              <Text style={styles.switchLabel}>Roll over</Text>
+              <Text style={styles.switchHint}>Carry leftovers and overspending into next month</Text>
+            </View>
+            <Switch value={rollover} onValueChange={setRollover} />
+          </View>
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+            <Text style={styles.saveButtonText}>
+              {progress.some(p => p.budget.category === category) ? 'Update Budget' : 'Add Budget'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {progress.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyIcon}>📊</Text>
+            <Text style={styles.emptyTitle}>No Budgets Yet</Text>
+            <Text style={styles.emptySubtitle}>
+              Set a monthly limit for a category to see how your spending compares.
+            </Text>
+          </View>
+        ) : (
+          progress.map(renderBudget)
+        )}
+
+        {/* Move money between envelopes */}
+        {budgets.length > 0 && (
+          <View style={styles.formCard}>
+            <Text style={styles.formTitle}>Move Money</Text>
+            {([['From', moveFrom, setMoveFrom], ['To', moveTo, setMoveTo]] as const).map(
+              ([label, value, onChange]) => (
+                <View key={label} style={styles.pickerContainer}>
+                  <Picker selectedValue={value} onValueChange={onChange} style={styles.picker}>
+                    <Picker.Item label={`${label}: Available to assign`} value={POOL} />
+                    {progress.map(({ budget }) => (
+                      <Picker.Item
+                        key={budget.id}
+                        label={`${label}: ${categoryLabel(budget.category)}`}
+                        value={budget.id}
+                      />
+                    ))}
+                  </Picker>
+                </View>
+              )
+            )}
+            <TextInput
+              placeholder="Amount"
+              value={moveAmount}
+              onChangeText={setMoveAmount}
+              keyboardType="numeric"
+              style={styles.input}
+              placeholderTextColor="#9CA3AF"
+            />
+            <TouchableOpacity style={styles.saveButton} onPress={handleMove}>
+              <Text style={styles.saveButtonText}>Move</Text>
+            </TouchableOpacity>
+
+            {monthMoves.map(move => (
+              <View key={move.id} style={styles.moveRow}>
+                <Text style={styles.moveText}>
+                  {envelopeName(move.fromBudgetId)} → {envelopeName(move.toBudgetId)}
+                </Text>
+                <Text style={styles.moveAmount}>{formatMoney(move.amount)}</Text>
+                <TouchableOpacity onPress={() => deleteMove(move.id)}>
+                  <Text style={styles.undoText}>Undo</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Month-by-month history */}
+        {budgets.length > 0 && (
+          <View style={styles.formCard}>
+            <TouchableOpacity onPress={() => setShowHistory(!showHistory)}>
+              <Text style={styles.formTitle}>{showHistory ? '▾' : '▸'} History</Text>
+            </TouchableOpacity>
+            {showHistory && [...history].reverse().map(entry => {
+              const spent = sumMoney(entry.budgets.map(p => p.spent));
+              const assigned = sumMoney(entry.budgets.map(p => p.assigned));
+              return (
+                <TouchableOpacity
+                  key={entry.month}
+                  style={styles.historyRow}
+                  onPress={() => setMonth(entry.month)}
+                >
+                  <Text style={styles.historyMonth}>{formatMonth(entry.month)}</Text>
+                  <Text style={styles.historyDetail}>
+                    Income {formatMoney(entry.income)} · Assigned {formatMoney(assigned)} · Spent {formatMoney(spent)}
+                  </Text>
+                  <Text style={[styles.historyDetail, { color: moneyColor(entry.availableToAssign) }]}>
+                    Available to assign {formatMoney(entry.availableToAssign)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 60 : 40,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  placeholder: {
+    width: 60,
+  },
+  listContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  monthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  monthButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  monthButtonText: {
+    fontSize: 22,
+    color: '#374151',
+    fontWeight: '600',
+  },
+  monthLabel: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  summaryCard: {
+    backgroundColor: '#EEF2FF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  summaryLabel: {
+    fontSize: 13,
+    color: '#6366F1',
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+  },
+  summaryRight: {
+    alignItems: 'flex-end',
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1E293B',
+  },
+  summarySecondary: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  formCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  formTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  pickerContainer: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  picker: {
+    height: 50,
+    color: '#111827',
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#111827',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  switchLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  switchHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  saveButton: {
+    backgroundColor: '#6366F1',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  budgetTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  budgetSubtitle: {
+    fontSize: 13,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  carriedText: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  moveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  moveText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#374151',
+  },
+  moveAmount: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  undoText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6366F1',
+  },
+  historyRow: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  historyMonth: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 2,
+  },
+  historyDetail: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  deleteButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#FEF2F2',
+    borderWidth: 1,
+    borderColor: '#FECACA',
+  },
+  deleteButtonText: {
+    fontSize: 14,
+    color: '#DC2626',
+  },
+  progressBar: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#F3F4F6',
+    overflow: 'hidden',
+    marginBottom: 8,
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  remainingText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 40,
+    paddingHorizontal: 20,
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
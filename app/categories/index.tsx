@@ -0,0 +1,569 @@
+import { Picker } from '@react-native-picker/picker';
+import { useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  Alert,
+  Platform,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { v4 as uuid } from 'uuid';
+import { categoryColors } from '../../constants/Categories';
+import { categoryPath, categoryPickerOptions } from '../../utils/categories';
+import { Category, CategoryType, useCategories } from '../context/CategoryContext';
+
+// Picker value for "no parent" in the form
+const TOP_LEVEL = '';
+
+export default function CategoriesScreen() {
+  const router = useRouter();
+  const {
+    categories,
+    addCategory,
+    updateCategory,
+    setCategoryArchived,
+    isCategoryInUse,
+    mergeCategory,
+    deleteCategory
+  } = useCategories();
+
+  const [type, setType] = useState<CategoryType>('expense');
+  const [showArchived, setShowArchived] = useState(false);
+
+  // Category being edited, or null when the form adds a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [emoji, setEmoji] = useState('');
+  const [color, setColor] = useState(categoryColors[0]);
+  const [parentId, setParentId] = useState(TOP_LEVEL);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  // Where whatever uses the category goes when it's deleted
+  const [deleteTargetId, setDeleteTargetId] = useState('');
+
+  const editing = categories.find(c => c.id === editingId);
+  const ofType = categories.filter(c => c.type === type && (showArchived || !c.archived));
+  const topLevel = ofType.filter(c => !c.parentId || !ofType.some(p => p.id === c.parentId));
+
+  // A category with subcategories can't become one itself
+  const hasChildren = !!editing && categories.some(c => c.parentId === editing.id);
+  const editingInUse = !!editing && isCategoryInUse(editing.id);
+  const parentOptions = categories.filter(c =>
+    c.type === type && !c.parentId && !c.archived && c.id !== editingId
+  );
+  const mergeOptions = categoryPickerOptions(categories, type).filter(option => option.value !== editingId);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setEmoji('');
+    setColor(categoryColors[0]);
+    setParentId(TOP_LEVEL);
+    setMergeTargetId('');
+    setDeleteTargetId('');
+  };
+
+  const changeType = (nextType: CategoryType) => {
+    setType(nextType);
+    resetForm();
+  };
+
+  const handleEdit = (category: Category) => {
+    setEditingId(category.id);
+    setName(category.name);
+    setEmoji(category.emoji);
+    setColor(category.color);
+    setParentId(category.parentId ?? TOP_LEVEL);
+    setMergeTargetId('');
+    setDeleteTargetId('');
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a category name');
+      return;
+    }
+    const duplicate = categories.some(c =>
+      c.type === type && c.id !== editingId && c.name.toLowerCase() === name.trim().toLowerCase()
+    );
+    if (duplicate) {
+      Alert.alert('Error', `There is already a category called "${name.trim()}"`);
+      return;
+    }
+
+    const details = {
+      name: name.trim(),
+      emoji: emoji.trim() || '💡',
+      color,
+      parentId: parentId || undefined,
+    };
+    if (editingId) {
+      updateCategory(editingId, details);
+    } else {
+      addCategory({ id: uuid(), type, archived: false, ...details });
+    }
+    resetForm();
+  };
+
+  const handleMerge = () => {
+    if (!editing || !mergeTargetId) {
+      Alert.alert('Error', 'Choose a category to merge into');
+      return;
+    }
+    Alert.alert(
+      'Merge Category',
+      `Move everything in "${editing.name}" to "${categoryPath(categories, mergeTargetId)}" and remove "${editing.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          style: 'destructive',
+          onPress: () => {
+            mergeCategory(editing.id, mergeTargetId);
+            resetForm();
+          }
+        }
+      ]
+    );
+  };
+
+  const handleDelete = () => {
+    if (!editing) return;
+    if (editingInUse && !deleteTargetId) {
+      Alert.alert('Error', 'Choose a category to move its transactions to');
+      return;
+    }
+    Alert.alert(
+      'Delete Category',
+      editingInUse
+        ? `Delete "${editing.name}" and move its transactions, recurring transactions, budgets, rules and ` +
+          `subcategories to "${categoryPath(categories, deleteTargetId)}"?`
+        : `Are you sure you want to delete "${editing.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            if (deleteCategory(editing.id, deleteTargetId || undefined)) {
+              resetForm();
+            } else {
+              Alert.alert('Category In Use', 'Choose a category to move its transactions to, then delete it again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderCategory = (category: Category, isChild = false) => (
+    <TouchableOpacity
+      key={category.id}
+      style={[
+        styles.row,
+        isChild && styles.childRow,
+        category.id === editingId && styles.selectedRow,
+        category.archived && styles.archivedRow
+      ]}
+      onPress={() => handleEdit(category)}
+    >
+      <View style={[styles.iconContainer, { backgroundColor: `${category.color}33` }]}>
+        <Text style={styles.icon}>{category.emoji}</Text>
+      </View>
+      <Text style={styles.rowName}>{category.name}</Text>
+      {category.archived && <Text style={styles.archivedBadge}>Archived</Text>}
+      <View style={[styles.colorDot, { backgroundColor: category.color }]} />
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Categories</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.listContainer} showsVerticalScrollIndicator={false}>
+        <View style={styles.typeContainer}>
+          {(['expense', 'income'] as const).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.typeButton, type === option && styles.activeTypeButton]}
+              onPress={() => changeType(option)}
+            >
+              <Text style={[styles.typeButtonText, type === option && styles.activeTypeButtonText]}>
+                {option === 'expense' ? '💸 Expense' : '💰 Income'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.switchRow}>
+          <Text style={styles.switchLabel}>Show archived</Text>
+          <Switch value={showArchived} onValueChange={setShowArchived} />
+        </View>
+
+        <View style={styles.listCard}>
+          {topLevel.map(parent => (
+            <View key={parent.id}>
+              {renderCategory(parent)}
+              {ofType.filter(child => child.parentId === parent.id).map(child => renderCategory(child, true))}
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.formCard}>
+          <Text style={styles.formTitle}>{editing ? `Edit ${editing.name}` : 'New Category'}</Text>
+          <View style={styles.nameRow}>
+            <TextInput
+              placeholder="🙂"
+              value={emoji}
+              onChangeText={setEmoji}
+              style={[styles.input, styles.emojiInput]}
+              placeholderTextColor="#9CA3AF"
+            />
+            <TextInput
+              placeholder="Category name"
+              value={name}
+              onChangeText={setName}
+              style={[styles.input, styles.nameInput]}
+              placeholderTextColor="#9CA3AF"
+            />
+          </View>
+
+          <View style={styles.colorRow}>
+            {categoryColors.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.colorSwatch, { backgroundColor: option }, color === option && styles.activeSwatch]}
+                onPress={() => setColor(option)}
+              />
+            ))}
+          </View>
+
+          {!hasChildren && (
+            <View style={styles.pickerContainer}>
+              <Picker
+                selectedValue={parentId}
+                onValueChange={(value) => setParentId(value)}
+                style={styles.picker}
+              >
+                <Picker.Item label="No parent (top level)" value={TOP_LEVEL} />
+                {parentOptions.map(option => (
+                  <Picker.Item key={option.id} label={`Inside ${option.emoji} ${option.name}`} value={option.id} />
+                ))}
+              </Picker>
+            </View>
+          )}
+
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+            <Text style={styles.saveButtonText}>{editing ? 'Save Changes' : 'Add Category'}</Text>
+          </TouchableOpacity>
+
+          {editing && (
+            <>
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => setCategoryArchived(editing.id, !editing.archived)}
+              >
+                <Text style={styles.secondaryButtonText}>
+                  {editing.archived ? '📤 Unarchive' : '📦 Archive'}
+                </Text>
+              </TouchableOpacity>
+
+              <Text style={styles.sectionLabel}>Merge into another category</Text>
+              <View style={styles.pickerContainer}>
+                <Picker
+                  selectedValue={mergeTargetId}
+                  onValueChange={(value) => setMergeTargetId(value)}
+                  style={styles.picker}
+                >
+                  <Picker.Item label="Choose a category" value="" />
+                  {mergeOptions.map(option => (
+                    <Picker.Item key={option.value} label={option.label} value={option.value} />
+                  ))}
+                </Picker>
+              </View>
+              <TouchableOpacity style={styles.secondaryButton} onPress={handleMerge}>
+                <Text style={styles.secondaryButtonText}>🔀 Merge</Text>
+              </TouchableOpacity>
+
+              {editingInUse && (
+                <>
+                  <Text style={styles.sectionLabel}>Delete and move its transactions to</Text>
+                  <View style={styles.pickerContainer}>
+                    <Picker
+                      selectedValue={deleteTargetId}
+                      onValueChange={(value) => setDeleteTargetId(value)}
+                      style={styles.picker}
+                    >
+                      <Picker.Item label="Choose a category" value="" />
+                      {mergeOptions.map(option => (
+                        <Picker.Item key={option.value} label={option.label} value={option.value} />
+                      ))}
+                    </Picker>
+                  </View>
+                </>
+              )}
+              <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+                <Text style={styles.deleteButtonText}>🗑 Delete</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={resetForm}>
+                <Text style={styles.cancelText}>Cancel</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 60 : 40,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  placeholder: {
+    width: 60,
+  },
+  listContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  typeContainer: {
+    flexDirection: 'row',
+    backgroundColor: '#F3F4F6',
+    borderRadius: 12,
+    padding: 4,
+    gap: 4,
+    marginBottom: 12,
+  },
+  typeButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  activeTypeButton: {
+    backgroundColor: '#FFFFFF',
+  },
+  typeButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  activeTypeButtonText: {
+    color: '#111827',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+    paddingHorizontal: 4,
+  },
+  switchLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  listCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    paddingVertical: 4,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  childRow: {
+    paddingLeft: 48,
+  },
+  selectedRow: {
+    backgroundColor: '#EEF2FF',
+  },
+  archivedRow: {
+    opacity: 0.5,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  icon: {
+    fontSize: 18,
+  },
+  rowName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  archivedBadge: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#92400E',
+    backgroundColor: '#FEF3C7',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  formCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  formTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  nameRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#111827',
+  },
+  emojiInput: {
+    width: 64,
+    textAlign: 'center',
+  },
+  nameInput: {
+    flex: 1,
+  },
+  colorRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  colorSwatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
+  activeSwatch: {
+    borderWidth: 3,
+    borderColor: '#111827',
+  },
+  pickerContainer: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  picker: {
+    height: 50,
+    color: '#111827',
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 4,
+  },
+  saveButton: {
+    backgroundColor: '#6366F1',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  secondaryButton: {
+    backgroundColor: '#F3F4F6',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  deleteButton: {
+    backgroundColor: '#FEF2F2',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#FECACA',
+  },
+  deleteButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#DC2626',
+  },
+  cancelText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,95 @@
+import React, { createContext, ReactNode, useContext } from 'react';
+import { DEFAULT_ACCOUNT_ID } from '../../constants/Accounts';
+import { usePersistedCollection } from '../../hooks/usePersistedCollection';
+import { StorageAdapter } from '../../storage/adapters';
+import { defaultStorageAdapter } from '../../storage/defaultAdapter';
+import { accountsSchema } from '../../storage/schemas';
+import { involvesAccount } from '../../utils/accounts';
+import { Money, ZERO } from '../../utils/money';
+import { useTransactions } from './TransactionContext';
+
+export type AccountType = 'cash' | 'bank' | 'credit' | 'wallet';
+
+/**
+ * Somewhere money is kept. The balance is the opening balance plus every
+ * transaction assigned to the account; credit cards usually open negative.
+ */
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  openingBalance: Money;
+  // Account number in the bank's OFX statements, remembered from the first import
+  statementId?: string;
+}
+
+interface AccountContextType {
+  accounts: Account[];
+  addAccount: (account: Account) => void;
+  updateAccount: (id: string, changes: Partial<Omit<Account, 'id'>>) => void;
+  // Returns false when the account still has transactions or is the last one
+  deleteAccount: (id: string) => boolean;
+  // Replaces every account, falling back to the default cash account if given none
+  restoreAccounts: (accounts: Account[]) => void;
+  isLoading: boolean;
+}
+
+// Every install starts with a cash account so there is always somewhere to record money
+const defaultAccounts: Account[] = [
+  { id: DEFAULT_ACCOUNT_ID, name: 'Cash', type: 'cash', openingBalance: ZERO },
+];
+
+const AccountContext = createContext<AccountContextType | undefined>(undefined);
+
+export const AccountProvider = ({
+  children,
+  storage = defaultStorageAdapter,
+}: {
+  children: ReactNode;
+  storage?: StorageAdapter;
+}) => {
+  const { transactions } = useTransactions();
+  const [accounts, setAccounts, isLoading] = usePersistedCollection(
+    storage,
+    accountsSchema,
+    defaultAccounts,
+    { label: 'accounts' }
+  );
+
+  const addAccount = (account: Account) => {
+    setAccounts(prev => [...prev, account]);
+  };
+
+  const updateAccount = (id: string, changes: Partial<Omit<Account, 'id'>>) => {
+    setAccounts(prev => prev.map(account => (account.id === id ? { ...account, ...changes } : account)));
+  };
+
+  const deleteAccount = (id: string) => {
+    if (accounts.length <= 1 || transactions.some(tx => involvesAccount(tx, id))) return false;
+    setAccounts(prev => prev.filter(account => account.id !== id));
+    return true;
+  };
+
+  const restoreAccounts = (restored: Account[]) => {
+    setAccounts(restored.length > 0 ? restored : defaultAccounts);
+  };
+
+  return (
+    <AccountContext.Provider value={{
+      accounts,
+      addAccount,
+      updateAccount,
+      deleteAccount,
+      restoreAccounts,
+      isLoading
+    }}>
+      {children}
+    </AccountContext.Provider>
+  );
+};
+
+export const useAccounts = () => {
+  const context = useContext(AccountContext);
+  if (!context) throw new Error('useAccounts must be used within an AccountProvider');
+  return context;
+};
@@ -1,44 +1,142 @@
-import React, { createContext, ReactNode, useContext, useState } from 'react';
+import React, { createContext, ReactNode, useContext, useEffect, useRef, useState } from 'react';
+import { v4 as uuid } from 'uuid';
+import { DEMO_MODE, DEMO_USERS } from '../../constants/Demo';
+import { usePersistedCollection } from '../../hooks/usePersistedCollection';
+import { StorageAdapter } from '../../storage/adapters';
+import { defaultStorageAdapter } from '../../storage/defaultAdapter';
+import { usersSchema } from '../../storage/schemas';
+import { hashPassword, passwordProblems, verifyPassword } from '../../utils/passwords';
 
-interface User {
+export interface User {
   username: string;
   role: 'user' | 'admin';
 }
 
+// What's stored for each account; the password itself never is
+export interface UserAccount extends User {
+  id: string;
+  passwordHash: string;
+  createdAt: string;
+}
+
+export interface AuthResult {
+  success: boolean;
+  user?: User;
+  message?: string;
+}
+
 interface AuthContextType {
   user: User | null;
-  login: (username: string, password: string) => { success: boolean; message?: string };
+  login: (username: string, password: string) => Promise<AuthResult>;
+  // Creates an account and signs in as it. The first account registered while
+  // there is no admin becomes the admin, so every install can reach the admin screen.
+  register: (username: string, password: string) => Promise<AuthResult>;
   logout: () => void;
+  isLoading: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const DUMMY_USERS: User[] = [
-  { username: 'user1', role: 'user' },
-  { username: 'admin1', role: 'admin' },
-];
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,32}$/i;
 
-const PASSWORDS: Record<string, string> = {
-  user1: '1234',
-  admin1: 'admin123',
-};
+const sameUsername = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
 
-export const AuthProvider = ({ children }: { children: ReactNode }) => {
+const toUser = ({ username, role }: UserAccount): User => ({ username, role });
+
+const createAccount = async (username: string, password: string, role: User['role']): Promise<UserAccount> => ({
+  id: uuid(),
+  username,
+  role,
+  passwordHash: await hashPassword(password),
+  createdAt: new Date().toISOString(),
+});
+
+export const AuthProvider = ({
+  children,
+  storage = defaultStorageAdapter,
+}: {
+  children: ReactNode;
+  storage?: StorageAdapter;
+}) => {
+  const [accounts, setAccounts, isLoading] = usePersistedCollection(
+    storage,
+    usersSchema,
+    [] as UserAccount[],
+    { label: 'users' }
+  );
   const [user, setUser] = useState<User | null>(null);
+  // Registrations run one at a time and check against accounts added by the
+  // one before, which may not have rendered yet, so a username is never taken twice
+  const latestAccounts = useRef(accounts);
+  const registrations = useRef<Promise<unknown>>(Promise.resolve());
+
+  useEffect(() => {
+    latestAccounts.current = accounts;
+  }, [accounts]);
+
+  // Demo logins are only ever added to builds that ask for them
+  useEffect(() => {
+    if (!DEMO_MODE || isLoading) return;
+    const missing = DEMO_USERS.filter(demo => !accounts.some(a => sameUsername(a.username, demo.username)));
+    if (missing.length === 0) return;
 
-  const login = (username: string, password: string) => {
-    const found = DUMMY_USERS.find(u => u.username === username);
-    if (found && PASSWORDS[found.username] === password) {
-      setUser(found);
-      return { success: true };
+    let cancelled = false;
+    Promise.all(missing.map(demo => createAccount(demo.username, demo.password, demo.role))).then(seeded => {
+      if (cancelled) return;
+      setAccounts(prev => [...prev, ...seeded.filter(s => !prev.some(a => sameUsername(a.username, s.username)))]);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [accounts, isLoading, setAccounts]);
+
+  const login = async (username: string, password: string): Promise<AuthResult> => {
+    if (isLoading) return { success: false, message: 'Still loading accounts, please try again' };
+    const account = accounts.find(a => sameUsername(a.username, username));
+    if (!account) {
+      // Hash anyway so an unknown username takes as long as a wrong password
+      await hashPassword(password);
+      return { success: false, message: 'Invalid credentials' };
+    }
+    if (!(await verifyPassword(password, account.passwordHash))) {
+      return { success: false, message: 'Invalid credentials' };
     }
-    return { success: false, message: 'Invalid credentials' };
+    const signedIn = toUser(account);
+    setUser(signedIn);
+    return { success: true, user: signedIn };
+  };
+
+  const register = (username: string, password: string): Promise<AuthResult> => {
+    const result = registrations.current.then(() => registerNext(username, password));
+    registrations.current = result.catch(() => undefined);
+    return result;
+  };
+
+  const registerNext = async (username: string, password: string): Promise<AuthResult> => {
+    if (isLoading) return { success: false, message: 'Still loading accounts, please try again' };
+    const name = username.trim();
+    if (!USERNAME_PATTERN.test(name)) {
+      return { success: false, message: 'Usernames are 3 to 32 letters, numbers, dots, dashes or underscores' };
+    }
+    if (latestAccounts.current.some(a => sameUsername(a.username, name))) {
+      return { success: false, message: 'That username is already taken' };
+    }
+    const problems = passwordProblems(password, name);
+    if (problems.length > 0) return { success: false, message: problems.join('\n') };
+
+    const role = latestAccounts.current.some(a => a.role === 'admin') ? 'user' : 'admin';
+    const account = await createAccount(name, password, role);
+    latestAccounts.current = [...latestAccounts.current, account];
+    setAccounts(prev => [...prev, account]);
+    const signedIn = toUser(account);
+    setUser(signedIn);
+    return { success: true, user: signedIn };
   };
 
   const logout = () => setUser(null);
 
   return (
-    <AuthContext.Provider value={{ user, login, logout }}>
+    <AuthContext.Provider value={{ user, login, register, logout, isLoading }}>
       {children}
     </AuthContext.Provider>
   );
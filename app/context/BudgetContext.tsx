@@ -0,0 +1,165 @@
+import React, { createContext, ReactNode, useContext } from 'react';
+import { v4 as uuid } from 'uuid';
+import { usePersistedCollection } from '../../hooks/usePersistedCollection';
+import { StorageAdapter } from '../../storage/adapters';
+import { defaultStorageAdapter } from '../../storage/defaultAdapter';
+import { budgetMovesSchema, budgetsSchema } from '../../storage/schemas';
+import { budgetStartMonth, isBudgetActive, withLimitFrom } from '../../utils/budget';
+import { addMonths } from '../../utils/date';
+import { Money } from '../../utils/money';
+
+/**
+ * A limit that is assigned every month from `from` (YYYY-MM) until the next change.
+ */
+export interface BudgetLimit {
+  from: string;
+  limit: Money;
+}
+
+/**
+ * A monthly envelope for one expense category. It starts in the month of its
+ * first limit and runs until `endMonth`, if it has one.
+ */
+export interface Budget {
+  id: string;
+  category: string;
+  // Oldest first, at most one per month, so editing a limit leaves earlier months as they were
+  limits: BudgetLimit[];
+  // Carry the month-end balance (surplus or overspend) into next month;
+  // otherwise it goes back to the "available to assign" pool
+  rollover: boolean;
+  // Last month the budget is active (YYYY-MM); set when it is deleted so its history stays
+  endMonth?: string;
+}
+
+/**
+ * Money reassigned within one month. A missing budget id means the
+ * "available to assign" pool.
+ */
+export interface BudgetMove {
+  id: string;
+  // YYYY-MM
+  month: string;
+  fromBudgetId?: string;
+  toBudgetId?: string;
+  amount: Money;
+}
+
+interface BudgetContextType {
+  budgets: Budget[];
+  moves: BudgetMove[];
+  // Sets the category's limit from `month` on, starting a budget there if it has none
+  setBudget: (category: string, limit: Money, rollover: boolean, month: string) => void;
+  // Ends the budget before `month`; earlier months keep it
+  deleteBudget: (id: string, month: string) => void;
+  moveMoney: (move: BudgetMove) => void;
+  deleteMove: (id: string) => void;
+  // Points the budgets for `fromId` at `toId`, or drops them if `toId` already has one
+  reassignCategory: (fromId: string, toId: string) => void;
+  // Replaces budgets and moves together so moves never point at missing budgets
+  restoreBudgets: (budgets: Budget[], moves: BudgetMove[]) => void;
+  isLoading: boolean;
+}
+
+const BudgetContext = createContext<BudgetContextType | undefined>(undefined);
+
+export const BudgetProvider = ({
+  children,
+  storage = defaultStorageAdapter,
+}: {
+  children: ReactNode;
+  storage?: StorageAdapter;
+}) => {
+  const [budgets, setBudgets, budgetsLoading] = usePersistedCollection(
+    storage,
+    budgetsSchema,
+    [] as Budget[],
+    { label: 'budgets' }
+  );
+  const [moves, setMoves, movesLoading] = usePersistedCollection(
+    storage,
+    budgetMovesSchema,
+    [] as BudgetMove[],
+    { label: 'budget moves' }
+  );
+
+  const setBudget = (category: string, limit: Money, rollover: boolean, month: string) => {
+    setBudgets(prev => {
+      // The budget `month` falls in, else the category's open-ended one
+      const existing =
+        prev.find(b => b.category === category && isBudgetActive(b, month)) ??
+        prev.find(b => b.category === category && b.endMonth === undefined);
+      if (!existing) return [...prev, { id: uuid(), category, limits: [{ from: month, limit }], rollover }];
+      return prev.map(b => (b.id === existing.id ? { ...b, limits: withLimitFrom(b.limits, month, limit), rollover } : b));
+    });
+  };
+
+  // Moves in or out of the budget go with it; the money returns to the pool
+  const removeBudget = (id: string) => {
+    setBudgets(prev => prev.filter(budget => budget.id !== id));
+    setMoves(prev => prev.filter(move => move.fromBudgetId !== id && move.toBudgetId !== id));
+  };
+
+  // A budget that hadn't started before `month` has no history to keep and is removed outright
+  const deleteBudget = (id: string, month: string) => {
+    const budget = budgets.find(b => b.id === id);
+    if (!budget) return;
+    if (month <= budgetStartMonth(budget)) {
+      removeBudget(id);
+      return;
+    }
+    setBudgets(prev =>
+      prev.map(b =>
+        b.id === id ? { ...b, limits: b.limits.filter(entry => entry.from < month), endMonth: addMonths(month, -1) } : b
+      )
+    );
+    setMoves(prev =>
+      prev.filter(move => move.month < month || (move.fromBudgetId !== id && move.toBudgetId !== id))
+    );
+  };
+
+  const moveMoney = (move: BudgetMove) => {
+    setMoves(prev => [...prev, move]);
+  };
+
+  const deleteMove = (id: string) => {
+    setMoves(prev => prev.filter(move => move.id !== id));
+  };
+
+  const reassignCategory = (fromId: string, toId: string) => {
+    const sources = budgets.filter(budget => budget.category === fromId);
+    if (sources.length === 0) return;
+    if (budgets.some(budget => budget.category === toId)) {
+      sources.forEach(source => removeBudget(source.id));
+    } else {
+      setBudgets(prev => prev.map(budget => (budget.category === fromId ? { ...budget, category: toId } : budget)));
+    }
+  };
+
+  const restoreBudgets = (restoredBudgets: Budget[], restoredMoves: BudgetMove[]) => {
+    setBudgets(restoredBudgets);
+    setMoves(restoredMoves);
+  };
+
+  return (
+    <BudgetContext.Provider value={{
+      budgets,
+      moves,
+      setBudget,
+      deleteBudget,
+      moveMoney,
+      deleteMove,
+      reassignCategory,
+      restoreBudgets,
+      isLoading: budgetsLoading || movesLoading
+    }}>
+      {children}
+    </BudgetContext.Provider>
+  );
+};
+
+export const useBudgets = () => {
+  const context = useContext(BudgetContext);
+  if (!context) throw new Error('useBudgets must be used within a BudgetProvider');
+  return context;
+};
@@ -0,0 +1,147 @@
+import React, { createContext, ReactNode, useContext } from 'react';
+import { defaultCategories } from '../../constants/Categories';
+import { usePersistedCollection } from '../../hooks/usePersistedCollection';
+import { StorageAdapter } from '../../storage/adapters';
+import { defaultStorageAdapter } from '../../storage/defaultAdapter';
+import { categoriesSchema } from '../../storage/schemas';
+import { usesCategory } from '../../utils/categories';
+import { useBudgets } from './BudgetContext';
+import { useCategoryRules } from './CategoryRuleContext';
+import { useRecurring } from './RecurringContext';
+import { useTransactions } from './TransactionContext';
+
+export type CategoryType = 'income' | 'expense';
+
+/**
+ * A user-editable category. Transactions, splits, recurring templates,
+ * budgets and category rules refer to it by `id`, so renaming never touches them.
+ */
+export interface Category {
+  id: string;
+  name: string;
+  type: CategoryType;
+  emoji: string;
+  color: string;
+  // One level of nesting: a subcategory's parent is always top-level
+  parentId?: string;
+  // Hidden from pickers; existing transactions keep showing it
+  archived: boolean;
+}
+
+interface CategoryContextType {
+  categories: Category[];
+  getCategory: (id: string) => Category | undefined;
+  addCategory: (category: Category) => void;
+  updateCategory: (id: string, changes: Partial<Omit<Category, 'id' | 'type'>>) => void;
+  setCategoryArchived: (id: string, archived: boolean) => void;
+  isCategoryInUse: (id: string) => boolean;
+  // Moves every transaction, recurring rule, budget and category rule to `targetId`, then removes the source
+  mergeCategory: (sourceId: string, targetId: string) => void;
+  // Categories in use need `reassignToId`, which everything using them moves to first;
+  // returns false if one is in use and no other category was given
+  deleteCategory: (id: string, reassignToId?: string) => boolean;
+  // Replaces the whole registry, e.g. from a backup
+  restoreCategories: (categories: Category[]) => void;
+  isLoading: boolean;
+}
+
+const CategoryContext = createContext<CategoryContextType | undefined>(undefined);
+
+export const CategoryProvider = ({
+  children,
+  storage = defaultStorageAdapter,
+}: {
+  children: ReactNode;
+  storage?: StorageAdapter;
+}) => {
+  const { transactions, reassignCategory: reassignTransactions } = useTransactions();
+  const { rules, reassignCategory: reassignRules } = useRecurring();
+  const { budgets, reassignCategory: reassignBudgets } = useBudgets();
+  const { categoryRules, reassignCategory: reassignCategoryRules } = useCategoryRules();
+  const [categories, setCategories, isLoading] = usePersistedCollection(
+    storage,
+    categoriesSchema,
+    defaultCategories,
+    { label: 'categories' }
+  );
+
+  const getCategory = (id: string) => categories.find(category => category.id === id);
+
+  const addCategory = (category: Category) => {
+    setCategories(prev => [...prev, category]);
+  };
+
+  const updateCategory = (id: string, changes: Partial<Omit<Category, 'id' | 'type'>>) => {
+    setCategories(prev => prev.map(category => (category.id === id ? { ...category, ...changes } : category)));
+  };
+
+  const setCategoryArchived = (id: string, archived: boolean) => {
+    updateCategory(id, { archived });
+  };
+
+  const isCategoryInUse = (id: string) =>
+    transactions.some(tx => usesCategory(tx, id)) ||
+    rules.some(rule =>
+      usesCategory(rule.template, id) ||
+      Object.values(rule.overrides).some(override => override.category === id)
+    ) ||
+    budgets.some(budget => budget.category === id) ||
+    categoryRules.some(rule => rule.category === id) ||
+    categories.some(category => category.parentId === id);
+
+  const mergeCategory = (sourceId: string, targetId: string) => {
+    if (sourceId === targetId) return;
+    reassignTransactions(sourceId, targetId);
+    reassignRules(sourceId, targetId);
+    reassignBudgets(sourceId, targetId);
+    reassignCategoryRules(sourceId, targetId);
+    // Subcategories move under the target, or become top-level if the target is itself a child
+    const target = getCategory(targetId);
+    setCategories(prev =>
+      prev
+        .filter(category => category.id !== sourceId)
+        .map(category =>
+          category.parentId === sourceId
+            ? { ...category, parentId: target?.parentId ? undefined : targetId }
+            : category
+        )
+    );
+  };
+
+  const deleteCategory = (id: string, reassignToId?: string) => {
+    if (!isCategoryInUse(id)) {
+      setCategories(prev => prev.filter(category => category.id !== id));
+      return true;
+    }
+    if (!reassignToId || reassignToId === id) return false;
+    mergeCategory(id, reassignToId);
+    return true;
+  };
+
+  const restoreCategories = (restored: Category[]) => {
+    setCategories(restored);
+  };
+
+  return (
+    <CategoryContext.Provider value={{
+      categories,
+      getCategory,
+      addCategory,
+      updateCategory,
+      setCategoryArchived,
+      isCategoryInUse,
+      mergeCategory,
+      deleteCategory,
+      restoreCategories,
+      isLoading
+    }}>
+      {children}
+    </CategoryContext.Provider>
+  );
+};
+
+export const useCategories = () => {
+  const context = useContext(CategoryContext);
+  if (!context) throw new Error('useCategories must be used within a CategoryProvider');
+  return context;
+};
@@ -0,0 +1,110 @@
+import React, { createContext, ReactNode, useContext } from 'react';
+import { usePersistedCollection } from '../../hooks/usePersistedCollection';
+import { StorageAdapter } from '../../storage/adapters';
+import { defaultStorageAdapter } from '../../storage/defaultAdapter';
+import { categoryRulesSchema } from '../../storage/schemas';
+import { Money } from '../../utils/money';
+
+/**
+ * Assigns a type, category and tags to new transactions that match. Rules
+ * are tried in list order and the first match wins; see utils/categoryRules.
+ */
+export interface CategoryRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Conditions; every one that is set must hold
+  titleMatch: 'contains' | 'regex';
+  titlePattern: string;
+  minAmount?: Money;
+  maxAmount?: Money;
+  accountId?: string;
+  // Outcome. `type` is the category's type and is set together with it;
+  // a rule without a category only adds tags.
+  type?: 'income' | 'expense';
+  category?: string;
+  tags?: string[];
+}
+
+interface CategoryRuleContextType {
+  categoryRules: CategoryRule[];
+  addCategoryRule: (rule: CategoryRule) => void;
+  updateCategoryRule: (id: string, changes: Partial<Omit<CategoryRule, 'id'>>) => void;
+  deleteCategoryRule: (id: string) => void;
+  // Swaps the rule with its neighbour; -1 raises its priority, 1 lowers it
+  moveCategoryRule: (id: string, direction: -1 | 1) => void;
+  // Points rules that assign `fromId` at `toId`
+  reassignCategory: (fromId: string, toId: string) => void;
+  // Replaces every rule; list order is priority order
+  restoreCategoryRules: (rules: CategoryRule[]) => void;
+  isLoading: boolean;
+}
+
+const CategoryRuleContext = createContext<CategoryRuleContextType | undefined>(undefined);
+
+export const CategoryRuleProvider = ({
+  children,
+  storage = defaultStorageAdapter,
+}: {
+  children: ReactNode;
+  storage?: StorageAdapter;
+}) => {
+  const [categoryRules, setCategoryRules, isLoading] = usePersistedCollection(
+    storage,
+    categoryRulesSchema,
+    [] as CategoryRule[],
+    { label: 'category rules' }
+  );
+
+  const addCategoryRule = (rule: CategoryRule) => {
+    setCategoryRules(prev => [...prev, rule]);
+  };
+
+  const updateCategoryRule = (id: string, changes: Partial<Omit<CategoryRule, 'id'>>) => {
+    setCategoryRules(prev => prev.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const deleteCategoryRule = (id: string) => {
+    setCategoryRules(prev => prev.filter(rule => rule.id !== id));
+  };
+
+  const moveCategoryRule = (id: string, direction: -1 | 1) => {
+    setCategoryRules(prev => {
+      const index = prev.findIndex(rule => rule.id === id);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const reassignCategory = (fromId: string, toId: string) => {
+    setCategoryRules(prev => prev.map(rule => (rule.category === fromId ? { ...rule, category: toId } : rule)));
+  };
+
+  const restoreCategoryRules = (restored: CategoryRule[]) => {
+    setCategoryRules(restored);
+  };
+
+  return (
+    <CategoryRuleContext.Provider value={{
+      categoryRules,
+      addCategoryRule,
+      updateCategoryRule,
+      deleteCategoryRule,
+      moveCategoryRule,
+      reassignCategory,
+      restoreCategoryRules,
+      isLoading
+    }}>
+      {children}
+    </CategoryRuleContext.Provider>
+  );
+};
+
+export const useCategoryRules = () => {
+  const context = useContext(CategoryRuleContext);
+  if (!context) throw new Error('useCategoryRules must be used within a CategoryRuleProvider');
+  return context;
+};
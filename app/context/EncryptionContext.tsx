@@ -0,0 +1,138 @@
+import React, { createContext, ReactNode, useContext, useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { UnlockScreen } from '../../components/UnlockScreen';
+import { StorageAdapter } from '../../storage/adapters';
+import { defaultStorageAdapter } from '../../storage/defaultAdapter';
+import {
+  createEncryptedStorageAdapter,
+  createKeyring,
+  EncryptedStorageAdapter,
+  EncryptionMeta,
+  loadEncryptionMeta,
+  saveEncryptionMeta,
+  unlockKeyring,
+  wrapKeyring
+} from '../../storage/encryption';
+import { STORAGE_KEYS } from '../../storage/schemas';
+
+interface EncryptionContextType {
+  // What the data providers persist through; encrypts whenever encryption is on
+  storage: StorageAdapter;
+  isEncrypted: boolean;
+  enableEncryption: (passphrase: string) => Promise<void>;
+  // Throws WrongPassphraseError if `current` doesn't match
+  changePassphrase: (current: string, next: string) => Promise<void>;
+  disableEncryption: (passphrase: string) => Promise<void>;
+}
+
+const EncryptionContext = createContext<EncryptionContextType | undefined>(undefined);
+
+/**
+ * Reads the encryption settings on start and asks for the passphrase when
+ * they exist. Children aren't mounted until storage is readable, so no
+ * provider loads, or saves over, data it can't decrypt yet.
+ */
+export const EncryptionProvider = ({
+  children,
+  storage = defaultStorageAdapter,
+}: {
+  children: ReactNode;
+  storage?: StorageAdapter;
+}) => {
+  const [meta, setMeta] = useState<EncryptionMeta | null>(null);
+  const [adapter, setAdapter] = useState<EncryptedStorageAdapter | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadEncryptionMeta(storage)
+      .then(stored => {
+        if (cancelled) return;
+        setMeta(stored);
+        if (!stored) setAdapter(createEncryptedStorageAdapter(storage, null));
+      })
+      .catch(error => {
+        console.error('Error loading encryption settings:', error);
+        Alert.alert('Error', 'Encryption settings could not be read, so your data cannot be unlocked.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [storage]);
+
+  const unlock = async (passphrase: string) => {
+    if (!meta) throw new Error('Encryption settings are missing');
+    setAdapter(createEncryptedStorageAdapter(storage, await unlockKeyring(meta, passphrase)));
+  };
+
+  // The only way past a forgotten passphrase; the data can't be recovered without it
+  const eraseAllData = async () => {
+    for (const key of STORAGE_KEYS) await storage.removeItem(key);
+    await saveEncryptionMeta(storage, null);
+    setMeta(null);
+    setAdapter(createEncryptedStorageAdapter(storage, null));
+  };
+
+  if (isLoading) return null;
+  if (!adapter) return <UnlockScreen onUnlock={unlock} onErase={eraseAllData} />;
+
+  const enableEncryption = async (passphrase: string) => {
+    if (meta) return;
+    const keyring = createKeyring();
+    const wrapped = await wrapKeyring(keyring, passphrase);
+    // Saved first so values already rewritten can be read if the app stops part way
+    await saveEncryptionMeta(storage, wrapped);
+    // Encryption is on from here even if the rewrite fails, so a retry can't wrap
+    // a second keyring over this one; values left plain are encrypted on their next save
+    setMeta(wrapped);
+    await adapter.rekey(keyring, STORAGE_KEYS);
+  };
+
+  const changePassphrase = async (current: string, next: string) => {
+    if (!meta) return;
+    const keyring = await unlockKeyring(meta, current);
+    // Moves everything onto a fresh data key too, so an old copy of the settings
+    // and the old passphrase together can't read anything written from now on
+    const fresh = createKeyring();
+    const transition = await wrapKeyring(
+      { keys: { ...keyring.keys, ...fresh.keys }, currentKeyId: fresh.currentKeyId },
+      next
+    );
+    await saveEncryptionMeta(storage, transition);
+    // From here on only the new passphrase unlocks, even if the rewrite fails
+    setMeta(transition);
+    await adapter.rekey(fresh, STORAGE_KEYS);
+    const rekeyed = { ...transition, keys: { [fresh.currentKeyId]: transition.keys[fresh.currentKeyId] } };
+    await saveEncryptionMeta(storage, rekeyed);
+    setMeta(rekeyed);
+  };
+
+  const disableEncryption = async (passphrase: string) => {
+    if (!meta) return;
+    await unlockKeyring(meta, passphrase);
+    await adapter.rekey(null, STORAGE_KEYS);
+    await saveEncryptionMeta(storage, null);
+    setMeta(null);
+  };
+
+  return (
+    <EncryptionContext.Provider value={{
+      storage: adapter,
+      isEncrypted: meta != null,
+      enableEncryption,
+      changePassphrase,
+      disableEncryption,
+    }}>
+      {children}
+    </EncryptionContext.Provider>
+  );
+};
+
+export const useEncryption = () => {
+  const context = useContext(EncryptionContext);
+  if (!context) throw new Error('useEncryption must be used within an EncryptionProvider');
+  return context;
+};
@@ -0,0 +1,160 @@
+import React, { createContext, ReactNode, useContext, useEffect } from 'react';
+import { usePersistedCollection } from '../../hooks/usePersistedCollection';
+import { StorageAdapter } from '../../storage/adapters';
+import { defaultStorageAdapter } from '../../storage/defaultAdapter';
+import { recurringRulesSchema } from '../../storage/schemas';
+import { reassignCategory as reassignItemCategory } from '../../utils/categories';
+import { materializeDueOccurrences, RecurrenceSettings } from '../../utils/recurrence';
+import { Transaction, useTransactions } from './TransactionContext';
+
+export type RecurringTemplate = Pick<Transaction, 'title' | 'amount' | 'category' | 'type' | 'accountId' | 'toAccountId' | 'splits' | 'tags' | 'notes'>;
+
+export interface RecurringRule extends RecurrenceSettings {
+  id: string;
+  template: RecurringTemplate;
+  startDate: string; // ISO timestamp of the first occurrence
+  paused: boolean;
+  // Occurrence keys (YYYY-MM-DD) that should not create a transaction
+  skippedDates: string[];
+  // Single-occurrence edits keyed by occurrence key; `date` may move one earlier, never later
+  overrides: Record<string, Partial<RecurringTemplate> & { date?: string }>;
+  // Scheduled date of the latest occurrence that has been created
+  lastMaterializedAt?: string;
+}
+
+interface RecurringContextType {
+  rules: RecurringRule[];
+  addRule: (rule: RecurringRule) => void;
+  updateRule: (id: string, changes: Partial<Omit<RecurringRule, 'id'>>) => void;
+  deleteRule: (id: string) => void;
+  setRulePaused: (id: string, paused: boolean) => void;
+  toggleSkipOccurrence: (id: string, key: string) => void;
+  editOccurrence: (id: string, key: string, override: RecurringRule['overrides'][string]) => void;
+  // Refiles templates and single-occurrence edits in `fromId` under `toId`
+  reassignCategory: (fromId: string, toId: string) => void;
+  // Replaces every rule; occurrences that fall due are created on the next run as usual
+  restoreRules: (rules: RecurringRule[]) => void;
+  isLoading: boolean;
+}
+
+const RecurringContext = createContext<RecurringContextType | undefined>(undefined);
+
+export const RecurringProvider = ({
+  children,
+  storage = defaultStorageAdapter,
+}: {
+  children: ReactNode;
+  storage?: StorageAdapter;
+}) => {
+  const { addTransactions, flushTransactions, isLoading: transactionsLoading } = useTransactions();
+  const [rules, setRules, isLoading] = usePersistedCollection(
+    storage,
+    recurringRulesSchema,
+    [] as RecurringRule[],
+    { label: 'recurring transactions' }
+  );
+
+  // Create every occurrence that became due since the last run: on app start,
+  // and right away when a rule is added or changed. Rules only record their
+  // progress once the new transactions are written, so stopping the app in
+  // between can't lose occurrences; their ids are fixed, so a rerun can't
+  // duplicate them either.
+  useEffect(() => {
+    if (isLoading || transactionsLoading) return;
+
+    const { transactions, rules: nextRules } = materializeDueOccurrences(rules, new Date());
+    if (nextRules === rules) return;
+    if (transactions.length === 0) {
+      setRules(nextRules);
+      return;
+    }
+
+    let cancelled = false;
+    addTransactions(transactions);
+    flushTransactions().then(saved => {
+      if (saved && !cancelled) setRules(nextRules);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [rules, isLoading, transactionsLoading, addTransactions, flushTransactions, setRules]);
+
+  const addRule = (rule: RecurringRule) => {
+    setRules(prev => [rule, ...prev]);
+  };
+
+  const updateRule = (id: string, changes: Partial<Omit<RecurringRule, 'id'>>) => {
+    setRules(prev => prev.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const deleteRule = (id: string) => {
+    setRules(prev => prev.filter(rule => rule.id !== id));
+  };
+
+  // Occurrences missed while paused are not created on resume
+  const setRulePaused = (id: string, paused: boolean) => {
+    updateRule(id, paused ? { paused } : { paused, lastMaterializedAt: new Date().toISOString() });
+  };
+
+  const toggleSkipOccurrence = (id: string, key: string) => {
+    setRules(prev =>
+      prev.map(rule => {
+        if (rule.id !== id) return rule;
+        const skippedDates = rule.skippedDates.includes(key)
+          ? rule.skippedDates.filter(skipped => skipped !== key)
+          : [...rule.skippedDates, key];
+        return { ...rule, skippedDates };
+      })
+    );
+  };
+
+  const editOccurrence = (id: string, key: string, override: RecurringRule['overrides'][string]) => {
+    setRules(prev =>
+      prev.map(rule =>
+        rule.id === id ? { ...rule, overrides: { ...rule.overrides, [key]: override } } : rule
+      )
+    );
+  };
+
+  const reassignCategory = (fromId: string, toId: string) => {
+    setRules(prev =>
+      prev.map(rule => ({
+        ...rule,
+        template: reassignItemCategory(rule.template, fromId, toId),
+        overrides: Object.fromEntries(
+          Object.entries(rule.overrides).map(([key, override]) => [
+            key,
+            override.category === fromId ? { ...override, category: toId } : override,
+          ])
+        ),
+      }))
+    );
+  };
+
+  const restoreRules = (restored: RecurringRule[]) => {
+    setRules(restored);
+  };
+
+  return (
+    <RecurringContext.Provider value={{
+      rules,
+      addRule,
+      updateRule,
+      deleteRule,
+      setRulePaused,
+      toggleSkipOccurrence,
+      editOccurrence,
+      reassignCategory,
+      restoreRules,
+      isLoading
+    }}>
+      {children}
+    </RecurringContext.Provider>
+  );
+};
+
+export const useRecurring = () => {
+  const context = useContext(RecurringContext);
+  if (!context) throw new Error('useRecurring must be used within a RecurringProvider');
+  return context;
+};
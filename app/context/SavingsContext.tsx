@@ -0,0 +1,108 @@
+import React, { createContext, ReactNode, useContext } from 'react';
+import { Alert } from 'react-native';
+import { usePersistedCollection } from '../../hooks/usePersistedCollection';
+import { StorageAdapter } from '../../storage/adapters';
+import { saveCollection } from '../../storage/collection';
+import { defaultStorageAdapter } from '../../storage/defaultAdapter';
+import { savingsGoalsSchema } from '../../storage/schemas';
+import { addMoney, minMoney, Money } from '../../utils/money';
+
+export interface SavingsGoal {
+  id: string;
+  title: string;
+  targetAmount: Money;
+  currentAmount: Money;
+  deadline: string;
+  category: string;
+}
+
+interface SavingsContextType {
+  savingsGoals: SavingsGoal[];
+  addSavingsGoal: (goal: SavingsGoal) => void;
+  updateSavingsGoal: (id: string, amount: Money) => void;
+  deleteSavingsGoal: (id: string) => void;
+  // Replaces every goal at once; used by backup restore
+  restoreSavingsGoals: (goals: SavingsGoal[]) => void;
+  isLoading: boolean;
+}
+
+const SavingsContext = createContext<SavingsContextType | undefined>(undefined);
+
+export const SavingsProvider = ({
+  children,
+  storage = defaultStorageAdapter,
+}: {
+  children: ReactNode;
+  storage?: StorageAdapter;
+}) => {
+  const [savingsGoals, setSavingsGoals, isLoading] = usePersistedCollection(
+    storage,
+    savingsGoalsSchema,
+    [] as SavingsGoal[],
+    { label: 'savings goals' }
+  );
+
+  const addSavingsGoal = (goal: SavingsGoal) => {
+    setSavingsGoals(prev => [goal, ...prev]);
+  };
+
+  const updateSavingsGoal = (id: string, amount: Money) => {
+    setSavingsGoals(prev => 
+      prev.map(goal => 
+        goal.id === id 
+          ? { ...goal, currentAmount: minMoney(goal.targetAmount, addMoney(goal.currentAmount, amount)) }
+          : goal
+      )
+    );
+  };
+
+  const deleteSavingsGoal = (id: string) => {
+    Alert.alert(
+      "Delete Goal",
+      "Are you sure you want to delete this savings goal?",
+      [
+        { text: "Cancel", style: "cancel" },
+        { 
+          text: "Delete", 
+          style: "destructive",
+          onPress: () => setSavingsGoals(prev => prev.filter(goal => goal.id !== id))
+        }
+      ]
+    );
+  };
+
+  // Clear all data function (optional - for testing or reset)
+  const clearAllData = async () => {
+    try {
+      await saveCollection(storage, savingsGoalsSchema, []);
+      setSavingsGoals([]);
+      Alert.alert('Success', 'All savings goals cleared');
+    } catch (error) {
+      console.error('Error clearing data:', error);
+      Alert.alert('Error', 'Failed to clear data');
+    }
+  };
+
+  const restoreSavingsGoals = (restored: SavingsGoal[]) => {
+    setSavingsGoals(restored);
+  };
+
+  return (
+    <SavingsContext.Provider value={{ 
+      savingsGoals,
+      addSavingsGoal,
+      updateSavingsGoal,
+      deleteSavingsGoal,
+      restoreSavingsGoals,
+      isLoading
+    }}>
+      {children}
+    </SavingsContext.Provider>
+  );
+};
+
+export const useSavings = () => {
+  const context = useContext(SavingsContext);
+  if (!context) throw new Error('useSavings must be used within a SavingsProvider');
+  return context;
+};
@@ -1,35 +1,143 @@
-import React, { createContext, ReactNode, useContext, useState } from 'react';
+import React, { createContext, ReactNode, useCallback, useContext } from 'react';
+import { usePersistedCollection } from '../../hooks/usePersistedCollection';
+import { StorageAdapter } from '../../storage/adapters';
+import { defaultStorageAdapter } from '../../storage/defaultAdapter';
+import { transactionsSchema } from '../../storage/schemas';
+import { reassignCategory as reassignItemCategory } from '../../utils/categories';
+import { mergeDuplicate } from '../../utils/duplicates';
+import { Money } from '../../utils/money';
+
+// One category's share of a split transaction
+export interface TransactionSplit {
+  category: string;
+  amount: Money;
+}
 
 export interface Transaction {
   id: string;
   title: string;
-  amount: number;
+  amount: Money;
   category: string;
-  type: 'income' | 'expense';
-  date: string;
+  // Transfers move money between two accounts and count as neither income nor expense
+  type: 'income' | 'expense' | 'transfer';
+  date: string; // ISO 8601 timestamp
+  // For transfers, the account the money leaves
+  accountId: string;
+  // Set on transfers only: the account the money goes to
+  toAccountId?: string;
+  // Income and expenses only: per-category lines that add up to `amount`.
+  // `category` then holds the first line's category.
+  splits?: TransactionSplit[];
+  // Free-form labels that cut across categories, e.g. "trip-lahore"; see utils/tags
+  tags?: string[];
+  notes?: string;
+  // Set on transactions created by a recurring rule
+  recurringId?: string;
+  occurrenceDate?: string; // YYYY-MM-DD the occurrence was scheduled for
+  // Set on transactions imported from an OFX/QIF statement, unique within the account
+  importId?: string;
+  // Transactions the user confirmed this is not a duplicate of; see utils/duplicates
+  notDuplicateOf?: string[];
 }
 
 interface TransactionContextType {
   transactions: Transaction[];
   addTransaction: (tx: Transaction) => void;
+  addTransactions: (txs: Transaction[]) => void;
+  updateTransaction: (id: string, changes: Partial<Omit<Transaction, 'id'>>) => void;
   deleteTransaction: (id: string) => void;
+  // Refiles every transaction and split line in `fromId` under `toId`
+  reassignCategory: (fromId: string, toId: string) => void;
+  // Deletes `removeId`, keeping its tags, notes and import id on `keepId`
+  mergeDuplicates: (keepId: string, removeId: string) => void;
+  // Records that the two are separate transactions so they aren't flagged again
+  dismissDuplicate: (id: string, otherId: string) => void;
+  // Replaces the whole ledger, e.g. when restoring a backup
+  restoreTransactions: (transactions: Transaction[]) => void;
+  // Writes changes made so far without waiting on the debounce; resolves to whether that worked
+  flushTransactions: () => Promise<boolean>;
+  isLoading: boolean;
 }
 
 const TransactionContext = createContext<TransactionContextType | undefined>(undefined);
 
-export const TransactionProvider = ({ children }: { children: ReactNode }) => {
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+// Batch rapid edits into a single write so large ledgers aren't rewritten on every change
+const SAVE_DEBOUNCE_MS = 500;
+
+export const TransactionProvider = ({
+  children,
+  storage = defaultStorageAdapter,
+}: {
+  children: ReactNode;
+  storage?: StorageAdapter;
+}) => {
+  const [transactions, setTransactions, isLoading, flushTransactions] = usePersistedCollection(
+    storage,
+    transactionsSchema,
+    [] as Transaction[],
+    { label: 'transactions', debounceMs: SAVE_DEBOUNCE_MS }
+  );
 
   const addTransaction = (tx: Transaction) => {
     setTransactions(prev => [tx, ...prev]);
   };
 
+  // Adds a batch in one state update; transactions whose id already exists are skipped
+  const addTransactions = useCallback((txs: Transaction[]) => {
+    setTransactions(prev => {
+      const existingIds = new Set(prev.map(tx => tx.id));
+      return [...txs.filter(tx => !existingIds.has(tx.id)), ...prev];
+    });
+  }, [setTransactions]);
+
+  const updateTransaction = (id: string, changes: Partial<Omit<Transaction, 'id'>>) => {
+    setTransactions(prev => prev.map(tx => (tx.id === id ? { ...tx, ...changes } : tx)));
+  };
+
   const deleteTransaction = (id: string) => {
     setTransactions(prev => prev.filter(tx => tx.id !== id));
   };
 
+  const reassignCategory = (fromId: string, toId: string) => {
+    setTransactions(prev => prev.map(tx => reassignItemCategory(tx, fromId, toId)));
+  };
+
+  const mergeDuplicates = (keepId: string, removeId: string) => {
+    setTransactions(prev => {
+      const keep = prev.find(tx => tx.id === keepId);
+      const remove = prev.find(tx => tx.id === removeId);
+      if (!keep || !remove) return prev;
+      const changes = mergeDuplicate(keep, remove);
+      return prev.flatMap(tx =>
+        tx.id === removeId ? [] : tx.id === keepId ? [{ ...tx, ...changes }] : [tx]);
+    });
+  };
+
+  const dismissDuplicate = (id: string, otherId: string) => {
+    setTransactions(prev => prev.map(tx =>
+      tx.id === id && !tx.notDuplicateOf?.includes(otherId)
+        ? { ...tx, notDuplicateOf: [...(tx.notDuplicateOf ?? []), otherId] }
+        : tx));
+  };
+
+  const restoreTransactions = (restored: Transaction[]) => {
+    setTransactions(restored);
+  };
+
   return (
-    <TransactionContext.Provider value={{ transactions, addTransaction, deleteTransaction }}>
+    <TransactionContext.Provider value={{
+      transactions,
+      addTransaction,
+      addTransactions,
+      updateTransaction,
+      deleteTransaction,
+      reassignCategory,
+      mergeDuplicates,
+      dismissDuplicate,
+      restoreTransactions,
+      flushTransactions,
+      isLoading
+    }}>
       {children}
     </TransactionContext.Provider>
   );
@@ -0,0 +1,231 @@
+import { useRouter } from 'expo-router';
+import React, { useMemo } from 'react';
+import {
+  Alert,
+  FlatList,
+  Platform,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { categoryPath } from '../../utils/categories';
+import { formatDateTime } from '../../utils/date';
+import { DuplicatePair, findDuplicatePairs } from '../../utils/duplicates';
+import { formatMoney } from '../../utils/money';
+import { useAccounts } from '../context/AccountContext';
+import { useCategories } from '../context/CategoryContext';
+import { Transaction, useTransactions } from '../context/TransactionContext';
+
+export default function DuplicatesScreen() {
+  const router = useRouter();
+  const { transactions, mergeDuplicates, dismissDuplicate } = useTransactions();
+  const { accounts } = useAccounts();
+  const { categories } = useCategories();
+
+  const pairs = useMemo(() => findDuplicatePairs(transactions), [transactions]);
+
+  const accountName = (accountId: string) => accounts.find(a => a.id === accountId)?.name ?? 'Unknown account';
+
+  const handleKeep = (keep: Transaction, remove: Transaction) => {
+    Alert.alert(
+      'Merge Duplicates',
+      `Keep "${keep.title}" from ${formatDateTime(keep.date)} and delete the other entry? ` +
+        'Its tags and notes are kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', style: 'destructive', onPress: () => mergeDuplicates(keep.id, remove.id) },
+      ]
+    );
+  };
+
+  const renderSide = (tx: Transaction, other: Transaction, label: string) => (
+    <View style={styles.side}>
+      <TouchableOpacity onPress={() => router.push(`/expenses/${tx.id}`)} activeOpacity={0.7}>
+        <Text style={styles.sideLabel}>{label}</Text>
+        <Text style={styles.txTitle} numberOfLines={2}>{tx.title}</Text>
+        <Text style={styles.txDetail}>{formatDateTime(tx.date)}</Text>
+        <Text style={styles.txDetail} numberOfLines={1}>{accountName(tx.accountId)}</Text>
+        <Text style={styles.txDetail} numberOfLines={1}>{categoryPath(categories, tx.category)}</Text>
+        {tx.importId && <Text style={styles.txDetail}>📥 Imported</Text>}
+        {tx.notes && <Text style={styles.txDetail} numberOfLines={2}>{tx.notes}</Text>}
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.keepButton} onPress={() => handleKeep(tx, other)}>
+        <Text style={styles.keepButtonText}>Keep this</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderPair = ({ item }: { item: DuplicatePair }) => (
+    <View style={styles.card}>
+      <Text style={styles.amount}>{formatMoney(item.original.amount)}</Text>
+      <View style={styles.sides}>
+        {renderSide(item.original, item.duplicate, 'First entry')}
+        {renderSide(item.duplicate, item.original, 'Later entry')}
+      </View>
+      {/* Marking one side is enough; the check looks both ways */}
+      <TouchableOpacity
+        style={styles.dismissButton}
+        onPress={() => dismissDuplicate(item.duplicate.id, item.original.id)}
+      >
+        <Text style={styles.dismissButtonText}>Not a duplicate</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Duplicates</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <FlatList
+        data={pairs}
+        keyExtractor={item => item.key}
+        renderItem={renderPair}
+        contentContainerStyle={styles.listContainer}
+        showsVerticalScrollIndicator={false}
+        ListHeaderComponent={
+          pairs.length > 0 ? (
+            <Text style={styles.intro}>
+              {pairs.length} pair{pairs.length !== 1 ? 's' : ''} with the same amount and a similar title
+              a few days apart. Keep one to merge them, or mark them as separate.
+            </Text>
+          ) : null
+        }
+        ListEmptyComponent={<Text style={styles.emptyText}>No suspected duplicates 🎉</Text>}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 60 : 40,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  placeholder: {
+    width: 60,
+  },
+  listContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  amount: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  sides: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  side: {
+    flex: 1,
+    justifyContent: 'space-between',
+    backgroundColor: '#F9FAFB',
+    borderRadius: 12,
+    padding: 12,
+  },
+  sideLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#9CA3AF',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  txTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  txDetail: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 2,
+  },
+  keepButton: {
+    marginTop: 10,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+  },
+  keepButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  dismissButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  dismissButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
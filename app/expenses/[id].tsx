@@ -0,0 +1,311 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  Alert,
+  Platform,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { TransactionForm, TransactionFormValues } from '../../components/TransactionForm';
+import { categoryPath } from '../../utils/categories';
+import { formatDateTime } from '../../utils/date';
+import { formatMoney } from '../../utils/money';
+import { useAccounts } from '../context/AccountContext';
+import { useCategories } from '../context/CategoryContext';
+import { useTransactions } from '../context/TransactionContext';
+
+export default function TransactionDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { transactions, updateTransaction, deleteTransaction } = useTransactions();
+  const { accounts } = useAccounts();
+  const { categories } = useCategories();
+  const [isEditing, setIsEditing] = useState(false);
+
+  const transaction = transactions.find(tx => tx.id === id);
+
+  const handleSave = (values: TransactionFormValues) => {
+    updateTransaction(id, values);
+    setIsEditing(false);
+    Alert.alert('Success', 'Transaction updated successfully!');
+  };
+
+  const handleDelete = () => {
+    if (!transaction) return;
+    Alert.alert(
+      'Delete Transaction',
+      `Are you sure you want to delete "${transaction.title}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            deleteTransaction(transaction.id);
+            router.back();
+          }
+        }
+      ]
+    );
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity
+        onPress={() => (isEditing ? setIsEditing(false) : router.back())}
+        style={styles.backButton}
+      >
+        <Text style={styles.backButtonText}>{isEditing ? 'Cancel' : '← Back'}</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>{isEditing ? 'Edit Transaction' : 'Transaction'}</Text>
+      {transaction && !isEditing ? (
+        <TouchableOpacity onPress={() => setIsEditing(true)} style={styles.editButton}>
+          <Text style={styles.editButtonText}>Edit</Text>
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.placeholder} />
+      )}
+    </View>
+  );
+
+  if (!transaction) {
+    return (
+      <View style={styles.container}>
+        {header}
+        <View style={styles.notFoundContainer}>
+          <Text style={styles.notFoundIcon}>🔍</Text>
+          <Text style={styles.notFoundText}>This transaction no longer exists.</Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (isEditing) {
+    return (
+      <View style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+        <TransactionForm initialValues={transaction} header={header} onSubmit={handleSave} />
+      </View>
+    );
+  }
+
+  const isIncome = transaction.type === 'income';
+  const isTransfer = transaction.type === 'transfer';
+  const accountName = (accountId?: string) =>
+    accounts.find(a => a.id === accountId)?.name ?? 'Unknown account';
+  const amountColor = isTransfer ? '#3B82F6' : isIncome ? '#10B981' : '#EF4444';
+  const typeColor = isTransfer ? '#1D4ED8' : isIncome ? '#059669' : '#DC2626';
+  const typeLabel = isTransfer ? '⇄ Transfer' : isIncome ? '↗ Income' : '↙ Expense';
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+
+      <ScrollView showsVerticalScrollIndicator={false}>
+        {header}
+
+        <View style={styles.card}>
+          <Text style={[styles.amount, { color: amountColor }]}>
+            {isTransfer ? '' : isIncome ? '+' : '-'}{formatMoney(transaction.amount)}
+          </Text>
+          <Text style={styles.transactionTitle}>{transaction.title}</Text>
+
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Type</Text>
+            <Text style={[styles.detailValue, { color: typeColor }]}>{typeLabel}</Text>
+          </View>
+          {isTransfer ? (
+            <>
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>From</Text>
+                <Text style={styles.detailValue}>{accountName(transaction.accountId)}</Text>
+              </View>
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>To</Text>
+                <Text style={styles.detailValue}>{accountName(transaction.toAccountId)}</Text>
+              </View>
+            </>
+          ) : (
+            <>
+              {transaction.splits ? (
+                transaction.splits.map((split, index) => (
+                  <View key={index} style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>{index === 0 ? 'Split' : ''}</Text>
+                    <Text style={styles.detailValue}>
+                      {categoryPath(categories, split.category)} · {formatMoney(split.amount)}
+                    </Text>
+                  </View>
+                ))
+              ) : (
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Category</Text>
+                  <Text style={styles.detailValue}>{categoryPath(categories, transaction.category)}</Text>
+                </View>
+              )}
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Account</Text>
+                <Text style={styles.detailValue}>{accountName(transaction.accountId)}</Text>
+              </View>
+            </>
+          )}
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Date</Text>
+            <Text style={styles.detailValue}>{formatDateTime(transaction.date)}</Text>
+          </View>
+          {transaction.tags && transaction.tags.length > 0 && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Tags</Text>
+              <Text style={styles.detailValue}>{transaction.tags.map(tag => `#${tag}`).join(' ')}</Text>
+            </View>
+          )}
+          {transaction.notes && (
+            <View style={styles.notesRow}>
+              <Text style={styles.detailLabel}>Notes</Text>
+              <Text style={styles.notesText}>{transaction.notes}</Text>
+            </View>
+          )}
+        </View>
+
+        <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+          <Text style={styles.deleteButtonText}>🗑 Delete Transaction</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 60 : 40,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  placeholder: {
+    width: 60,
+  },
+  editButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+  },
+  editButtonText: {
+    fontSize: 16,
+    color: '#3B82F6',
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    margin: 20,
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  amount: {
+    fontSize: 32,
+    fontWeight: '800',
+    marginBottom: 8,
+  },
+  transactionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 16,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  detailValue: {
+    fontSize: 16,
+    color: '#111827',
+    fontWeight: '600',
+    flexShrink: 1,
+    textAlign: 'right',
+  },
+  notesRow: {
+    paddingVertical: 12,
+    gap: 6,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  notesText: {
+    fontSize: 15,
+    color: '#374151',
+    lineHeight: 21,
+  },
+  deleteButton: {
+    marginHorizontal: 20,
+    paddingVertical: 14,
+    alignItems: 'center',
+    backgroundColor: '#FEF2F2',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FECACA',
+  },
+  deleteButtonText: {
+    fontSize: 16,
+    color: '#DC2626',
+    fontWeight: '600',
+  },
+  notFoundContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 40,
+  },
+  notFoundIcon: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+  notFoundText: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
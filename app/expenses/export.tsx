@@ -0,0 +1,317 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Platform,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { CsvDelimiter } from '../../utils/csv';
+import {
+  buildCsvExport,
+  CSV_EXPORT_COLUMN_LABELS,
+  CSV_EXPORT_COLUMNS,
+  CsvExportColumn,
+  DEFAULT_EXPORT_COLUMNS
+} from '../../utils/csvExport';
+import { toDateInputValue } from '../../utils/date';
+import { saveTextFile } from '../../utils/files';
+import { filterTransactions, FilterType, SortType, TransactionFilters } from '../../utils/filters';
+import { DateOrder } from '../../utils/statement';
+import { useAccounts } from '../context/AccountContext';
+import { useCategories } from '../context/CategoryContext';
+import { useTransactions } from '../context/TransactionContext';
+
+// Enough to check the layout before saving
+const PREVIEW_LINES = 4;
+
+const dateOrderOptions: { value: DateOrder; label: string }[] = [
+  { value: 'ymd', label: 'YYYY-MM-DD' },
+  { value: 'dmy', label: 'DD/MM/YYYY' },
+  { value: 'mdy', label: 'MM/DD/YYYY' },
+];
+
+// Semicolons suit spreadsheets set up for a comma decimal separator
+const delimiterOptions: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+];
+
+const sortLabels: Record<SortType, string> = {
+  newest: 'newest first',
+  oldest: 'oldest first',
+  highest: 'highest first',
+  lowest: 'lowest first',
+};
+
+export default function ExportScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{
+    search?: string;
+    type?: string;
+    account?: string;
+    tag?: string;
+    sort?: string;
+  }>();
+  const { transactions } = useTransactions();
+  const { accounts } = useAccounts();
+  const { categories } = useCategories();
+
+  const [columns, setColumns] = useState<CsvExportColumn[]>(DEFAULT_EXPORT_COLUMNS);
+  const [dateOrder, setDateOrder] = useState<DateOrder>('ymd');
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(',');
+
+  // The same view the list was showing when Export was tapped
+  const { search = '', type = 'all', account = 'all', tag = 'all', sort = 'newest' } = params;
+  const filters = useMemo<TransactionFilters>(
+    () => ({ search, type: type as FilterType, account, tag, sort: sort as SortType }),
+    [search, type, account, tag, sort]
+  );
+  const rows = useMemo(
+    () => filterTransactions(transactions, categories, filters),
+    [transactions, categories, filters]
+  );
+
+  const csv = useMemo(
+    () => buildCsvExport(rows, { columns, dateOrder, delimiter }, { categories, accounts }),
+    [rows, columns, dateOrder, delimiter, categories, accounts]
+  );
+  const preview = csv.split('\r\n').slice(0, PREVIEW_LINES + 1).join('\n');
+
+  const filterSummary = [
+    filters.search && `matching "${filters.search}"`,
+    filters.type !== 'all' && `${filters.type} only`,
+    filters.account !== 'all' && `in ${accounts.find(a => a.id === filters.account)?.name ?? 'one account'}`,
+    filters.tag !== 'all' && `tagged #${filters.tag}`,
+    sortLabels[filters.sort],
+  ].filter(Boolean).join(' · ');
+
+  const toggleColumn = (column: CsvExportColumn) => {
+    setColumns(prev => (prev.includes(column) ? prev.filter(c => c !== column) : [...prev, column]));
+  };
+
+  const handleExport = async () => {
+    if (columns.length === 0) {
+      Alert.alert('Error', 'Choose at least one column');
+      return;
+    }
+    try {
+      await saveTextFile(`transactions-${toDateInputValue(new Date().toISOString())}.csv`, csv, 'text/csv');
+    } catch (error) {
+      console.error('Failed to export transactions:', error);
+      Alert.alert('Error', 'Could not save the CSV file');
+    }
+  };
+
+  const Chip = ({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) => (
+    <TouchableOpacity style={[styles.chip, active && styles.activeChip]} onPress={onPress}>
+      <Text style={[styles.chipText, active && styles.activeChipText]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Export CSV</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.summaryCard}>
+          <Text style={styles.summaryValue}>
+            {rows.length} transaction{rows.length !== 1 ? 's' : ''}
+          </Text>
+          <Text style={styles.summaryText}>{filterSummary}</Text>
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Columns</Text>
+          <View style={styles.chipRow}>
+            {CSV_EXPORT_COLUMNS.map(column => (
+              <Chip
+                key={column}
+                label={CSV_EXPORT_COLUMN_LABELS[column]}
+                active={columns.includes(column)}
+                onPress={() => toggleColumn(column)}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Date format</Text>
+          <View style={styles.chipRow}>
+            {dateOrderOptions.map(option => (
+              <Chip
+                key={option.value}
+                label={option.label}
+                active={dateOrder === option.value}
+                onPress={() => setDateOrder(option.value)}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Separator</Text>
+          <View style={styles.chipRow}>
+            {delimiterOptions.map(option => (
+              <Chip
+                key={option.value}
+                label={option.label}
+                active={delimiter === option.value}
+                onPress={() => setDelimiter(option.value)}
+              />
+            ))}
+          </View>
+        </View>
+
+        {columns.length > 0 && (
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Preview</Text>
+            <ScrollView horizontal style={styles.previewBox}>
+              <Text style={styles.previewText}>{preview.replace(/^\uFEFF/, '')}</Text>
+            </ScrollView>
+          </View>
+        )}
+      </ScrollView>
+
+      <View style={styles.bottomContainer}>
+        <TouchableOpacity style={styles.submitButton} onPress={handleExport}>
+          <Text style={styles.submitButtonText}>Export {rows.length} Transaction{rows.length !== 1 ? 's' : ''}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 60 : 40,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  placeholder: {
+    width: 60,
+  },
+  content: {
+    padding: 20,
+    gap: 20,
+    paddingBottom: 40,
+  },
+  summaryCard: {
+    backgroundColor: '#EEF2FF',
+    borderRadius: 16,
+    padding: 16,
+    gap: 4,
+  },
+  summaryValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1E293B',
+  },
+  summaryText: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  inputGroup: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginLeft: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  activeChip: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  activeChipText: {
+    color: '#FFFFFF',
+  },
+  previewBox: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    padding: 12,
+  },
+  previewText: {
+    fontSize: 12,
+    color: '#374151',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  bottomContainer: {
+    padding: 20,
+    paddingBottom: Platform.OS === 'ios' ? 34 : 20,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  submitButton: {
+    backgroundColor: '#6366F1',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+});
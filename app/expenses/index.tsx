@@ -2,6 +2,7 @@
 import { useRouter } from 'expo-router';
 import React, { useMemo, useRef, useState } from 'react';
 import {
+  ActivityIndicator,
   Alert,
   Animated,
   Dimensions,
@@ -16,18 +17,45 @@ import {
   TouchableOpacity,
   View
 } from 'react-native';
-import { useTransactions } from '../context/TransactionContext';
+import { accountTypeEmoji } from '../../constants/Accounts';
+import { accountBalances, runningBalances } from '../../utils/accounts';
+import { categoryPath } from '../../utils/categories';
+import { formatDate } from '../../utils/date';
+import { findDuplicatePairs } from '../../utils/duplicates';
+import { filterTransactions, FilterType, SortType, TransactionFilters } from '../../utils/filters';
+import { categoryTotals } from '../../utils/splits';
+import { tagTotals } from '../../utils/tags';
+import { formatMoney, sumMoney } from '../../utils/money';
+import { useAccounts } from '../context/AccountContext';
+import { useCategories } from '../context/CategoryContext';
+import { Transaction, useTransactions } from '../context/TransactionContext';
 
 const { width } = Dimensions.get('window');
 
-type FilterType = 'all' | 'income' | 'expense';
-type SortType = 'newest' | 'oldest' | 'highest' | 'lowest';
+// Card colours and labels per transaction type
+const typeAppearance: Record<Transaction['type'], {
+  color: string;
+  background: string;
+  chipColor: string;
+  label: string;
+  sign: string;
+}> = {
+  income: { color: '#10B981', background: '#DCFCE7', chipColor: '#059669', label: '↗ Income', sign: '+' },
+  expense: { color: '#EF4444', background: '#FEE2E2', chipColor: '#DC2626', label: '↙ Expense', sign: '-' },
+  transfer: { color: '#3B82F6', background: '#DBEAFE', chipColor: '#1D4ED8', label: '⇄ Transfer', sign: '' },
+};
 
 export default function ExpensesScreen() {
   const router = useRouter();
-  const { transactions, deleteTransaction } = useTransactions();
+  const { transactions, deleteTransaction, isLoading } = useTransactions();
+  const { accounts } = useAccounts();
+  const { categories, getCategory } = useCategories();
   const [searchQuery, setSearchQuery] = useState('');
   const [filterType, setFilterType] = useState<FilterType>('all');
+  // 'all' or an account id
+  const [accountFilter, setAccountFilter] = useState('all');
+  // 'all' or a tag
+  const [tagFilter, setTagFilter] = useState('all');
   const [sortType, setSortType] = useState<SortType>('newest');
   const [refreshing, setRefreshing] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
@@ -35,71 +63,59 @@ export default function ExpensesScreen() {
   const filterAnimation = useRef(new Animated.Value(0)).current;
   const [isScrolling, setIsScrolling] = useState(false);
 
+  const filters = useMemo<TransactionFilters>(
+    () => ({ search: searchQuery, type: filterType, account: accountFilter, tag: tagFilter, sort: sortType }),
+    [searchQuery, filterType, accountFilter, tagFilter, sortType]
+  );
+
   // Filtered and sorted transactions
-  const processedTransactions = useMemo(() => {
-    let filtered = transactions;
-
-    // Apply search filter
-    if (searchQuery) {
-      filtered = filtered.filter(t => 
-        t.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        t.category.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-    }
-
-    // Apply type filter
-    if (filterType !== 'all') {
-      filtered = filtered.filter(t => t.type === filterType);
-    }
-
-    // Apply sorting
-    filtered.sort((a, b) => {
-      switch (sortType) {
-        case 'newest':
-          return new Date(b.date).getTime() - new Date(a.date).getTime();
-        case 'oldest':
-          return new Date(a.date).getTime() - new Date(b.date).getTime();
-        case 'highest':
-          return b.amount - a.amount;
-        case 'lowest':
-          return a.amount - b.amount;
-        default:
-          return 0;
-      }
-    });
-
-    return filtered;
-  }, [transactions, searchQuery, filterType, sortType]);
-
-  // Analytics data
+  const processedTransactions = useMemo(
+    () => filterTransactions(transactions, categories, filters),
+    [transactions, categories, filters]
+  );
+
+  // Analytics data, for the selected account or across all of them
   const analytics = useMemo(() => {
-    const totalIncome = transactions
-      .filter(t => t.type === 'income')
-      .reduce((sum, t) => sum + t.amount, 0);
+    const scopedAccounts = accountFilter === 'all' ? accounts : accounts.filter(a => a.id === accountFilter);
+    const scoped = accountFilter === 'all' ? transactions : transactions.filter(t => t.accountId === accountFilter);
+
+    const totalIncome = sumMoney(
+      scoped.filter(t => t.type === 'income').map(t => t.amount)
+    );
     
-    const totalExpense = transactions
-      .filter(t => t.type === 'expense')
-      .reduce((sum, t) => sum + t.amount, 0);
+    const totalExpense = sumMoney(
+      scoped.filter(t => t.type === 'expense').map(t => t.amount)
+    );
 
-    const balance = totalIncome - totalExpense;
+    const balances = accountBalances(scopedAccounts, transactions);
+    const balance = sumMoney(scopedAccounts.map(a => balances[a.id]));
 
     // Category breakdown
-    const categoryStats = transactions.reduce((acc, t) => {
-      if (!acc[t.category]) {
-        acc[t.category] = { income: 0, expense: 0 };
-      }
-      acc[t.category][t.type] += t.amount;
-      return acc;
-    }, {} as Record<string, { income: number; expense: number }>);
+    const categoryStats = categoryTotals(scoped);
 
     return {
       totalIncome,
       totalExpense,
       balance,
       transactionCount: transactions.length,
-      categoryStats
+      categoryStats,
+      // Spending per tag, for the tag filter chips
+      tagStats: tagTotals(scoped)
     };
-  }, [transactions]);
+  }, [transactions, accounts, accountFilter]);
+
+  const accountNames = useMemo(
+    () => Object.fromEntries(accounts.map(a => [a.id, a.name])) as Record<string, string>,
+    [accounts]
+  );
+
+  // Balance after each transaction, shown while a single account is selected
+  const balanceAfter = useMemo(() => {
+    const account = accounts.find(a => a.id === accountFilter);
+    return account ? runningBalances(account, transactions) : null;
+  }, [accounts, accountFilter, transactions]);
+
+  const duplicateCount = useMemo(() => findDuplicatePairs(transactions).length, [transactions]);
 
   const toggleFilters = () => {
     setShowFilters(!showFilters);
@@ -138,16 +154,6 @@ export default function ExpensesScreen() {
     setIsScrolling(false);
   };
 
-  const getCategoryEmoji = (category: string) => {
-    const emojiMap: { [key: string]: string } = {
-      'Food': '🍔', 'Transport': '🚗', 'Shopping': '🛒', 'Housing': '🏠',
-      'Utilities': '⚡', 'Entertainment': '🎯', 'Healthcare': '🏥', 'Education': '📚',
-      'Clothing': '👕', 'Salary': '💰', 'Freelance': '💼', 'Investment': '📈',
-      'Gift': '🎁', 'Bonus': '💸', 'Business': '🏪', 'Rental': '🏠', 'Other': '💡'
-    };
-    return emojiMap[category] || '💡';
-  };
-
   const FilterButton = ({ type, label }: { type: FilterType; label: string }) => (
     <TouchableOpacity
       style={[
@@ -165,6 +171,40 @@ export default function ExpensesScreen() {
     </TouchableOpacity>
   );
 
+  const AccountButton = ({ id, label }: { id: string; label: string }) => (
+    <TouchableOpacity
+      style={[
+        styles.filterChip,
+        accountFilter === id && styles.activeFilterChip
+      ]}
+      onPress={() => setAccountFilter(id)}
+    >
+      <Text style={[
+        styles.filterChipText,
+        accountFilter === id && styles.activeFilterChipText
+      ]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const TagButton = ({ tag, label }: { tag: string; label: string }) => (
+    <TouchableOpacity
+      style={[
+        styles.filterChip,
+        tagFilter === tag && styles.activeFilterChip
+      ]}
+      onPress={() => setTagFilter(tag)}
+    >
+      <Text style={[
+        styles.filterChipText,
+        tagFilter === tag && styles.activeFilterChipText
+      ]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
   const SortButton = ({ type, label }: { type: SortType; label: string }) => (
     <TouchableOpacity
       style={[
@@ -182,7 +222,7 @@ export default function ExpensesScreen() {
     </TouchableOpacity>
   );
 
-  const renderTransaction = ({ item, index }: { item: any, index: number }) => {
+  const renderTransaction = ({ item, index }: { item: Transaction, index: number }) => {
     // Only apply scroll animations when actually scrolling
     const inputRange = [-1, 0, 50 * index, 50 * (index + 2)];
     
@@ -198,6 +238,10 @@ export default function ExpensesScreen() {
       extrapolateLeft: 'clamp',
     }) : new Animated.Value(1);
 
+    const appearance = typeAppearance[item.type];
+    const category = getCategory(item.category);
+    const accountName = (id?: string) => (id && accountNames[id]) || 'Unknown account';
+
     return (
       <Animated.View style={[
         styles.card, 
@@ -206,45 +250,69 @@ export default function ExpensesScreen() {
           opacity: opacity
         }
       ]}>
-        <View style={styles.cardHeader}>
+        <TouchableOpacity
+          style={styles.cardHeader}
+          onPress={() => router.push(`/expenses/${item.id}`)}
+          activeOpacity={0.7}
+        >
           <View style={styles.categoryContainer}>
             <View style={[
               styles.categoryIcon,
-              { backgroundColor: item.type === 'income' ? '#DCFCE7' : '#FEE2E2' }
+              // Light tint of the category colour (8-digit hex adds alpha)
+              { backgroundColor: category && !item.splits ? `${category.color}33` : appearance.background }
             ]}>
               <Text style={styles.categoryEmoji}>
-                {getCategoryEmoji(item.category)}
+                {item.type === 'transfer' ? '⇄' : item.splits ? '✂️' : category?.emoji ?? '💡'}
               </Text>
             </View>
             <View style={styles.transactionInfo}>
               <Text style={styles.transactionTitle}>{item.title}</Text>
-              <Text style={styles.categoryText}>{item.category}</Text>
+              <Text style={styles.categoryText}>
+                {item.type === 'transfer'
+                  ? `${accountName(item.accountId)} → ${accountName(item.toAccountId)}`
+                  : item.splits
+                    ? `Split · ${item.splits.map(split => categoryPath(categories, split.category)).join(', ')} · ${accountName(item.accountId)}`
+                    : `${categoryPath(categories, item.category)} · ${accountName(item.accountId)}`}
+              </Text>
             </View>
           </View>
           
           <View style={styles.amountContainer}>
             <Text style={[
               styles.amount,
-              { color: item.type === 'income' ? '#10B981' : '#EF4444' }
+              { color: appearance.color }
             ]}>
-              {item.type === 'income' ? '+' : '-'}₨{item.amount.toLocaleString()}
+              {appearance.sign}{formatMoney(item.amount)}
             </Text>
-            <Text style={styles.date}>{item.date}</Text>
+            <Text style={styles.date}>{formatDate(item.date)}</Text>
+            {balanceAfter && balanceAfter[item.id] !== undefined && (
+              <Text style={styles.date}>Bal. {formatMoney(balanceAfter[item.id])}</Text>
+            )}
           </View>
-        </View>
+        </TouchableOpacity>
 
         <View style={styles.cardFooter}>
           <View style={[
             styles.typeChip,
-            { backgroundColor: item.type === 'income' ? '#DCFCE7' : '#FEE2E2' }
+            { backgroundColor: appearance.background }
           ]}>
             <Text style={[
               styles.typeText,
-              { color: item.type === 'income' ? '#059669' : '#DC2626' }
+              { color: appearance.chipColor }
             ]}>
-              {item.type === 'income' ? '↗ Income' : '↙ Expense'}
+              {appearance.label}
             </Text>
           </View>
+
+          {item.tags && item.tags.length > 0 && (
+            <View style={styles.tagRow}>
+              {item.tags.map(tag => (
+                <TouchableOpacity key={tag} style={styles.tagChip} onPress={() => setTagFilter(tag)}>
+                  <Text style={styles.tagText}>#{tag}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
           
           <TouchableOpacity
             style={styles.deleteButton}
@@ -277,28 +345,221 @@ export default function ExpensesScreen() {
           </View>
           <Text style={styles.savingsArrow}>→</Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.savingsButton}
+          onPress={() => router.push('/recurring')}
+          activeOpacity={0.8}
+        >
+          <View style={styles.savingsButtonContent}>
+            <View style={styles.savingsIconContainer}>
+              <Text style={styles.savingsIcon}>🔁</Text>
+            </View>
+            <View style={styles.savingsTextContainer}>
+              <Text style={styles.savingsTitle}>Recurring</Text>
+              <Text style={styles.savingsSubtitle}>Salary, rent and bills on schedule</Text>
+            </View>
+          </View>
+          <Text style={styles.savingsArrow}>→</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.savingsButton}
+          onPress={() => router.push('/budgets')}
+          activeOpacity={0.8}
+        >
+          <View style={styles.savingsButtonContent}>
+            <View style={styles.savingsIconContainer}>
+              <Text style={styles.savingsIcon}>📊</Text>
+            </View>
+            <View style={styles.savingsTextContainer}>
+              <Text style={styles.savingsTitle}>Budgets</Text>
+              <Text style={styles.savingsSubtitle}>Monthly limits by category</Text>
+            </View>
+          </View>
+          <Text style={styles.savingsArrow}>→</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.savingsButton}
+          onPress={() => router.push('/accounts')}
+          activeOpacity={0.8}
+        >
+          <View style={styles.savingsButtonContent}>
+            <View style={styles.savingsIconContainer}>
+              <Text style={styles.savingsIcon}>🏦</Text>
+            </View>
+            <View style={styles.savingsTextContainer}>
+              <Text style={styles.savingsTitle}>Accounts</Text>
+              <Text style={styles.savingsSubtitle}>Cash, bank, cards and wallets</Text>
+            </View>
+          </View>
+          <Text style={styles.savingsArrow}>→</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.savingsButton}
+          onPress={() => router.push('/categories')}
+          activeOpacity={0.8}
+        >
+          <View style={styles.savingsButtonContent}>
+            <View style={styles.savingsIconContainer}>
+              <Text style={styles.savingsIcon}>🏷️</Text>
+            </View>
+            <View style={styles.savingsTextContainer}>
+              <Text style={styles.savingsTitle}>Categories</Text>
+              <Text style={styles.savingsSubtitle}>Icons, colours and subcategories</Text>
+            </View>
+          </View>
+          <Text style={styles.savingsArrow}>→</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.savingsButton}
+          onPress={() => router.push('/rules')}
+          activeOpacity={0.8}
+        >
+          <View style={styles.savingsButtonContent}>
+            <View style={styles.savingsIconContainer}>
+              <Text style={styles.savingsIcon}>⚡</Text>
+            </View>
+            <View style={styles.savingsTextContainer}>
+              <Text style={styles.savingsTitle}>Rules</Text>
+              <Text style={styles.savingsSubtitle}>Categorise and tag automatically</Text>
+            </View>
+          </View>
+          <Text style={styles.savingsArrow}>→</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.savingsButton}
+          onPress={() => router.push('/import')}
+          activeOpacity={0.8}
+        >
+          <View style={styles.savingsButtonContent}>
+            <View style={styles.savingsIconContainer}>
+              <Text style={styles.savingsIcon}>📥</Text>
+            </View>
+            <View style={styles.savingsTextContainer}>
+              <Text style={styles.savingsTitle}>Import</Text>
+              <Text style={styles.savingsSubtitle}>Bank statements and spreadsheets</Text>
+            </View>
+          </View>
+          <Text style={styles.savingsArrow}>→</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.savingsButton}
+          onPress={() => router.push('/duplicates')}
+          activeOpacity={0.8}
+        >
+          <View style={styles.savingsButtonContent}>
+            <View style={styles.savingsIconContainer}>
+              <Text style={styles.savingsIcon}>👯</Text>
+            </View>
+            <View style={styles.savingsTextContainer}>
+              <Text style={styles.savingsTitle}>Duplicates</Text>
+              <Text style={styles.savingsSubtitle}>
+                {duplicateCount > 0
+                  ? `${duplicateCount} suspected pair${duplicateCount !== 1 ? 's' : ''} to review`
+                  : 'Spot transactions entered twice'}
+              </Text>
+            </View>
+          </View>
+          <Text style={styles.savingsArrow}>→</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.savingsButton}
+          onPress={() => router.push('/backup')}
+          activeOpacity={0.8}
+        >
+          <View style={styles.savingsButtonContent}>
+            <View style={styles.savingsIconContainer}>
+              <Text style={styles.savingsIcon}>💾</Text>
+            </View>
+            <View style={styles.savingsTextContainer}>
+              <Text style={styles.savingsTitle}>Backup</Text>
+              <Text style={styles.savingsSubtitle}>Export or restore all your data</Text>
+            </View>
+          </View>
+          <Text style={styles.savingsArrow}>→</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.savingsButton}
+          onPress={() => router.push('/reports')}
+          activeOpacity={0.8}
+        >
+          <View style={styles.savingsButtonContent}>
+            <View style={styles.savingsIconContainer}>
+              <Text style={styles.savingsIcon}>🧾</Text>
+            </View>
+            <View style={styles.savingsTextContainer}>
+              <Text style={styles.savingsTitle}>Statements</Text>
+              <Text style={styles.savingsSubtitle}>Monthly report to print or share</Text>
+            </View>
+          </View>
+          <Text style={styles.savingsArrow}>→</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.savingsButton}
+          onPress={() => router.push('/security')}
+          activeOpacity={0.8}
+        >
+          <View style={styles.savingsButtonContent}>
+            <View style={styles.savingsIconContainer}>
+              <Text style={styles.savingsIcon}>🔒</Text>
+            </View>
+            <View style={styles.savingsTextContainer}>
+              <Text style={styles.savingsTitle}>Security</Text>
+              <Text style={styles.savingsSubtitle}>Encrypt your data with a passphrase</Text>
+            </View>
+          </View>
+          <Text style={styles.savingsArrow}>→</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.savingsButton}
+          onPress={() => router.push('/payees')}
+          activeOpacity={0.8}
+        >
+          <View style={styles.savingsButtonContent}>
+            <View style={styles.savingsIconContainer}>
+              <Text style={styles.savingsIcon}>🏪</Text>
+            </View>
+            <View style={styles.savingsTextContainer}>
+              <Text style={styles.savingsTitle}>Payees</Text>
+              <Text style={styles.savingsSubtitle}>Where your money goes, shop by shop</Text>
+            </View>
+          </View>
+          <Text style={styles.savingsArrow}>→</Text>
+        </TouchableOpacity>
       </View>
 
       {/* Analytics Summary */}
       <View style={styles.analyticsContainer}>
         <View style={styles.analyticsCard}>
-          <Text style={styles.analyticsLabel}>Total Balance</Text>
+          <Text style={styles.analyticsLabel}>
+            {accountFilter === 'all' ? 'Total Balance' : `${accountNames[accountFilter] ?? 'Account'} Balance`}
+          </Text>
           <Text style={[
             styles.analyticsAmount,
             { color: analytics.balance >= 0 ? '#10B981' : '#EF4444' }
           ]}>
-            ₨{analytics.balance.toLocaleString()}
+            {formatMoney(analytics.balance)}
           </Text>
         </View>
         
         <View style={styles.analyticsRow}>
           <View style={[styles.analyticsCard, styles.incomeCard]}>
             <Text style={styles.analyticsLabel}>Income</Text>
-            <Text style={styles.incomeText}>₨{analytics.totalIncome.toLocaleString()}</Text>
+            <Text style={styles.incomeText}>{formatMoney(analytics.totalIncome)}</Text>
           </View>
           <View style={[styles.analyticsCard, styles.expenseCard]}>
             <Text style={styles.analyticsLabel}>Expenses</Text>
-            <Text style={styles.expenseText}>₨{analytics.totalExpense.toLocaleString()}</Text>
+            <Text style={styles.expenseText}>{formatMoney(analytics.totalExpense)}</Text>
           </View>
         </View>
       </View>
@@ -333,7 +594,7 @@ export default function ExpensesScreen() {
           {
             height: filterAnimation.interpolate({
               inputRange: [0, 1],
-              outputRange: [0, 140],
+              outputRange: [0, 290],
             }),
             opacity: filterAnimation,
           }
@@ -345,9 +606,38 @@ export default function ExpensesScreen() {
             <FilterButton type="all" label="All" />
             <FilterButton type="income" label="Income" />
             <FilterButton type="expense" label="Expense" />
+            <FilterButton type="transfer" label="Transfer" />
           </View>
         </View>
 
+        <View style={styles.filterSection}>
+          <Text style={styles.filterSectionTitle}>Account</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.filterRow}>
+              <AccountButton id="all" label="All" />
+              {accounts.map(account => (
+                <AccountButton
+                  key={account.id}
+                  id={account.id}
+                  label={`${accountTypeEmoji(account.type)} ${account.name}`}
+                />
+              ))}
+            </View>
+          </ScrollView>
+        </View>
+
+        <View style={styles.filterSection}>
+          <Text style={styles.filterSectionTitle}>Tag</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.filterRow}>
+              <TagButton tag="all" label="All" />
+              {analytics.tagStats.map(({ tag, spent }) => (
+                <TagButton key={tag} tag={tag} label={`#${tag} · ${formatMoney(spent)}`} />
+              ))}
+            </View>
+          </ScrollView>
+        </View>
+
         <View style={styles.filterSection}>
           <Text style={styles.filterSectionTitle}>Sort by</Text>
           <ScrollView horizontal showsHorizontalScrollIndicator={false}>
@@ -366,14 +656,29 @@ export default function ExpensesScreen() {
         <Text style={styles.resultsTitle}>
           {searchQuery ? `Search Results (${processedTransactions.length})` : 'All Transactions'}
         </Text>
-        <Text style={styles.resultsCount}>
-          {processedTransactions.length} of {analytics.transactionCount}
-        </Text>
+        <View style={styles.resultsActions}>
+          <Text style={styles.resultsCount}>
+            {processedTransactions.length} of {analytics.transactionCount}
+          </Text>
+          {processedTransactions.length > 0 && (
+            <TouchableOpacity
+              style={styles.exportButton}
+              onPress={() => router.push({ pathname: '/expenses/export', params: { ...filters } })}
+            >
+              <Text style={styles.exportButtonText}>⤓ Export</Text>
+            </TouchableOpacity>
+          )}
+        </View>
       </View>
     </View>
   );
 
-  const ListEmpty = () => (
+  const ListEmpty = () => isLoading ? (
+    <View style={styles.emptyContainer}>
+      <ActivityIndicator size="large" color="#3B82F6" />
+      <Text style={styles.loadingText}>Loading your transactions...</Text>
+    </View>
+  ) : (
     <View style={styles.emptyContainer}>
       <Text style={styles.emptyIcon}>
         {searchQuery ? '🔍' : '📊'}
@@ -706,6 +1011,22 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     fontWeight: '500',
   },
+  resultsActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  exportButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#EEF2FF',
+  },
+  exportButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
   card: {
     backgroundColor: '#FFFFFF',
     marginHorizontal: 20,
@@ -783,6 +1104,24 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  tagRow: {
+    flex: 1,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginHorizontal: 8,
+  },
+  tagChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#EEF2FF',
+  },
+  tagText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
   deleteButton: {
     paddingHorizontal: 12,
     paddingVertical: 8,
@@ -801,6 +1140,12 @@ const styles = StyleSheet.create({
     paddingVertical: 60,
     paddingHorizontal: 40,
   },
+  loadingText: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 16,
+    fontWeight: '500',
+  },
   emptyIcon: {
     fontSize: 64,
     marginBottom: 16,
@@ -0,0 +1,751 @@
+import { Picker } from '@react-native-picker/picker';
+import { useRouter } from 'expo-router';
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Platform,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { v4 as uuid } from 'uuid';
+import { categoryPath } from '../../utils/categories';
+import { CSV_DELIMITERS, CsvDelimiter, detectDelimiter, parseCsv, parseCsvRows } from '../../utils/csv';
+import { buildCsvImport, csvMappingError, CsvMapping, guessMapping, NO_COLUMN } from '../../utils/csvImport';
+import { formatDate } from '../../utils/date';
+import { findIncomingDuplicates } from '../../utils/duplicates';
+import { pickTextFile } from '../../utils/files';
+import { formatMoney, sumMoney } from '../../utils/money';
+import { parseOfx } from '../../utils/ofx';
+import { parseQif } from '../../utils/qif';
+import {
+  buildStatementImport,
+  DateOrder,
+  DecimalSeparator,
+  detectStatementFormat,
+  ParsedStatement,
+  StatementFormat
+} from '../../utils/statement';
+import { useAccounts } from '../context/AccountContext';
+import { useCategories } from '../context/CategoryContext';
+import { useCategoryRules } from '../context/CategoryRuleContext';
+import { Transaction, useTransactions } from '../context/TransactionContext';
+
+type Step = 'source' | 'mapping' | 'preview';
+
+// Rendering thousands of preview rows at once stalls the UI
+const PREVIEW_LIMIT = 200;
+
+const delimiterLabels: Record<CsvDelimiter, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe',
+};
+
+const dateOrderOptions: { value: DateOrder; label: string }[] = [
+  { value: 'ymd', label: 'YYYY-MM-DD' },
+  { value: 'dmy', label: 'DD/MM/YYYY' },
+  { value: 'mdy', label: 'MM/DD/YYYY' },
+];
+
+const decimalOptions: { value: DecimalSeparator; label: string }[] = [
+  { value: '.', label: '1,234.56' },
+  { value: ',', label: '1.234,56' },
+];
+
+export default function ImportScreen() {
+  const router = useRouter();
+  const { transactions, addTransactions } = useTransactions();
+  const { accounts, updateAccount } = useAccounts();
+  const { categories } = useCategories();
+  const { categoryRules } = useCategoryRules();
+
+  const [step, setStep] = useState<Step>('source');
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [format, setFormat] = useState<StatementFormat>('csv');
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(',');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [dateOrder, setDateOrder] = useState<DateOrder>('dmy');
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>('.');
+  const [expenseSign, setExpenseSign] = useState<'negative' | 'positive'>('negative');
+  const [accountId, setAccountId] = useState(accounts[0]?.id ?? '');
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+
+  const csvRows = useMemo(() => parseCsvRows(text, delimiter), [text, delimiter]);
+  const rows = useMemo(() => csvRows.map(row => row.cells), [csvRows]);
+  const columnCount = Math.max(0, ...rows.slice(0, 20).map(row => row.length));
+  const sampleRow = rows[hasHeader ? 1 : 0] ?? [];
+  const columnOptions = Array.from({ length: columnCount }, (_, index) => {
+    const name = hasHeader && rows[0]?.[index]?.trim() ? rows[0][index].trim() : `Column ${index + 1}`;
+    const sample = sampleRow[index]?.trim();
+    return { label: sample ? `${name} (e.g. ${sample.slice(0, 24)})` : name, value: index };
+  });
+
+  // OFX and QIF files carry their own structure, so they skip the column mapping
+  const statement = useMemo<ParsedStatement | null>(
+    () => (format === 'ofx' ? parseOfx(text) : format === 'qif' ? parseQif(text, dateOrder, decimalSeparator) : null),
+    [format, text, dateOrder, decimalSeparator]
+  );
+
+  const { importRows, alreadyImported } = useMemo(() => {
+    if (step !== 'preview') return { importRows: [], alreadyImported: 0 };
+    if (statement) {
+      const result = buildStatementImport(statement, accountId, transactions, categories, categoryRules, uuid);
+      return { importRows: result.rows, alreadyImported: result.alreadyImported };
+    }
+    return {
+      importRows: mapping
+        ? buildCsvImport(
+            csvRows,
+            mapping,
+            { hasHeader, dateOrder, decimalSeparator, expenseSign, accountId },
+            categories,
+            categoryRules,
+            uuid
+          )
+        : [],
+      alreadyImported: 0,
+    };
+  }, [
+    step, statement, csvRows, mapping, hasHeader, dateOrder, decimalSeparator, expenseSign, accountId,
+    transactions, categories, categoryRules
+  ]);
+  // Rows that look like a transaction already in the ledger, e.g. one entered by hand,
+  // or like an earlier row of the same file
+  const possibleDuplicates = useMemo(
+    () => findIncomingDuplicates(importRows.flatMap(row => (row.transaction ? [row.transaction] : [])), transactions),
+    [importRows, transactions]
+  );
+  const duplicateCount = Object.keys(possibleDuplicates).length;
+  const ready = importRows.flatMap(row =>
+    row.transaction && !(skipDuplicates && possibleDuplicates[row.transaction.id]) ? [row.transaction] : []);
+  const failed = importRows.filter(row => !row.transaction);
+  const shownRows = (errorsOnly ? failed : importRows).slice(0, PREVIEW_LIMIT);
+
+  const handleChooseFile = async () => {
+    try {
+      const file = await pickTextFile([
+        'text/csv',
+        'text/comma-separated-values',
+        'application/x-ofx',
+        'application/qif',
+        'text/plain',
+        '*/*',
+      ]);
+      if (!file) return;
+      setText(file.text);
+      setFileName(file.name);
+    } catch (error) {
+      console.error('Failed to read file:', error);
+      Alert.alert('Error', 'Could not read that file');
+    }
+  };
+
+  const handleContinue = () => {
+    if (!text.trim()) {
+      Alert.alert('Error', 'Choose a statement file or paste its contents first');
+      return;
+    }
+    const detectedFormat = detectStatementFormat(text, fileName);
+    setFormat(detectedFormat);
+    if (detectedFormat !== 'csv') {
+      // Import into the account this statement came from last time, if we know it
+      const parsed = detectedFormat === 'ofx' ? parseOfx(text) : parseQif(text, dateOrder, decimalSeparator);
+      const known = accounts.find(a =>
+        (parsed.accountNumber && a.statementId === parsed.accountNumber) ||
+        (parsed.accountName && a.name.toLowerCase() === parsed.accountName.toLowerCase())
+      );
+      if (known) setAccountId(known.id);
+      setStep('mapping');
+      return;
+    }
+    const detected = detectDelimiter(text);
+    setDelimiter(detected);
+    const parsed = parseCsv(text, detected);
+    setMapping(guessMapping(hasHeader ? parsed[0] ?? [] : []));
+    setStep('mapping');
+  };
+
+  const handlePreview = () => {
+    const error = statement ? null : mapping ? csvMappingError(mapping) : 'Choose a file first';
+    if (error) {
+      Alert.alert('Error', error);
+      return;
+    }
+    if (!accountId) {
+      Alert.alert('Error', 'Choose the account to import into');
+      return;
+    }
+    setStep('preview');
+  };
+
+  const handleImport = () => {
+    if (ready.length === 0) {
+      Alert.alert('Nothing to Import', 'None of the rows could be read. Go back and check the import settings.');
+      return;
+    }
+    const skippedDuplicates = skipDuplicates ? duplicateCount : 0;
+    addTransactions(ready);
+    // Recognise the next statement for this account automatically
+    if (statement?.accountNumber) updateAccount(accountId, { statementId: statement.accountNumber });
+    Alert.alert(
+      'Import Complete',
+      `Imported ${ready.length} transaction${ready.length !== 1 ? 's' : ''}` +
+        (failed.length > 0 ? `; ${failed.length} row${failed.length !== 1 ? 's' : ''} skipped` : '') +
+        (skippedDuplicates > 0
+          ? `; ${skippedDuplicates} possible duplicate${skippedDuplicates !== 1 ? 's' : ''} left out.`
+          : '.'),
+      [{ text: 'OK', onPress: () => router.back() }]
+    );
+  };
+
+  const handleBack = () => {
+    if (step === 'preview') setStep('mapping');
+    else if (step === 'mapping') setStep('source');
+    else router.back();
+  };
+
+  const updateMapping = (changes: Partial<CsvMapping>) => {
+    setMapping(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const ColumnPicker = ({ field, label, optional = false }: {
+    field: 'date' | 'title' | 'amount' | 'debit' | 'credit' | 'category' | 'notes';
+    label: string;
+    optional?: boolean;
+  }) => (
+    <View style={styles.inputGroup}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.pickerContainer}>
+        <Picker
+          selectedValue={mapping?.[field] ?? NO_COLUMN}
+          onValueChange={(value) => updateMapping({ [field]: Number(value) })}
+          style={styles.picker}
+        >
+          <Picker.Item label={optional ? 'Not in this file' : 'Choose a column'} value={NO_COLUMN} />
+          {columnOptions.map(option => (
+            <Picker.Item key={option.value} label={option.label} value={option.value} />
+          ))}
+        </Picker>
+      </View>
+    </View>
+  );
+
+  const Chips = <T extends string>({ options, value, onChange }: {
+    options: { value: T; label: string }[];
+    value: T;
+    onChange: (value: T) => void;
+  }) => (
+    <View style={styles.chipRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.value}
+          style={[styles.chip, value === option.value && styles.activeChip]}
+          onPress={() => onChange(option.value)}
+        >
+          <Text style={[styles.chipText, value === option.value && styles.activeChipText]}>{option.label}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderRow = (row: (typeof importRows)[number]) => {
+    const tx: Transaction | null = row.transaction;
+    const duplicateOf = tx ? possibleDuplicates[tx.id] : undefined;
+    return (
+      <View
+        key={row.line}
+        style={[
+          styles.previewRow,
+          !tx && styles.previewRowError,
+          duplicateOf && styles.previewRowDuplicate,
+          duplicateOf && skipDuplicates && styles.previewRowSkipped,
+        ]}
+      >
+        <Text style={styles.previewLine}>#{row.line}</Text>
+        {tx ? (
+          <View style={styles.previewInfo}>
+            <Text style={styles.previewTitle} numberOfLines={1}>{tx.title}</Text>
+            <Text style={styles.previewDetail}>
+              {formatDate(tx.date)} · {categoryPath(categories, tx.category)}
+              {tx.tags ? ` · ${tx.tags.map(tag => `#${tag}`).join(' ')}` : ''}
+            </Text>
+            {duplicateOf && (
+              <Text style={styles.duplicateText} numberOfLines={1}>
+                ⚠️ Possible duplicate of &quot;{duplicateOf.title}&quot; on {formatDate(duplicateOf.date)}
+              </Text>
+            )}
+          </View>
+        ) : (
+          <View style={styles.previewInfo}>
+            {row.errors.map(error => (
+              <Text key={error} style={styles.errorText}>{error}</Text>
+            ))}
+          </View>
+        )}
+        {tx && (
+          <Text style={[styles.previewAmount, { color: tx.type === 'income' ? '#10B981' : '#EF4444' }]}>
+            {tx.type === 'income' ? '+' : '-'}{formatMoney(tx.amount)}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Import</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <View style={styles.stepRow}>
+        {(['source', 'mapping', 'preview'] as const).map((value, index) => (
+          <Text key={value} style={[styles.stepText, step === value && styles.activeStepText]}>
+            {index + 1}. {{ source: 'File', mapping: format === 'csv' ? 'Columns' : 'Account', preview: 'Preview' }[value]}
+          </Text>
+        ))}
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {step === 'source' && (
+          <>
+            <TouchableOpacity style={styles.fileButton} onPress={handleChooseFile}>
+              <Text style={styles.fileButtonText}>📂 {fileName ?? 'Choose a CSV, OFX or QIF file'}</Text>
+            </TouchableOpacity>
+            <Text style={styles.label}>…or paste the file contents</Text>
+            <TextInput
+              placeholder={'Date,Description,Amount\n2025-04-03,Imtiaz,-1250.00'}
+              value={text}
+              onChangeText={(value) => {
+                setText(value);
+                setFileName(null);
+              }}
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+              style={[styles.input, styles.pasteInput]}
+              placeholderTextColor="#9CA3AF"
+            />
+            <View style={styles.switchRow}>
+              <Text style={styles.label}>First row is a header (CSV)</Text>
+              <Switch value={hasHeader} onValueChange={setHasHeader} />
+            </View>
+          </>
+        )}
+
+        {step === 'mapping' && statement && (
+          <>
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryValue}>
+                {statement.format.toUpperCase()} statement · {statement.entries.length} transaction
+                {statement.entries.length !== 1 ? 's' : ''}
+              </Text>
+              {(statement.accountNumber || statement.accountName) && (
+                <Text style={styles.summaryText}>
+                  Account {statement.accountNumber ?? statement.accountName}
+                </Text>
+              )}
+            </View>
+            {statement.format === 'qif' && (
+              <>
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Date format</Text>
+                  <Chips options={dateOrderOptions} value={dateOrder} onChange={setDateOrder} />
+                </View>
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Number format</Text>
+                  <Chips options={decimalOptions} value={decimalSeparator} onChange={setDecimalSeparator} />
+                </View>
+              </>
+            )}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Import into account</Text>
+              <View style={styles.pickerContainer}>
+                <Picker selectedValue={accountId} onValueChange={setAccountId} style={styles.picker}>
+                  {accounts.map(account => (
+                    <Picker.Item key={account.id} label={account.name} value={account.id} />
+                  ))}
+                </Picker>
+              </View>
+            </View>
+          </>
+        )}
+
+        {step === 'mapping' && !statement && mapping && (
+          <>
+            <Text style={styles.summaryText}>
+              {rows.length} row{rows.length !== 1 ? 's' : ''} · {columnCount} column{columnCount !== 1 ? 's' : ''}
+            </Text>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Separator</Text>
+              <Chips
+                options={CSV_DELIMITERS.map(value => ({ value, label: delimiterLabels[value] }))}
+                value={delimiter}
+                onChange={setDelimiter}
+              />
+            </View>
+            <View style={styles.switchRow}>
+              <Text style={styles.label}>First row is a header</Text>
+              <Switch value={hasHeader} onValueChange={setHasHeader} />
+            </View>
+
+            <ColumnPicker field="date" label="Date" />
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Date format</Text>
+              <Chips options={dateOrderOptions} value={dateOrder} onChange={setDateOrder} />
+            </View>
+
+            <ColumnPicker field="title" label="Description" />
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Amounts</Text>
+              <Chips
+                options={[
+                  { value: 'single', label: 'One amount column' },
+                  { value: 'debitCredit', label: 'Debit and credit columns' },
+                ]}
+                value={mapping.amountMode}
+                onChange={(amountMode) => updateMapping({ amountMode })}
+              />
+            </View>
+            {mapping.amountMode === 'single' ? (
+              <>
+                <ColumnPicker field="amount" label="Amount" />
+                <Chips
+                  options={[
+                    { value: 'negative', label: 'Negative = money out' },
+                    { value: 'positive', label: 'Positive = money out' },
+                  ]}
+                  value={expenseSign}
+                  onChange={setExpenseSign}
+                />
+              </>
+            ) : (
+              <>
+                <ColumnPicker field="debit" label="Debit (money out)" optional />
+                <ColumnPicker field="credit" label="Credit (money in)" optional />
+              </>
+            )}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Number format</Text>
+              <Chips options={decimalOptions} value={decimalSeparator} onChange={setDecimalSeparator} />
+            </View>
+
+            <ColumnPicker field="category" label="Category" optional />
+            <ColumnPicker field="notes" label="Notes" optional />
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Import into account</Text>
+              <View style={styles.pickerContainer}>
+                <Picker selectedValue={accountId} onValueChange={setAccountId} style={styles.picker}>
+                  {accounts.map(account => (
+                    <Picker.Item key={account.id} label={account.name} value={account.id} />
+                  ))}
+                </Picker>
+              </View>
+            </View>
+          </>
+        )}
+
+        {step === 'preview' && (
+          <>
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryValue}>
+                {ready.length} ready · {failed.length} with errors
+              </Text>
+              {alreadyImported > 0 && (
+                <Text style={styles.summaryText}>
+                  {alreadyImported} already imported, skipped
+                </Text>
+              )}
+              {duplicateCount > 0 && (
+                <Text style={styles.summaryText}>
+                  {duplicateCount} look{duplicateCount === 1 ? 's' : ''} like transactions you already have
+                  or earlier rows of this file
+                </Text>
+              )}
+              <Text style={styles.summaryText}>
+                In {formatMoney(sumMoney(ready.filter(tx => tx.type === 'income').map(tx => tx.amount)))} ·
+                Out {formatMoney(sumMoney(ready.filter(tx => tx.type === 'expense').map(tx => tx.amount)))}
+              </Text>
+            </View>
+            {duplicateCount > 0 && (
+              <View style={styles.switchRow}>
+                <Text style={styles.label}>Skip possible duplicates</Text>
+                <Switch value={skipDuplicates} onValueChange={setSkipDuplicates} />
+              </View>
+            )}
+            {failed.length > 0 && (
+              <View style={styles.switchRow}>
+                <Text style={styles.label}>Only rows with errors</Text>
+                <Switch value={errorsOnly} onValueChange={setErrorsOnly} />
+              </View>
+            )}
+            {shownRows.map(renderRow)}
+            {(errorsOnly ? failed : importRows).length > PREVIEW_LIMIT && (
+              <Text style={styles.summaryText}>
+                Showing the first {PREVIEW_LIMIT} of {(errorsOnly ? failed : importRows).length} rows
+              </Text>
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      <View style={styles.bottomContainer}>
+        <TouchableOpacity
+          style={styles.submitButton}
+          onPress={{ source: handleContinue, mapping: handlePreview, preview: handleImport }[step]}
+        >
+          <Text style={styles.submitButtonText}>
+            {step === 'preview'
+              ? `Import ${ready.length} Transaction${ready.length !== 1 ? 's' : ''}`
+              : 'Continue'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 60 : 40,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  placeholder: {
+    width: 60,
+  },
+  stepRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  stepText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#9CA3AF',
+  },
+  activeStepText: {
+    color: '#4F46E5',
+    fontWeight: '700',
+  },
+  content: {
+    padding: 20,
+    gap: 16,
+    paddingBottom: 40,
+  },
+  inputGroup: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginLeft: 4,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 14,
+    color: '#111827',
+  },
+  pasteInput: {
+    minHeight: 180,
+    textAlignVertical: 'top',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  fileButton: {
+    paddingVertical: 18,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#EEF2FF',
+    borderWidth: 1.5,
+    borderColor: '#C7D2FE',
+    borderStyle: 'dashed',
+  },
+  fileButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  activeChip: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  activeChipText: {
+    color: '#FFFFFF',
+  },
+  pickerContainer: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  picker: {
+    height: 50,
+    color: '#111827',
+  },
+  summaryCard: {
+    backgroundColor: '#EEF2FF',
+    borderRadius: 16,
+    padding: 16,
+    gap: 4,
+  },
+  summaryValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1E293B',
+  },
+  summaryText: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  previewRowError: {
+    backgroundColor: '#FEF2F2',
+    borderColor: '#FECACA',
+  },
+  previewRowDuplicate: {
+    backgroundColor: '#FFFBEB',
+    borderColor: '#FDE68A',
+  },
+  previewRowSkipped: {
+    opacity: 0.6,
+  },
+  previewLine: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    width: 36,
+  },
+  previewInfo: {
+    flex: 1,
+  },
+  previewTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  previewDetail: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  previewAmount: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#DC2626',
+  },
+  duplicateText: {
+    fontSize: 12,
+    color: '#B45309',
+    marginTop: 2,
+  },
+  bottomContainer: {
+    padding: 20,
+    paddingBottom: Platform.OS === 'ios' ? 34 : 20,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  submitButton: {
+    backgroundColor: '#6366F1',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+});
@@ -15,15 +15,18 @@ import {
     TouchableOpacity,
     View
 } from 'react-native';
+import { passwordProblems } from '../utils/passwords';
 import { useAuth } from './context/AuthContext';
 
 const { width, height } = Dimensions.get('window');
 
 export default function LoginScreen() {
-  const { login } = useAuth();
+  const { login, register } = useAuth();
   const router = useRouter();
+  const [isSignUp, setIsSignUp] = useState(false);
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   
@@ -53,28 +56,45 @@ export default function LoginScreen() {
     ]).start();
   }, []);
 
-  const handleLogin = () => {
+  // Shown while choosing a password, so the rules are clear before submitting
+  const problems = isSignUp && password ? passwordProblems(password, username) : [];
+
+  const handleLogin = async () => {
     if (!username.trim() || !password.trim()) {
       Alert.alert('Error', 'Please fill in all fields');
       return;
     }
+    if (isSignUp && password !== confirmPassword) {
+      Alert.alert('Error', 'Passwords do not match');
+      return;
+    }
   
     setIsLoading(true);
   
-    const result = login(username, password);
-    setIsLoading(false);
-  
-    if (result.success) {
-      if (result.user?.role === 'admin') {
-        router.replace('/admin/admin');
+    try {
+      const result = isSignUp ? await register(username, password) : await login(username, password);
+      if (result.success) {
+        if (result.user?.role === 'admin') {
+          router.replace('/admin/admin');
+        } else {
+          router.replace('/expenses');
+        }
       } else {
-        router.replace('/expenses');
+        Alert.alert('Error', result.message || (isSignUp ? 'Sign up failed' : 'Login failed'));
       }
-    } else {
-      Alert.alert('Error', result.message || 'Login failed');
+    } catch (error) {
+      console.error(isSignUp ? 'Error signing up:' : 'Error logging in:', error);
+      Alert.alert('Error', isSignUp ? 'Sign up failed, please try again' : 'Login failed, please try again');
+    } finally {
+      setIsLoading(false);
     }
   };
 
+  const toggleMode = () => {
+    setIsSignUp(!isSignUp);
+    setConfirmPassword('');
+  };
+
 
   return (
     <KeyboardAvoidingView 
@@ -112,8 +132,10 @@ export default function LoginScreen() {
 
             {/* Login Form */}
             <View style={styles.formContainer}>
-              <Text style={styles.welcomeText}>Welcome Back!</Text>
-              <Text style={styles.subtitleText}>Sign in to continue managing your budget</Text>
+              <Text style={styles.welcomeText}>{isSignUp ? 'Create an Account' : 'Welcome Back!'}</Text>
+              <Text style={styles.subtitleText}>
+                {isSignUp ? 'Sign up to start managing your budget' : 'Sign in to continue managing your budget'}
+              </Text>
 
               {/* Username Input */}
               <View style={styles.inputContainer}>
@@ -154,10 +176,36 @@ export default function LoginScreen() {
                 </TouchableOpacity>
               </View>
 
-              {/* Forgot Password */}
-              <TouchableOpacity style={styles.forgotPassword}>
-                <Text style={styles.forgotPasswordText}>Forgot Password?</Text>
-              </TouchableOpacity>
+              {isSignUp ? (
+                <>
+                  {/* Confirm Password Input */}
+                  <View style={styles.inputContainer}>
+                    <Ionicons name="lock-closed-outline" size={20} color="#9ca3af" style={styles.inputIcon} />
+                    <TextInput
+                      style={styles.input}
+                      placeholder="Confirm Password"
+                      placeholderTextColor="#9ca3af"
+                      value={confirmPassword}
+                      onChangeText={setConfirmPassword}
+                      secureTextEntry={!showPassword}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                    />
+                  </View>
+
+                  {/* Password Rules */}
+                  <View style={styles.passwordRules}>
+                    {problems.map(problem => (
+                      <Text key={problem} style={styles.passwordRuleText}>• {problem}</Text>
+                    ))}
+                  </View>
+                </>
+              ) : (
+                /* Forgot Password */
+                <TouchableOpacity style={styles.forgotPassword}>
+                  <Text style={styles.forgotPasswordText}>Forgot Password?</Text>
+                </TouchableOpacity>
+              )}
 
               {/* Login Button */}
               <TouchableOpacity 
@@ -172,10 +220,10 @@ export default function LoginScreen() {
                   {isLoading ? (
                     <View style={styles.loadingContainer}>
                       <Animated.View style={styles.loadingDot} />
-                      <Text style={styles.buttonText}>Signing In...</Text>
+                      <Text style={styles.buttonText}>{isSignUp ? 'Creating Account...' : 'Signing In...'}</Text>
                     </View>
                   ) : (
-                    <Text style={styles.buttonText}>Sign In</Text>
+                    <Text style={styles.buttonText}>{isSignUp ? 'Sign Up' : 'Sign In'}</Text>
                   )}
                 </LinearGradient>
               </TouchableOpacity>
@@ -202,9 +250,11 @@ export default function LoginScreen() {
 
               {/* Sign Up Link */}
               <View style={styles.signUpContainer}>
-                <Text style={styles.signUpText}>Don't have an account? </Text>
-                <TouchableOpacity>
-                  <Text style={styles.signUpLink}>Sign Up</Text>
+                <Text style={styles.signUpText}>
+                  {isSignUp ? 'Already have an account? ' : "Don't have an account? "}
+                </Text>
+                <TouchableOpacity onPress={toggleMode}>
+                  <Text style={styles.signUpLink}>{isSignUp ? 'Sign In' : 'Sign Up'}</Text>
                 </TouchableOpacity>
               </View>
             </View>
@@ -335,6 +385,14 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  passwordRules: {
+    marginBottom: 25,
+    gap: 2,
+  },
+  passwordRuleText: {
+    color: '#dc2626',
+    fontSize: 13,
+  },
   loginButton: {
     borderRadius: 15,
     overflow: 'hidden',
@@ -0,0 +1,244 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useMemo } from 'react';
+import {
+  Platform,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { categoryPath } from '../../utils/categories';
+import { formatDate } from '../../utils/date';
+import { divideMoney, formatMoney } from '../../utils/money';
+import { buildPayees, payeeTransactions } from '../../utils/payees';
+import { useAccounts } from '../context/AccountContext';
+import { useCategories } from '../context/CategoryContext';
+import { useTransactions } from '../context/TransactionContext';
+
+export default function PayeeDetailScreen() {
+  const { key } = useLocalSearchParams<{ key: string }>();
+  const router = useRouter();
+  const { transactions } = useTransactions();
+  const { accounts } = useAccounts();
+  const { categories } = useCategories();
+
+  const payee = useMemo(() => buildPayees(transactions).find(p => p.key === key), [transactions, key]);
+  const history = useMemo(() => payeeTransactions(transactions, key), [transactions, key]);
+
+  const accountName = (accountId: string) => accounts.find(a => a.id === accountId)?.name ?? 'Unknown account';
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <Text style={styles.backButtonText}>← Back</Text>
+      </TouchableOpacity>
+      <Text style={styles.title} numberOfLines={1}>{payee?.name ?? 'Payee'}</Text>
+      <View style={styles.placeholder} />
+    </View>
+  );
+
+  if (!payee) {
+    return (
+      <View style={styles.container}>
+        {header}
+        <View style={styles.notFoundContainer}>
+          <Text style={styles.notFoundText}>No transactions for this payee any more.</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const isIncome = payee.type === 'income';
+  const total = isIncome ? payee.totalReceived : payee.totalSpent;
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+      {header}
+
+      <ScrollView contentContainerStyle={styles.listContainer} showsVerticalScrollIndicator={false}>
+        <View style={styles.summaryCard}>
+          <Text style={styles.summaryLabel}>{isIncome ? 'Total received' : 'Total spent'}</Text>
+          <Text style={[styles.summaryValue, { color: isIncome ? '#10B981' : '#EF4444' }]}>
+            {formatMoney(total)}
+          </Text>
+          <Text style={styles.summaryDetail}>
+            {payee.visits} visit{payee.visits !== 1 ? 's' : ''} · {formatMoney(divideMoney(total, payee.visits))} on average
+          </Text>
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Usual category</Text>
+            <Text style={styles.detailValue}>{categoryPath(categories, payee.category)}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Usual amount</Text>
+            <Text style={styles.detailValue}>{formatMoney(payee.amount)}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Account</Text>
+            <Text style={styles.detailValue}>{accountName(payee.accountId)}</Text>
+          </View>
+        </View>
+
+        <Text style={styles.sectionTitle}>History</Text>
+        {history.map(tx => (
+          <TouchableOpacity
+            key={tx.id}
+            style={styles.historyRow}
+            onPress={() => router.push(`/expenses/${tx.id}`)}
+            activeOpacity={0.7}
+          >
+            <View style={styles.historyInfo}>
+              <Text style={styles.historyDate}>{formatDate(tx.date)}</Text>
+              <Text style={styles.historyDetail}>
+                {categoryPath(categories, tx.category)} · {accountName(tx.accountId)}
+              </Text>
+            </View>
+            <Text style={[styles.historyAmount, { color: tx.type === 'income' ? '#10B981' : '#EF4444' }]}>
+              {tx.type === 'income' ? '+' : '-'}{formatMoney(tx.amount)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 60 : 40,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  title: {
+    flexShrink: 1,
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  placeholder: {
+    width: 60,
+  },
+  listContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  summaryCard: {
+    backgroundColor: '#EEF2FF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  summaryLabel: {
+    fontSize: 13,
+    color: '#6366F1',
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 24,
+    fontWeight: '700',
+  },
+  summaryDetail: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  detailValue: {
+    fontSize: 16,
+    color: '#111827',
+    fontWeight: '600',
+    flexShrink: 1,
+    textAlign: 'right',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  historyInfo: {
+    flex: 1,
+  },
+  historyDate: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  historyDetail: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  historyAmount: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  notFoundContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+  },
+  notFoundText: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,194 @@
+import { useRouter } from 'expo-router';
+import React, { useMemo, useState } from 'react';
+import {
+  FlatList,
+  Platform,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { formatDate } from '../../utils/date';
+import { formatMoney } from '../../utils/money';
+import { buildPayees, Payee, payeeKey } from '../../utils/payees';
+import { useCategories } from '../context/CategoryContext';
+import { useTransactions } from '../context/TransactionContext';
+
+export default function PayeesScreen() {
+  const router = useRouter();
+  const { transactions } = useTransactions();
+  const { getCategory } = useCategories();
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const payees = useMemo(() => buildPayees(transactions), [transactions]);
+  const visible = searchQuery ? payees.filter(payee => payee.key.includes(payeeKey(searchQuery))) : payees;
+
+  const renderPayee = ({ item }: { item: Payee }) => {
+    const category = getCategory(item.category);
+    const isIncome = item.type === 'income';
+
+    return (
+      <TouchableOpacity
+        style={styles.card}
+        onPress={() => router.push({ pathname: '/payees/[key]', params: { key: item.key } })}
+        activeOpacity={0.7}
+      >
+        <View style={[styles.iconContainer, category && { backgroundColor: `${category.color}33` }]}>
+          <Text style={styles.icon}>{category?.emoji ?? '💡'}</Text>
+        </View>
+        <View style={styles.cardInfo}>
+          <Text style={styles.payeeName}>{item.name}</Text>
+          <Text style={styles.payeeSubtitle}>
+            {item.visits} visit{item.visits !== 1 ? 's' : ''} · last {formatDate(item.lastDate)}
+          </Text>
+        </View>
+        <Text style={[styles.total, { color: isIncome ? '#10B981' : '#EF4444' }]}>
+          {formatMoney(isIncome ? item.totalReceived : item.totalSpent)}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Payees</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <FlatList
+        data={visible}
+        keyExtractor={item => item.key}
+        renderItem={renderPayee}
+        contentContainerStyle={styles.listContainer}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={
+          <TextInput
+            placeholder="Search payees..."
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            style={styles.searchInput}
+            placeholderTextColor="#9CA3AF"
+          />
+        }
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {searchQuery
+              ? `No payees match "${searchQuery}"`
+              : 'Payees appear here as you add transactions'}
+          </Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 60 : 40,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  placeholder: {
+    width: 60,
+  },
+  listContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  searchInput: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#111827',
+    marginBottom: 16,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  iconContainer: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#EEF2FF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  icon: {
+    fontSize: 20,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  payeeName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 2,
+  },
+  payeeSubtitle: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  total: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
@@ -0,0 +1,163 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React from 'react';
+import {
+  Alert,
+  Platform,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { TransactionForm, TransactionFormValues } from '../../components/TransactionForm';
+import { combineDateAndTime, formatDate, toTimeInputValue } from '../../utils/date';
+import { isValidOccurrenceDate, RecurrenceSettings } from '../../utils/recurrence';
+import { useRecurring } from '../context/RecurringContext';
+
+/**
+ * Edits a whole recurring series, or a single upcoming occurrence when
+ * opened with an `occurrence` (YYYY-MM-DD) param.
+ */
+export default function EditRecurringScreen() {
+  const { id, occurrence } = useLocalSearchParams<{ id: string; occurrence?: string }>();
+  const router = useRouter();
+  const { rules, updateRule, editOccurrence } = useRecurring();
+
+  const rule = rules.find(r => r.id === id);
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <Text style={styles.backButtonText}>Cancel</Text>
+      </TouchableOpacity>
+      <Text style={styles.title}>
+        {occurrence ? `Edit ${formatDate(occurrence)}` : 'Edit Series'}
+      </Text>
+      <View style={styles.placeholder} />
+    </View>
+  );
+
+  if (!rule) {
+    return (
+      <View style={styles.container}>
+        {header}
+        <View style={styles.notFoundContainer}>
+          <Text style={styles.notFoundText}>This recurring transaction no longer exists.</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const scheduledDate = occurrence
+    ? combineDateAndTime(occurrence, toTimeInputValue(rule.startDate)) ?? rule.startDate
+    : rule.startDate;
+
+  const handleSaveSeries = (values: TransactionFormValues, repeat: RecurrenceSettings | null) => {
+    if (!repeat) {
+      Alert.alert('Error', 'To stop a series, pause or delete it from the recurring list');
+      return;
+    }
+    const { title, amount, category, type, accountId, toAccountId, splits, tags, notes, date } = values;
+    updateRule(rule.id, {
+      template: { title, amount, category, type, accountId, toAccountId, splits, tags, notes },
+      startDate: date,
+      frequency: repeat.frequency,
+      interval: repeat.interval,
+      endDate: repeat.endDate,
+      count: repeat.count,
+    });
+    router.back();
+  };
+
+  const handleSaveOccurrence = (values: TransactionFormValues) => {
+    if (!occurrence) return;
+    const { title, amount, category, type, accountId, toAccountId, splits, tags, notes, date } = values;
+    if (!isValidOccurrenceDate({ date: scheduledDate }, date)) {
+      Alert.alert(
+        'Error',
+        `This occurrence can be moved earlier but not past ${formatDate(scheduledDate)}. ` +
+          'To pay it later, skip it and add a one-off transaction instead.'
+      );
+      return;
+    }
+    editOccurrence(rule.id, occurrence, { title, amount, category, type, accountId, toAccountId, splits, tags, notes, date });
+    router.back();
+  };
+
+  if (occurrence) {
+    const override = rule.overrides[occurrence] ?? {};
+    return (
+      <View style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+        <TransactionForm
+          initialValues={{ ...rule.template, ...override, date: override.date ?? scheduledDate }}
+          header={header}
+          allowFutureDates
+          onSubmit={handleSaveOccurrence}
+        />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+      <TransactionForm
+        initialValues={{ ...rule.template, date: rule.startDate }}
+        header={header}
+        allowFutureDates
+        allowRepeat
+        initialRepeat={rule}
+        onSubmit={handleSaveSeries}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 60 : 40,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  placeholder: {
+    width: 60,
+  },
+  notFoundContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 40,
+  },
+  notFoundText: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
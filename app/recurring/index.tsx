@@ -0,0 +1,339 @@
+import { useRouter } from 'expo-router';
+import React from 'react';
+import {
+  Alert,
+  Platform,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { categoryPath } from '../../utils/categories';
+import { formatDate } from '../../utils/date';
+import { formatMoney } from '../../utils/money';
+import { describeFrequency, upcomingOccurrences } from '../../utils/recurrence';
+import { useCategories } from '../context/CategoryContext';
+import { RecurringRule, useRecurring } from '../context/RecurringContext';
+
+const UPCOMING_COUNT = 3;
+
+export default function RecurringScreen() {
+  const router = useRouter();
+  const { rules, deleteRule, setRulePaused, toggleSkipOccurrence } = useRecurring();
+  const { categories } = useCategories();
+  const now = new Date();
+
+  const handleDelete = (rule: RecurringRule) => {
+    Alert.alert(
+      'Delete Recurring Transaction',
+      `Stop repeating "${rule.template.title}"? Transactions already created are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteRule(rule.id) }
+      ]
+    );
+  };
+
+  const renderRule = (rule: RecurringRule) => {
+    const upcoming = upcomingOccurrences(rule, now, UPCOMING_COUNT);
+    const { type } = rule.template;
+    const amountColor = type === 'transfer' ? '#3B82F6' : type === 'income' ? '#10B981' : '#EF4444';
+    const sign = type === 'transfer' ? '' : type === 'income' ? '+' : '-';
+
+    return (
+      <View key={rule.id} style={[styles.card, rule.paused && styles.pausedCard]}>
+        <View style={styles.cardHeader}>
+          <View style={styles.cardInfo}>
+            <Text style={styles.ruleTitle}>{rule.template.title}</Text>
+            <Text style={styles.ruleSubtitle}>
+              {describeFrequency(rule)} · {rule.template.type === 'transfer'
+                ? 'Transfer'
+                : categoryPath(categories, rule.template.category)}
+              {rule.endDate ? ` · until ${formatDate(rule.endDate)}` : ''}
+              {rule.count != null ? ` · ${rule.count} times` : ''}
+            </Text>
+          </View>
+          <Text style={[styles.ruleAmount, { color: amountColor }]}>
+            {sign}{formatMoney(rule.template.amount)}
+          </Text>
+        </View>
+
+        {rule.paused && (
+          <View style={styles.pausedBadge}>
+            <Text style={styles.pausedBadgeText}>⏸ Paused</Text>
+          </View>
+        )}
+
+        <Text style={styles.sectionLabel}>Upcoming</Text>
+        {upcoming.length === 0 ? (
+          <Text style={styles.noUpcomingText}>No more occurrences</Text>
+        ) : (
+          upcoming.map(occurrence => {
+            const isSkipped = rule.skippedDates.includes(occurrence.key);
+            const override = rule.overrides[occurrence.key];
+            return (
+              <View key={occurrence.key} style={styles.occurrenceRow}>
+                <View style={styles.cardInfo}>
+                  <Text style={[styles.occurrenceDate, isSkipped && styles.skippedText]}>
+                    {formatDate(override?.date ?? occurrence.date)}
+                  </Text>
+                  {isSkipped && <Text style={styles.occurrenceNote}>Skipped</Text>}
+                  {!isSkipped && override && (
+                    <Text style={styles.occurrenceNote}>
+                      Edited · {formatMoney(override.amount ?? rule.template.amount)}
+                    </Text>
+                  )}
+                </View>
+                <TouchableOpacity
+                  style={styles.smallButton}
+                  onPress={() => toggleSkipOccurrence(rule.id, occurrence.key)}
+                >
+                  <Text style={styles.smallButtonText}>{isSkipped ? 'Restore' : 'Skip'}</Text>
+                </TouchableOpacity>
+                {!isSkipped && (
+                  <TouchableOpacity
+                    style={styles.smallButton}
+                    onPress={() => router.push(`/recurring/${rule.id}?occurrence=${occurrence.key}`)}
+                  >
+                    <Text style={styles.smallButtonText}>Edit</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            );
+          })
+        )}
+
+        <View style={styles.actionsRow}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => router.push(`/recurring/${rule.id}`)}>
+            <Text style={styles.actionButtonText}>✏️ Edit series</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={() => setRulePaused(rule.id, !rule.paused)}>
+            <Text style={styles.actionButtonText}>{rule.paused ? '▶️ Resume' : '⏸ Pause'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.actionButton, styles.deleteButton]} onPress={() => handleDelete(rule)}>
+            <Text style={styles.deleteButtonText}>🗑</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Recurring</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.listContainer} showsVerticalScrollIndicator={false}>
+        {rules.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyIcon}>🔁</Text>
+            <Text style={styles.emptyTitle}>No Recurring Transactions</Text>
+            <Text style={styles.emptySubtitle}>
+              Set &quot;Repeat&quot; when adding a transaction to have it created automatically.
+            </Text>
+          </View>
+        ) : (
+          rules.map(renderRule)
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 60 : 40,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  placeholder: {
+    width: 60,
+  },
+  listContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  pausedCard: {
+    opacity: 0.7,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  ruleTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  ruleSubtitle: {
+    fontSize: 13,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  ruleAmount: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  pausedBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#FEF3C7',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  pausedBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#92400E',
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 4,
+  },
+  noUpcomingText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    paddingVertical: 8,
+  },
+  occurrenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  occurrenceDate: {
+    fontSize: 14,
+    color: '#111827',
+    fontWeight: '500',
+  },
+  skippedText: {
+    color: '#9CA3AF',
+    textDecorationLine: 'line-through',
+  },
+  occurrenceNote: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  smallButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  smallButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+    backgroundColor: '#F3F4F6',
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  deleteButton: {
+    flex: 0,
+    paddingHorizontal: 14,
+    backgroundColor: '#FEF2F2',
+    borderWidth: 1,
+    borderColor: '#FECACA',
+  },
+  deleteButtonText: {
+    fontSize: 14,
+    color: '#DC2626',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 20,
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
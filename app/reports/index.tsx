@@ -0,0 +1,389 @@
+import { useRouter } from 'expo-router';
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Platform,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { addMonths, combineDateAndTime, toDateInputValue, toMonthKey } from '../../utils/date';
+import { printHtml, saveTextFile } from '../../utils/files';
+import { formatMoney } from '../../utils/money';
+import { buildReport, monthPeriod, periodLabel, ReportPeriod, renderReportHtml } from '../../utils/report';
+import { useAccounts } from '../context/AccountContext';
+import { useCategories } from '../context/CategoryContext';
+import { useSavings } from '../context/SavingsContext';
+import { useTransactions } from '../context/TransactionContext';
+
+type PeriodMode = 'month' | 'range';
+
+const isDay = (value: string) => combineDateAndTime(value, '00:00') !== null;
+
+export default function ReportsScreen() {
+  const router = useRouter();
+  const { transactions } = useTransactions();
+  const { accounts } = useAccounts();
+  const { categories } = useCategories();
+  const { savingsGoals } = useSavings();
+
+  const currentMonth = toMonthKey(new Date());
+  const [mode, setMode] = useState<PeriodMode>('month');
+  const [month, setMonth] = useState(currentMonth);
+  const [rangeStart, setRangeStart] = useState(monthPeriod(currentMonth).start);
+  const [rangeEnd, setRangeEnd] = useState(toDateInputValue(new Date().toISOString()));
+
+  const rangeError = !isDay(rangeStart) || !isDay(rangeEnd)
+    ? 'Enter both dates as YYYY-MM-DD'
+    : rangeStart.trim() > rangeEnd.trim()
+      ? 'The start date must be on or before the end date'
+      : null;
+
+  const period = useMemo<ReportPeriod | null>(() => {
+    if (mode === 'month') return monthPeriod(month);
+    return rangeError ? null : { start: rangeStart.trim(), end: rangeEnd.trim() };
+  }, [mode, month, rangeStart, rangeEnd, rangeError]);
+
+  const report = useMemo(
+    () => (period ? buildReport(period, { transactions, accounts, categories, savingsGoals }) : null),
+    [period, transactions, accounts, categories, savingsGoals]
+  );
+
+  const fileName = period ? `statement-${period.start}-to-${period.end}.html` : '';
+
+  const handlePrint = async () => {
+    if (!report) return;
+    try {
+      await printHtml(fileName, renderReportHtml(report));
+    } catch (error) {
+      console.error('Failed to print statement:', error);
+      Alert.alert('Error', 'Could not open the statement for printing');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!report) return;
+    try {
+      await saveTextFile(fileName, renderReportHtml(report), 'text/html');
+    } catch (error) {
+      console.error('Failed to save statement:', error);
+      Alert.alert('Error', 'Could not save the statement');
+    }
+  };
+
+  const Chip = ({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) => (
+    <TouchableOpacity style={[styles.chip, active && styles.activeChip]} onPress={onPress}>
+      <Text style={[styles.chipText, active && styles.activeChipText]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Statements</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.chipRow}>
+          <Chip label="Month" active={mode === 'month'} onPress={() => setMode('month')} />
+          <Chip label="Date range" active={mode === 'range'} onPress={() => setMode('range')} />
+        </View>
+
+        {mode === 'month' ? (
+          <View style={styles.monthRow}>
+            <TouchableOpacity style={styles.monthButton} onPress={() => setMonth(addMonths(month, -1))}>
+              <Text style={styles.monthButtonText}>‹</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setMonth(currentMonth)}>
+              <Text style={styles.monthLabel}>{periodLabel(monthPeriod(month))}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.monthButton} onPress={() => setMonth(addMonths(month, 1))}>
+              <Text style={styles.monthButtonText}>›</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.inputGroup}>
+            <View style={styles.rangeRow}>
+              <View style={styles.rangeField}>
+                <Text style={styles.label}>From</Text>
+                <TextInput
+                  placeholder="YYYY-MM-DD"
+                  value={rangeStart}
+                  onChangeText={setRangeStart}
+                  style={styles.input}
+                  placeholderTextColor="#9CA3AF"
+                />
+              </View>
+              <View style={styles.rangeField}>
+                <Text style={styles.label}>To</Text>
+                <TextInput
+                  placeholder="YYYY-MM-DD"
+                  value={rangeEnd}
+                  onChangeText={setRangeEnd}
+                  style={styles.input}
+                  placeholderTextColor="#9CA3AF"
+                />
+              </View>
+            </View>
+            {rangeError && <Text style={styles.errorText}>{rangeError}</Text>}
+          </View>
+        )}
+
+        {report && (
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryTitle}>{periodLabel(report.period)}</Text>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Opening balance</Text>
+              <Text style={styles.summaryValue}>{formatMoney(report.openingBalance)}</Text>
+            </View>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Income</Text>
+              <Text style={[styles.summaryValue, styles.incomeText]}>{formatMoney(report.totalIncome)}</Text>
+            </View>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Expenses</Text>
+              <Text style={[styles.summaryValue, styles.expenseText]}>{formatMoney(report.totalExpense)}</Text>
+            </View>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Closing balance</Text>
+              <Text style={styles.summaryValue}>{formatMoney(report.closingBalance)}</Text>
+            </View>
+            <Text style={styles.summaryHint}>
+              {report.entries.length} transaction{report.entries.length !== 1 ? 's' : ''} ·{' '}
+              {report.categories.length} categor{report.categories.length !== 1 ? 'ies' : 'y'} ·{' '}
+              {report.goals.length} savings goal{report.goals.length !== 1 ? 's' : ''}
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+
+      <View style={styles.bottomContainer}>
+        {Platform.OS === 'web' ? (
+          <>
+            <TouchableOpacity
+              style={[styles.submitButton, !report && styles.disabledButton]}
+              onPress={handlePrint}
+              disabled={!report}
+            >
+              <Text style={styles.submitButtonText}>🖨 Print or Save as PDF</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleSave} disabled={!report}>
+              <Text style={styles.secondaryButtonText}>⤓ Download HTML</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <TouchableOpacity
+            style={[styles.submitButton, !report && styles.disabledButton]}
+            onPress={handlePrint}
+            disabled={!report}
+          >
+            <Text style={styles.submitButtonText}>📤 Share Statement</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 60 : 40,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  placeholder: {
+    width: 60,
+  },
+  content: {
+    padding: 20,
+    gap: 20,
+    paddingBottom: 40,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  activeChip: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  activeChipText: {
+    color: '#FFFFFF',
+  },
+  monthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  monthButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  monthButtonText: {
+    fontSize: 22,
+    color: '#374151',
+    fontWeight: '600',
+  },
+  monthLabel: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  inputGroup: {
+    gap: 8,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rangeField: {
+    flex: 1,
+    gap: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginLeft: 4,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#111827',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#DC2626',
+    marginLeft: 4,
+  },
+  summaryCard: {
+    backgroundColor: '#EEF2FF',
+    borderRadius: 16,
+    padding: 16,
+    gap: 8,
+  },
+  summaryTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1E293B',
+    marginBottom: 4,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  summaryLabel: {
+    fontSize: 15,
+    color: '#475569',
+  },
+  summaryValue: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1E293B',
+  },
+  incomeText: {
+    color: '#059669',
+  },
+  expenseText: {
+    color: '#DC2626',
+  },
+  summaryHint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  bottomContainer: {
+    padding: 20,
+    paddingBottom: Platform.OS === 'ios' ? 34 : 20,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+    gap: 12,
+  },
+  submitButton: {
+    backgroundColor: '#6366F1',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#EEF2FF',
+  },
+  secondaryButtonText: {
+    color: '#4F46E5',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
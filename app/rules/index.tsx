@@ -0,0 +1,577 @@
+import { Picker } from '@react-native-picker/picker';
+import { useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  Alert,
+  Platform,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { v4 as uuid } from 'uuid';
+import { TagField } from '../../components/TagField';
+import { categoryPath, categoryPickerOptions } from '../../utils/categories';
+import { categoryRuleError, categoryRuleMatches, rerunCategoryRules } from '../../utils/categoryRules';
+import { formatMoney, parseMoney, toInputValue } from '../../utils/money';
+import { allTags } from '../../utils/tags';
+import { useAccounts } from '../context/AccountContext';
+import { useCategories } from '../context/CategoryContext';
+import { CategoryRule, useCategoryRules } from '../context/CategoryRuleContext';
+import { useTransactions } from '../context/TransactionContext';
+
+// Picker value for "any account" and "don't change the category"
+const ANY = '';
+
+export default function RulesScreen() {
+  const router = useRouter();
+  const {
+    categoryRules,
+    addCategoryRule,
+    updateCategoryRule,
+    deleteCategoryRule,
+    moveCategoryRule
+  } = useCategoryRules();
+  const { transactions, updateTransaction } = useTransactions();
+  const { accounts } = useAccounts();
+  const { categories, getCategory } = useCategories();
+
+  // Rule being edited, or null when the form adds a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [titleMatch, setTitleMatch] = useState<CategoryRule['titleMatch']>('contains');
+  const [titlePattern, setTitlePattern] = useState('');
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [accountId, setAccountId] = useState(ANY);
+  const [category, setCategory] = useState(ANY);
+  const [tags, setTags] = useState<string[]>([]);
+
+  // Both types in one picker; the chosen category decides the rule's type
+  const categoryOptions = [
+    ...categoryPickerOptions(categories, 'expense', category).map(o => ({ ...o, label: `💸 ${o.label.trim()}` })),
+    ...categoryPickerOptions(categories, 'income', category).map(o => ({ ...o, label: `💰 ${o.label.trim()}` })),
+  ];
+
+  const accountName = (id: string) => accounts.find(a => a.id === id)?.name ?? 'Unknown account';
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setTitleMatch('contains');
+    setTitlePattern('');
+    setMinAmount('');
+    setMaxAmount('');
+    setAccountId(ANY);
+    setCategory(ANY);
+    setTags([]);
+  };
+
+  const handleEdit = (rule: CategoryRule) => {
+    setEditingId(rule.id);
+    setName(rule.name);
+    setTitleMatch(rule.titleMatch);
+    setTitlePattern(rule.titlePattern);
+    setMinAmount(rule.minAmount !== undefined ? toInputValue(rule.minAmount) : '');
+    setMaxAmount(rule.maxAmount !== undefined ? toInputValue(rule.maxAmount) : '');
+    setAccountId(rule.accountId ?? ANY);
+    setCategory(rule.category ?? ANY);
+    setTags(rule.tags ?? []);
+  };
+
+  const handleSave = () => {
+    // Blank amounts mean no limit
+    const parsedMin = minAmount.trim() ? parseMoney(minAmount) : undefined;
+    const parsedMax = maxAmount.trim() ? parseMoney(maxAmount) : undefined;
+    if (parsedMin === null || parsedMax === null) {
+      Alert.alert('Error', 'Please enter valid amounts, or leave them blank');
+      return;
+    }
+
+    const rule: CategoryRule = {
+      id: editingId ?? uuid(),
+      name: name.trim(),
+      enabled: categoryRules.find(r => r.id === editingId)?.enabled ?? true,
+      titleMatch,
+      titlePattern: titlePattern.trim(),
+      minAmount: parsedMin,
+      maxAmount: parsedMax,
+      accountId: accountId || undefined,
+      type: category ? getCategory(category)?.type : undefined,
+      category: category || undefined,
+      tags: tags.length > 0 ? tags : undefined,
+    };
+    const error = categoryRuleError(rule);
+    if (error) {
+      Alert.alert('Error', error);
+      return;
+    }
+
+    if (editingId) {
+      updateCategoryRule(editingId, rule);
+    } else {
+      addCategoryRule(rule);
+    }
+    resetForm();
+  };
+
+  const handleDelete = (rule: CategoryRule) => {
+    Alert.alert(
+      'Delete Rule',
+      `Are you sure you want to delete "${rule.name || rule.titlePattern}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            deleteCategoryRule(rule.id);
+            if (editingId === rule.id) resetForm();
+          }
+        }
+      ]
+    );
+  };
+
+  const handleRerun = () => {
+    const updates = rerunCategoryRules(categoryRules, transactions);
+    if (updates.length === 0) {
+      Alert.alert('Up to Date', 'Every transaction already matches your rules.');
+      return;
+    }
+    Alert.alert(
+      'Apply Rules',
+      `${updates.length} transaction${updates.length !== 1 ? 's' : ''} will be recategorised or tagged. Continue?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Apply',
+          onPress: () => updates.forEach(({ id, changes }) => updateTransaction(id, changes))
+        }
+      ]
+    );
+  };
+
+  const describeConditions = (rule: CategoryRule) => [
+    rule.titleMatch === 'regex' ? `Title matches /${rule.titlePattern}/` : `Title contains "${rule.titlePattern}"`,
+    rule.minAmount !== undefined && rule.maxAmount !== undefined
+      ? `${formatMoney(rule.minAmount)}–${formatMoney(rule.maxAmount)}`
+      : rule.minAmount !== undefined
+        ? `at least ${formatMoney(rule.minAmount)}`
+        : rule.maxAmount !== undefined
+          ? `up to ${formatMoney(rule.maxAmount)}`
+          : null,
+    rule.accountId ? accountName(rule.accountId) : null,
+  ].filter(Boolean).join(' · ');
+
+  const describeOutcome = (rule: CategoryRule) => [
+    rule.category ? categoryPath(categories, rule.category) : null,
+    ...(rule.tags ?? []).map(tag => `#${tag}`),
+  ].filter(Boolean).join(' ');
+
+  const renderRule = (rule: CategoryRule, index: number) => {
+    const matches = transactions.filter(tx => tx.type !== 'transfer' && categoryRuleMatches(rule, tx)).length;
+
+    return (
+      <TouchableOpacity
+        key={rule.id}
+        style={[styles.card, !rule.enabled && styles.disabledCard, rule.id === editingId && styles.selectedCard]}
+        onPress={() => handleEdit(rule)}
+      >
+        <View style={styles.cardHeader}>
+          <Text style={styles.priority}>{index + 1}</Text>
+          <View style={styles.cardInfo}>
+            <Text style={styles.ruleName}>{rule.name || rule.titlePattern}</Text>
+            <Text style={styles.ruleDetail}>{describeConditions(rule)}</Text>
+            <Text style={styles.ruleOutcome}>→ {describeOutcome(rule)}</Text>
+            <Text style={styles.ruleDetail}>
+              Matches {matches} existing transaction{matches !== 1 ? 's' : ''}
+            </Text>
+          </View>
+          <Switch
+            value={rule.enabled}
+            onValueChange={enabled => updateCategoryRule(rule.id, { enabled })}
+          />
+        </View>
+        <View style={styles.cardActions}>
+          <TouchableOpacity
+            style={[styles.actionButton, index === 0 && styles.actionButtonDisabled]}
+            disabled={index === 0}
+            onPress={() => moveCategoryRule(rule.id, -1)}
+          >
+            <Text style={styles.actionButtonText}>↑</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, index === categoryRules.length - 1 && styles.actionButtonDisabled]}
+            disabled={index === categoryRules.length - 1}
+            onPress={() => moveCategoryRule(rule.id, 1)}
+          >
+            <Text style={styles.actionButtonText}>↓</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(rule)}>
+            <Text style={styles.deleteButtonText}>🗑</Text>
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Rules</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.listContainer}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.introText}>
+          New transactions are categorised by the first enabled rule that matches, from the top.
+        </Text>
+
+        {categoryRules.map(renderRule)}
+
+        {categoryRules.length > 0 && (
+          <TouchableOpacity style={styles.rerunButton} onPress={handleRerun}>
+            <Text style={styles.rerunButtonText}>↻ Apply rules to existing transactions</Text>
+          </TouchableOpacity>
+        )}
+
+        <View style={styles.formCard}>
+          <Text style={styles.formTitle}>{editingId ? 'Edit Rule' : 'New Rule'}</Text>
+          <TextInput
+            placeholder="Name (optional)"
+            value={name}
+            onChangeText={setName}
+            style={styles.input}
+            placeholderTextColor="#9CA3AF"
+          />
+
+          <Text style={styles.sectionLabel}>When the title</Text>
+          <View style={styles.chipRow}>
+            {([['contains', 'Contains'], ['regex', 'Matches regex']] as const).map(([value, label]) => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.chip, titleMatch === value && styles.activeChip]}
+                onPress={() => setTitleMatch(value)}
+              >
+                <Text style={[styles.chipText, titleMatch === value && styles.activeChipText]}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            placeholder={titleMatch === 'regex' ? '^uber|careem' : 'e.g. K-Electric'}
+            value={titlePattern}
+            onChangeText={setTitlePattern}
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={styles.input}
+            placeholderTextColor="#9CA3AF"
+          />
+
+          <Text style={styles.sectionLabel}>and the amount is between</Text>
+          <View style={styles.amountRow}>
+            <TextInput
+              placeholder="Any"
+              value={minAmount}
+              onChangeText={setMinAmount}
+              keyboardType="numeric"
+              style={[styles.input, styles.amountInput]}
+              placeholderTextColor="#9CA3AF"
+            />
+            <Text style={styles.amountSeparator}>and</Text>
+            <TextInput
+              placeholder="Any"
+              value={maxAmount}
+              onChangeText={setMaxAmount}
+              keyboardType="numeric"
+              style={[styles.input, styles.amountInput]}
+              placeholderTextColor="#9CA3AF"
+            />
+          </View>
+
+          <Text style={styles.sectionLabel}>in account</Text>
+          <View style={styles.pickerContainer}>
+            <Picker selectedValue={accountId} onValueChange={setAccountId} style={styles.picker}>
+              <Picker.Item label="Any account" value={ANY} />
+              {accounts.map(account => (
+                <Picker.Item key={account.id} label={account.name} value={account.id} />
+              ))}
+            </Picker>
+          </View>
+
+          <Text style={styles.sectionLabel}>then file it under</Text>
+          <View style={styles.pickerContainer}>
+            <Picker selectedValue={category} onValueChange={setCategory} style={styles.picker}>
+              <Picker.Item label="Don't change the category" value={ANY} />
+              {categoryOptions.map(option => (
+                <Picker.Item key={option.value} label={option.label} value={option.value} />
+              ))}
+            </Picker>
+          </View>
+
+          <Text style={styles.sectionLabel}>and add tags</Text>
+          <TagField value={tags} onChange={setTags} suggestions={allTags(transactions)} />
+
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+            <Text style={styles.saveButtonText}>{editingId ? 'Save Changes' : 'Add Rule'}</Text>
+          </TouchableOpacity>
+          {editingId && (
+            <TouchableOpacity onPress={resetForm}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 60 : 40,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  placeholder: {
+    width: 60,
+  },
+  listContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  disabledCard: {
+    opacity: 0.5,
+  },
+  selectedCard: {
+    borderColor: '#6366F1',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  priority: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#EEF2FF',
+    color: '#4F46E5',
+    fontWeight: '700',
+    textAlign: 'center',
+    lineHeight: 28,
+    overflow: 'hidden',
+  },
+  cardInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  ruleName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  ruleDetail: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  ruleOutcome: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+  cardActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  actionButtonDisabled: {
+    opacity: 0.4,
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#374151',
+  },
+  deleteButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#FEF2F2',
+    borderWidth: 1,
+    borderColor: '#FECACA',
+  },
+  deleteButtonText: {
+    fontSize: 14,
+    color: '#DC2626',
+  },
+  rerunButton: {
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#EEF2FF',
+    marginBottom: 16,
+  },
+  rerunButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+  formCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  formTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 4,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#111827',
+  },
+  amountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  amountInput: {
+    flex: 1,
+  },
+  amountSeparator: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  activeChip: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  activeChipText: {
+    color: '#FFFFFF',
+  },
+  pickerContainer: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  picker: {
+    height: 50,
+    color: '#111827',
+  },
+  saveButton: {
+    backgroundColor: '#6366F1',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  cancelText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
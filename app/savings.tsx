@@ -1,6 +1,5 @@
 import { Ionicons } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import React, { createContext, ReactNode, useContext, useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import {
     Alert,
     SafeAreaView,
@@ -11,127 +10,9 @@ import {
     TouchableOpacity,
     View,
 } from 'react-native';
-
-export interface SavingsGoal {
-  id: string;
-  title: string;
-  targetAmount: number;
-  currentAmount: number;
-  deadline: string;
-  category: string;
-}
-
-interface SavingsContextType {
-  savingsGoals: SavingsGoal[];
-  addSavingsGoal: (goal: SavingsGoal) => void;
-  updateSavingsGoal: (id: string, amount: number) => void;
-  deleteSavingsGoal: (id: string) => void;
-  isLoading: boolean;
-}
-
-const SavingsContext = createContext<SavingsContextType | undefined>(undefined);
-
-const STORAGE_KEY = '@savings_goals';
-
-export const SavingsProvider = ({ children }: { children: ReactNode }) => {
-  const [savingsGoals, setSavingsGoals] = useState<SavingsGoal[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-
-  // Load data from AsyncStorage on app start
-  useEffect(() => {
-    loadSavingsGoals();
-  }, []);
-
-  // Save to AsyncStorage whenever savingsGoals changes
-  useEffect(() => {
-    if (!isLoading) {
-      saveSavingsGoals(savingsGoals);
-    }
-  }, [savingsGoals, isLoading]);
-
-  const loadSavingsGoals = async () => {
-    try {
-      const storedGoals = await AsyncStorage.getItem(STORAGE_KEY);
-      if (storedGoals) {
-        const parsedGoals = JSON.parse(storedGoals);
-        setSavingsGoals(parsedGoals);
-      }
-    } catch (error) {
-      console.error('Error loading savings goals:', error);
-      Alert.alert('Error', 'Failed to load savings goals from storage');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const saveSavingsGoals = async (goals: SavingsGoal[]) => {
-    try {
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(goals));
-    } catch (error) {
-      console.error('Error saving savings goals:', error);
-      Alert.alert('Error', 'Failed to save savings goals to storage');
-    }
-  };
-
-  const addSavingsGoal = (goal: SavingsGoal) => {
-    setSavingsGoals(prev => [goal, ...prev]);
-  };
-
-  const updateSavingsGoal = (id: string, amount: number) => {
-    setSavingsGoals(prev => 
-      prev.map(goal => 
-        goal.id === id 
-          ? { ...goal, currentAmount: Math.min(goal.targetAmount, goal.currentAmount + amount) }
-          : goal
-      )
-    );
-  };
-
-  const deleteSavingsGoal = (id: string) => {
-    Alert.alert(
-      "Delete Goal",
-      "Are you sure you want to delete this savings goal?",
-      [
-        { text: "Cancel", style: "cancel" },
-        { 
-          text: "Delete", 
-          style: "destructive",
-          onPress: () => setSavingsGoals(prev => prev.filter(goal => goal.id !== id))
-        }
-      ]
-    );
-  };
-
-  // Clear all data function (optional - for testing or reset)
-  const clearAllData = async () => {
-    try {
-      await AsyncStorage.removeItem(STORAGE_KEY);
-      setSavingsGoals([]);
-      Alert.alert('Success', 'All savings goals cleared');
-    } catch (error) {
-      console.error('Error clearing data:', error);
-      Alert.alert('Error', 'Failed to clear data');
-    }
-  };
-
-  return (
-    <SavingsContext.Provider value={{ 
-      savingsGoals,
-      addSavingsGoal,
-      updateSavingsGoal,
-      deleteSavingsGoal,
-      isLoading
-    }}>
-      {children}
-    </SavingsContext.Provider>
-  );
-};
-
-export const useSavings = () => {
-  const context = useContext(SavingsContext);
-  if (!context) throw new Error('useSavings must be used within a SavingsProvider');
-  return context;
-};
+import { formatDate, toTimestamp } from '../utils/date';
+import { compareMoney, formatMoney, parseMoney, subtractMoney, ZERO } from '../utils/money';
+import { SavingsGoal, useSavings } from './context/SavingsContext';
 
 const AddSavingsGoalForm = () => {
   const { addSavingsGoal } = useSavings();
@@ -148,7 +29,8 @@ const AddSavingsGoalForm = () => {
       return;
     }
 
-    if (parseFloat(formData.targetAmount) <= 0) {
+    const targetAmount = parseMoney(formData.targetAmount);
+    if (targetAmount === null || compareMoney(targetAmount, ZERO) <= 0) {
       Alert.alert('Error', 'Target amount must be greater than 0');
       return;
     }
@@ -156,8 +38,8 @@ const AddSavingsGoalForm = () => {
     addSavingsGoal({
       id: Date.now().toString(),
       title: formData.title,
-      targetAmount: parseFloat(formData.targetAmount),
-      currentAmount: 0,
+      targetAmount,
+      currentAmount: ZERO,
       deadline: formData.deadline,
       category: formData.category
     });
@@ -226,28 +108,24 @@ const SavingsGoalCard = ({ goal }: { goal: SavingsGoal }) => {
   const [addAmount, setAddAmount] = useState('');
 
   const progress = (goal.currentAmount / goal.targetAmount) * 100;
-  const remaining = goal.targetAmount - goal.currentAmount;
+  const remaining = subtractMoney(goal.targetAmount, goal.currentAmount);
   const isCompleted = goal.currentAmount >= goal.targetAmount;
 
   const handleAddMoney = () => {
-    if (!addAmount || parseFloat(addAmount) <= 0) {
+    const amount = parseMoney(addAmount);
+    if (amount === null || compareMoney(amount, ZERO) <= 0) {
       Alert.alert('Error', 'Please enter a valid amount');
       return;
     }
     
-    updateSavingsGoal(goal.id, parseFloat(addAmount));
+    updateSavingsGoal(goal.id, amount);
     setAddAmount('');
     Alert.alert('Success', 'Amount added and saved successfully!');
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString();
-  };
-
   const getDaysRemaining = () => {
     const today = new Date();
-    const deadline = new Date(goal.deadline);
-    const timeDiff = deadline.getTime() - today.getTime();
+    const timeDiff = toTimestamp(goal.deadline) - today.getTime();
     const daysDiff = Math.ceil(timeDiff / (1000 * 3600 * 24));
     return daysDiff;
   };
@@ -287,18 +165,18 @@ const SavingsGoalCard = ({ goal }: { goal: SavingsGoal }) => {
       <View style={styles.amountSection}>
         <View style={styles.amountBox}>
           <Text style={styles.amountLabel}>Current</Text>
-          <Text style={styles.currentAmount}>${goal.currentAmount.toFixed(2)}</Text>
+          <Text style={styles.currentAmount}>{formatMoney(goal.currentAmount)}</Text>
         </View>
         <View style={styles.amountBox}>
           <Text style={styles.amountLabel}>Target</Text>
-          <Text style={styles.targetAmount}>${goal.targetAmount.toFixed(2)}</Text>
+          <Text style={styles.targetAmount}>{formatMoney(goal.targetAmount)}</Text>
         </View>
       </View>
 
       {!isCompleted && (
         <View style={styles.remainingSection}>
           <Text style={styles.remainingText}>
-            <Text style={styles.remainingAmount}>${remaining.toFixed(2)}</Text> remaining
+            <Text style={styles.remainingAmount}>{formatMoney(remaining)}</Text> remaining
           </Text>
           <View style={styles.deadlineContainer}>
             <Ionicons name="calendar" size={14} color="#6B7280" />
@@ -382,20 +260,18 @@ const SavingsGoalsList = () => {
 
 export default function SavingsGoalsScreen() {
   return (
-    <SavingsProvider>
-      <SafeAreaView style={styles.container}>
-        <ScrollView style={styles.scrollContainer} showsVerticalScrollIndicator={false}>
-          <View style={styles.header}>
-            <Ionicons name="wallet" size={32} color="#374151" />
-            <Text style={styles.headerTitle}>Savings Goals</Text>
-            <Text style={styles.headerSubtitle}>Track your progress and achieve your dreams</Text>
-          </View>
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollContainer} showsVerticalScrollIndicator={false}>
+        <View style={styles.header}>
+          <Ionicons name="wallet" size={32} color="#374151" />
+          <Text style={styles.headerTitle}>Savings Goals</Text>
+          <Text style={styles.headerSubtitle}>Track your progress and achieve your dreams</Text>
+        </View>
 
-          <AddSavingsGoalForm />
-          <SavingsGoalsList />
-        </ScrollView>
-      </SafeAreaView>
-    </SavingsProvider>
+        <AddSavingsGoalForm />
+        <SavingsGoalsList />
+      </ScrollView>
+    </SafeAreaView>
   );
 }
 
@@ -0,0 +1,344 @@
+import { useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { MIN_PASSPHRASE_LENGTH, WrongPassphraseError } from '../../storage/encryption';
+import { useEncryption } from '../context/EncryptionContext';
+
+// Declared outside the screen so re-renders don't remount the input and drop focus
+const PassphraseInput = ({
+  placeholder,
+  value,
+  onChangeText,
+  editable,
+}: {
+  placeholder: string;
+  value: string;
+  onChangeText: (text: string) => void;
+  editable: boolean;
+}) => (
+  <TextInput
+    placeholder={placeholder}
+    value={value}
+    onChangeText={onChangeText}
+    secureTextEntry
+    autoCapitalize="none"
+    autoCorrect={false}
+    editable={editable}
+    style={styles.input}
+    placeholderTextColor="#9CA3AF"
+  />
+);
+
+export default function SecurityScreen() {
+  const router = useRouter();
+  const { isEncrypted, enableEncryption, changePassphrase, disableEncryption } = useEncryption();
+
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const resetForm = () => {
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+  };
+
+  const checkNewPassphrase = () => {
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      Alert.alert('Error', `The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return false;
+    }
+    if (newPassphrase !== confirmPassphrase) {
+      Alert.alert('Error', 'The passphrases do not match');
+      return false;
+    }
+    return true;
+  };
+
+  const run = async (task: () => Promise<void>, done: string) => {
+    setIsWorking(true);
+    try {
+      await task();
+      resetForm();
+      Alert.alert('Done', done);
+    } catch (error) {
+      if (error instanceof WrongPassphraseError) {
+        Alert.alert('Error', 'The current passphrase is wrong');
+      } else {
+        console.error('Failed to update encryption:', error);
+        Alert.alert('Error', 'Encryption settings could not be updated. Please try again.');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleEnable = () => {
+    if (!checkNewPassphrase()) return;
+    Alert.alert(
+      'Encrypt Your Data',
+      'You will need this passphrase every time the app starts. If you forget it, your data cannot be recovered.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Encrypt',
+          onPress: () => run(() => enableEncryption(newPassphrase), 'Your data is now encrypted.'),
+        },
+      ]
+    );
+  };
+
+  const handleChange = () => {
+    if (!currentPassphrase) {
+      Alert.alert('Error', 'Enter your current passphrase');
+      return;
+    }
+    if (!checkNewPassphrase()) return;
+    run(() => changePassphrase(currentPassphrase, newPassphrase), 'Your passphrase was changed.');
+  };
+
+  const handleDisable = () => {
+    if (!currentPassphrase) {
+      Alert.alert('Error', 'Enter your current passphrase');
+      return;
+    }
+    Alert.alert(
+      'Turn Off Encryption',
+      'Your data will be stored unencrypted and anyone with access to this device can read it.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Turn Off',
+          style: 'destructive',
+          onPress: () => run(() => disableEncryption(currentPassphrase), 'Encryption is now off.'),
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
+
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Security</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={[styles.statusCard, isEncrypted && styles.statusCardOn]}>
+          <Text style={styles.statusTitle}>{isEncrypted ? '🔒 Encryption is on' : '🔓 Encryption is off'}</Text>
+          <Text style={styles.statusText}>
+            {isEncrypted
+              ? 'Everything you enter is encrypted before it is saved, and the app asks for your passphrase ' +
+                'when it starts.'
+              : 'Your data is saved as plain text. Anyone with access to this device can read it.'}
+          </Text>
+        </View>
+
+        {isEncrypted ? (
+          <>
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Change passphrase</Text>
+              <PassphraseInput
+                placeholder="Current passphrase"
+                value={currentPassphrase}
+                onChangeText={setCurrentPassphrase}
+                editable={!isWorking}
+              />
+              <PassphraseInput
+                placeholder="New passphrase"
+                value={newPassphrase}
+                onChangeText={setNewPassphrase}
+                editable={!isWorking}
+              />
+              <PassphraseInput
+                placeholder="Repeat new passphrase"
+                value={confirmPassphrase}
+                onChangeText={setConfirmPassphrase}
+                editable={!isWorking}
+              />
+              <Text style={styles.cardText}>Your data is re-encrypted with a new key as well.</Text>
+              <TouchableOpacity
+                style={[styles.primaryButton, isWorking && styles.disabledButton]}
+                onPress={handleChange}
+                disabled={isWorking}
+              >
+                {isWorking ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Change Passphrase</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Turn off encryption</Text>
+              <Text style={styles.cardText}>Uses the current passphrase entered above.</Text>
+              <TouchableOpacity
+                style={[styles.dangerButton, isWorking && styles.disabledButton]}
+                onPress={handleDisable}
+                disabled={isWorking}
+              >
+                <Text style={styles.primaryButtonText}>Turn Off Encryption</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        ) : (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Encrypt your data</Text>
+            <Text style={styles.cardText}>
+              Choose a passphrase of at least {MIN_PASSPHRASE_LENGTH} characters. There is no way to recover it,
+              so keep it somewhere safe.
+            </Text>
+            <PassphraseInput
+              placeholder="Passphrase"
+              value={newPassphrase}
+              onChangeText={setNewPassphrase}
+              editable={!isWorking}
+            />
+            <PassphraseInput
+              placeholder="Repeat passphrase"
+              value={confirmPassphrase}
+              onChangeText={setConfirmPassphrase}
+              editable={!isWorking}
+            />
+            <TouchableOpacity
+              style={[styles.primaryButton, isWorking && styles.disabledButton]}
+              onPress={handleEnable}
+              disabled={isWorking}
+            >
+              {isWorking ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.primaryButtonText}>🔒 Encrypt My Data</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 60 : 40,
+    paddingBottom: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  placeholder: {
+    width: 60,
+  },
+  content: {
+    padding: 20,
+    gap: 16,
+    paddingBottom: 40,
+  },
+  statusCard: {
+    backgroundColor: '#FEF3C7',
+    borderRadius: 16,
+    padding: 16,
+    gap: 6,
+  },
+  statusCardOn: {
+    backgroundColor: '#D1FAE5',
+  },
+  statusTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1E293B',
+  },
+  statusText: {
+    fontSize: 14,
+    color: '#475569',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  cardText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#111827',
+  },
+  primaryButton: {
+    backgroundColor: '#6366F1',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  dangerButton: {
+    backgroundColor: '#EF4444',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { addDays, combineDateAndTime, formatDateTime, toDateInputValue } from '@/utils/date';
+
+type DatePickerFieldProps = {
+  // YYYY-MM-DD
+  day: string;
+  // HH:MM, local time
+  time: string;
+  onChangeDay: (day: string) => void;
+  onChangeTime: (time: string) => void;
+};
+
+const today = () => toDateInputValue(new Date().toISOString());
+
+const quickDays = [
+  { label: 'Today', offset: 0 },
+  { label: 'Yesterday', offset: -1 },
+  { label: '2 days ago', offset: -2 },
+  { label: 'Last week', offset: -7 },
+];
+
+/**
+ * Day picker with quick chips and a stepper, plus an optional time of day.
+ */
+export function DatePickerField({ day, time, onChangeDay, onChangeTime }: DatePickerFieldProps) {
+  const [showTime, setShowTime] = useState(false);
+  const preview = combineDateAndTime(day, time);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chipRow}>
+        {quickDays.map(({ label, offset }) => {
+          const value = addDays(today(), offset);
+          return (
+            <TouchableOpacity
+              key={label}
+              style={[styles.chip, day === value && styles.activeChip]}
+              onPress={() => onChangeDay(value)}
+            >
+              <Text style={[styles.chipText, day === value && styles.activeChipText]}>{label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.stepperRow}>
+        <TouchableOpacity style={styles.stepButton} onPress={() => onChangeDay(addDays(day, -1))}>
+          <Text style={styles.stepButtonText}>‹</Text>
+        </TouchableOpacity>
+        <TextInput
+          placeholder="YYYY-MM-DD"
+          value={day}
+          onChangeText={onChangeDay}
+          style={[styles.input, styles.dayInput]}
+          placeholderTextColor="#9CA3AF"
+        />
+        <TouchableOpacity style={styles.stepButton} onPress={() => onChangeDay(addDays(day, 1))}>
+          <Text style={styles.stepButtonText}>›</Text>
+        </TouchableOpacity>
+      </View>
+
+      {showTime ? (
+        <TextInput
+          placeholder="HH:MM"
+          value={time}
+          onChangeText={onChangeTime}
+          style={styles.input}
+          placeholderTextColor="#9CA3AF"
+        />
+      ) : (
+        <TouchableOpacity onPress={() => setShowTime(true)}>
+          <Text style={styles.linkText}>+ Set time</Text>
+        </TouchableOpacity>
+      )}
+
+      <Text style={[styles.previewText, !preview && styles.errorText]}>
+        {preview ? formatDateTime(preview) : 'Enter a valid date (YYYY-MM-DD) and time (HH:MM)'}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  activeChip: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  activeChipText: {
+    color: '#FFFFFF',
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepButton: {
+    width: 44,
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepButtonText: {
+    fontSize: 22,
+    color: '#374151',
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#111827',
+  },
+  dayInput: {
+    flex: 1,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3B82F6',
+    marginLeft: 4,
+  },
+  previewText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginLeft: 4,
+  },
+  errorText: {
+    color: '#DC2626',
+  },
+});
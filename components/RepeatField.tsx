@@ -0,0 +1,226 @@
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { parseDate } from '@/utils/date';
+import { RecurrenceFrequency, RecurrenceSettings } from '@/utils/recurrence';
+
+type EndMode = 'never' | 'date' | 'count';
+
+/**
+ * Raw form state for the repeat section; see `parseRepeatDraft`.
+ */
+export interface RepeatDraft {
+  frequency: RecurrenceFrequency | 'never';
+  interval: string;
+  endMode: EndMode;
+  endDate: string;
+  count: string;
+}
+
+export const emptyRepeatDraft: RepeatDraft = {
+  frequency: 'never',
+  interval: '1',
+  endMode: 'never',
+  endDate: '',
+  count: '',
+};
+
+export const toRepeatDraft = (settings: RecurrenceSettings): RepeatDraft => ({
+  frequency: settings.frequency,
+  interval: String(settings.interval),
+  endMode: settings.endDate ? 'date' : settings.count != null ? 'count' : 'never',
+  endDate: settings.endDate ?? '',
+  count: settings.count != null ? String(settings.count) : '',
+});
+
+/**
+ * Validates the draft. `settings` is null when the transaction doesn't repeat.
+ */
+export const parseRepeatDraft = (
+  draft: RepeatDraft
+): { settings: RecurrenceSettings | null; error?: undefined } | { settings?: undefined; error: string } => {
+  if (draft.frequency === 'never') return { settings: null };
+
+  const interval = Number(draft.interval);
+  if (!Number.isInteger(interval) || interval < 1) {
+    return { error: 'Repeat interval must be a whole number of at least 1' };
+  }
+
+  const settings: RecurrenceSettings = { frequency: draft.frequency, interval };
+  if (draft.endMode === 'date') {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(draft.endDate) || !parseDate(draft.endDate)) {
+      return { error: 'Please enter a valid end date (YYYY-MM-DD)' };
+    }
+    settings.endDate = draft.endDate;
+  } else if (draft.endMode === 'count') {
+    const count = Number(draft.count);
+    if (!Number.isInteger(count) || count < 1) {
+      return { error: 'Number of occurrences must be at least 1' };
+    }
+    settings.count = count;
+  }
+  return { settings };
+};
+
+const frequencyOptions: { value: RepeatDraft['frequency']; label: string }[] = [
+  { value: 'never', label: 'Never' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+const unitLabels: Record<RecurrenceFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+  yearly: 'year(s)',
+};
+
+const endOptions: { value: EndMode; label: string }[] = [
+  { value: 'never', label: 'No end' },
+  { value: 'date', label: 'On date' },
+  { value: 'count', label: 'After' },
+];
+
+type RepeatFieldProps = {
+  value: RepeatDraft;
+  onChange: (value: RepeatDraft) => void;
+};
+
+/**
+ * Frequency, interval and end condition for a recurring transaction.
+ */
+export function RepeatField({ value, onChange }: RepeatFieldProps) {
+  const update = (changes: Partial<RepeatDraft>) => onChange({ ...value, ...changes });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chipRow}>
+        {frequencyOptions.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.chip, value.frequency === option.value && styles.activeChip]}
+            onPress={() => update({ frequency: option.value })}
+          >
+            <Text style={[styles.chipText, value.frequency === option.value && styles.activeChipText]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {value.frequency !== 'never' && (
+        <>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Every</Text>
+            <TextInput
+              value={value.interval}
+              onChangeText={interval => update({ interval })}
+              keyboardType="numeric"
+              style={styles.smallInput}
+            />
+            <Text style={styles.rowLabel}>{unitLabels[value.frequency]}</Text>
+          </View>
+
+          <View style={styles.chipRow}>
+            {endOptions.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, value.endMode === option.value && styles.activeChip]}
+                onPress={() => update({ endMode: option.value })}
+              >
+                <Text style={[styles.chipText, value.endMode === option.value && styles.activeChipText]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {value.endMode === 'date' && (
+            <TextInput
+              placeholder="End date (YYYY-MM-DD)"
+              value={value.endDate}
+              onChangeText={endDate => update({ endDate })}
+              style={styles.input}
+              placeholderTextColor="#9CA3AF"
+            />
+          )}
+          {value.endMode === 'count' && (
+            <View style={styles.row}>
+              <TextInput
+                value={value.count}
+                onChangeText={count => update({ count })}
+                keyboardType="numeric"
+                style={styles.smallInput}
+              />
+              <Text style={styles.rowLabel}>occurrences</Text>
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  activeChip: {
+    backgroundColor: '#8B5CF6',
+    borderColor: '#8B5CF6',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  activeChipText: {
+    color: '#FFFFFF',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowLabel: {
+    fontSize: 15,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  smallInput: {
+    width: 64,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+    textAlign: 'center',
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#111827',
+  },
+});
@@ -0,0 +1,168 @@
+import { Picker } from '@react-native-picker/picker';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import type { TransactionSplit } from '@/app/context/TransactionContext';
+import { compareMoney, formatMoney, Money, parseMoney, subtractMoney, toInputValue, ZERO } from '@/utils/money';
+import { unassignedAmount, validateSplits } from '@/utils/splits';
+
+/**
+ * Raw form state for one split line; see `parseSplitDraft`.
+ */
+export interface SplitDraftLine {
+  category: string;
+  amount: string;
+}
+
+export const toSplitDraft = (splits: TransactionSplit[]): SplitDraftLine[] =>
+  splits.map(split => ({ category: split.category, amount: toInputValue(split.amount) }));
+
+/**
+ * Validates the lines against the transaction total. `splits` is undefined
+ * when there are no lines, i.e. the transaction isn't split.
+ */
+export const parseSplitDraft = (
+  lines: SplitDraftLine[],
+  total: Money
+): { splits: TransactionSplit[] | undefined; error?: undefined } | { splits?: undefined; error: string } => {
+  if (lines.length === 0) return { splits: undefined };
+
+  const splits: TransactionSplit[] = [];
+  for (const line of lines) {
+    const amount = parseMoney(line.amount);
+    if (amount === null) return { error: 'Please enter a valid amount on every split line' };
+    splits.push({ category: line.category, amount });
+  }
+  const error = validateSplits(splits, total);
+  return error ? { error } : { splits };
+};
+
+type SplitFieldProps = {
+  value: SplitDraftLine[];
+  onChange: (value: SplitDraftLine[]) => void;
+  options: { label: string; value: string }[];
+  // Parsed transaction amount, null while the amount field is invalid
+  total: Money | null;
+};
+
+/**
+ * Category lines for a split transaction, with the amount still to assign.
+ */
+export function SplitField({ value, onChange, options, total }: SplitFieldProps) {
+  const updateLine = (index: number, changes: Partial<SplitDraftLine>) =>
+    onChange(value.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+  const removeLine = (index: number) => onChange(value.filter((_, i) => i !== index));
+
+  const addLine = () => onChange([...value, { category: options[0]?.value ?? '', amount: '' }]);
+
+  // Lines that don't parse yet count as zero in the running total
+  const parsedLines = value.map(line => ({ category: line.category, amount: parseMoney(line.amount) ?? ZERO }));
+  const unassigned = total !== null ? unassignedAmount(parsedLines, total) : null;
+
+  return (
+    <View style={styles.container}>
+      {value.map((line, index) => (
+        <View key={index} style={styles.line}>
+          <View style={styles.pickerContainer}>
+            <Picker
+              selectedValue={line.category}
+              onValueChange={(category) => updateLine(index, { category })}
+              style={styles.picker}
+            >
+              {options.map((option) => (
+                <Picker.Item key={option.value} label={option.label} value={option.value} />
+              ))}
+            </Picker>
+          </View>
+          <TextInput
+            placeholder="0.00"
+            value={line.amount}
+            onChangeText={amount => updateLine(index, { amount })}
+            keyboardType="numeric"
+            style={styles.amountInput}
+            placeholderTextColor="#9CA3AF"
+          />
+          <TouchableOpacity style={styles.removeButton} onPress={() => removeLine(index)}>
+            <Text style={styles.removeButtonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <TouchableOpacity onPress={addLine}>
+        <Text style={styles.linkText}>+ Add line</Text>
+      </TouchableOpacity>
+
+      {unassigned !== null && (
+        <Text style={[styles.remainingText, compareMoney(unassigned, ZERO) !== 0 && styles.errorText]}>
+          {compareMoney(unassigned, ZERO) === 0
+            ? 'Lines add up to the total'
+            : compareMoney(unassigned, ZERO) > 0
+              ? `${formatMoney(unassigned)} left to assign`
+              : `${formatMoney(subtractMoney(ZERO, unassigned))} over the total`}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  line: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  pickerContainer: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  picker: {
+    height: 50,
+    color: '#111827',
+  },
+  amountInput: {
+    width: 100,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#111827',
+    textAlign: 'right',
+  },
+  removeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  removeButtonText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '600',
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3B82F6',
+    marginLeft: 4,
+  },
+  remainingText: {
+    fontSize: 13,
+    color: '#059669',
+    marginLeft: 4,
+  },
+  errorText: {
+    color: '#DC2626',
+  },
+});
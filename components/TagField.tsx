@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { parseTags } from '@/utils/tags';
+
+// How many existing tags to offer while typing
+const MAX_SUGGESTIONS = 6;
+
+type TagFieldProps = {
+  value: string[];
+  onChange: (value: string[]) => void;
+  // Tags already used elsewhere, offered as one-tap additions
+  suggestions: string[];
+};
+
+/**
+ * Tag chips with an input that adds tags on comma or submit.
+ */
+export function TagField({ value, onChange, suggestions }: TagFieldProps) {
+  const [draft, setDraft] = useState('');
+
+  const addTags = (input: string) => {
+    const added = parseTags(input).filter(tag => !value.includes(tag));
+    if (added.length > 0) onChange([...value, ...added]);
+    setDraft('');
+  };
+
+  // A trailing comma finishes the tag being typed
+  const handleChangeText = (text: string) => {
+    if (text.includes(',')) {
+      addTags(text);
+    } else {
+      setDraft(text);
+    }
+  };
+
+  const removeTag = (tag: string) => onChange(value.filter(t => t !== tag));
+
+  const query = draft.trim().replace(/^#+/, '').toLowerCase();
+  const matches = suggestions
+    .filter(tag => !value.includes(tag) && tag.includes(query))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <View style={styles.container}>
+      {value.length > 0 && (
+        <View style={styles.chipRow}>
+          {value.map(tag => (
+            <TouchableOpacity key={tag} style={styles.chip} onPress={() => removeTag(tag)}>
+              <Text style={styles.chipText}>#{tag} ✕</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <TextInput
+        placeholder="Add tags, e.g. trip-lahore, reimbursable"
+        value={draft}
+        onChangeText={handleChangeText}
+        onSubmitEditing={() => addTags(draft)}
+        returnKeyType="done"
+        autoCapitalize="none"
+        autoCorrect={false}
+        style={styles.input}
+        placeholderTextColor="#9CA3AF"
+      />
+
+      {matches.length > 0 && (
+        <View style={styles.chipRow}>
+          {matches.map(tag => (
+            <TouchableOpacity key={tag} style={styles.suggestionChip} onPress={() => addTags(tag)}>
+              <Text style={styles.suggestionText}>+ #{tag}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#EEF2FF',
+    borderWidth: 1,
+    borderColor: '#C7D2FE',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+  suggestionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  suggestionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#111827',
+  },
+});
@@ -0,0 +1,732 @@
+import { Picker } from '@react-native-picker/picker';
+import { ReactNode, useMemo, useState } from 'react';
+import {
+  Alert,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import { useAccounts } from '@/app/context/AccountContext';
+import { CategoryType, useCategories } from '@/app/context/CategoryContext';
+import { CategoryRule, useCategoryRules } from '@/app/context/CategoryRuleContext';
+import { Transaction, useTransactions } from '@/app/context/TransactionContext';
+import { DatePickerField } from '@/components/DatePickerField';
+import { emptyRepeatDraft, parseRepeatDraft, RepeatField, toRepeatDraft } from '@/components/RepeatField';
+import { parseSplitDraft, SplitDraftLine, SplitField, toSplitDraft } from '@/components/SplitField';
+import { TagField } from '@/components/TagField';
+import { accountTypeEmoji, DEFAULT_ACCOUNT_ID } from '@/constants/Accounts';
+import { TRANSFER_CATEGORY } from '@/constants/Categories';
+import { categoryPath, categoryPickerOptions } from '@/utils/categories';
+import { findCategoryRule, suggestCategory } from '@/utils/categoryRules';
+import {
+  combineDateAndTime,
+  formatDate,
+  isTooFarInFuture,
+  MAX_DAYS_AHEAD,
+  toDateInputValue,
+  toTimeInputValue
+} from '@/utils/date';
+import { findDuplicates } from '@/utils/duplicates';
+import { compareMoney, CURRENCY_SYMBOL, formatMoney, Money, parseMoney, toInputValue, ZERO } from '@/utils/money';
+import { buildPayees, Payee, suggestPayees } from '@/utils/payees';
+import { RecurrenceSettings } from '@/utils/recurrence';
+import { allTags } from '@/utils/tags';
+
+export type TransactionFormValues = Omit<Transaction, 'id'>;
+
+type TransactionType = Transaction['type'];
+type TransactionFormProps = {
+  // Pre-fills the form; when given the form edits instead of adds
+  initialValues?: TransactionFormValues;
+  // Rendered above the fields, inside the scroll view
+  header?: ReactNode;
+  // Skips the far-future check, e.g. for scheduled occurrences
+  allowFutureDates?: boolean;
+  // Shows the repeat section, pre-filled from `initialRepeat`
+  allowRepeat?: boolean;
+  initialRepeat?: RecurrenceSettings;
+  // `repeat` is null unless the repeat section is shown and set
+  onSubmit: (values: TransactionFormValues, repeat: RecurrenceSettings | null) => void;
+};
+
+/**
+ * Add/edit form for a single transaction, shared by the add screen and the detail screen.
+ */
+export function TransactionForm({
+  initialValues,
+  header,
+  allowFutureDates = false,
+  allowRepeat = false,
+  initialRepeat,
+  onSubmit
+}: TransactionFormProps) {
+  const isEditing = !!initialValues;
+  const { accounts } = useAccounts();
+  const defaultAccountId = accounts[0]?.id ?? DEFAULT_ACCOUNT_ID;
+  const { categories } = useCategories();
+  const { transactions } = useTransactions();
+  const payees = useMemo(() => buildPayees(transactions), [transactions]);
+  const { categoryRules } = useCategoryRules();
+  const firstCategory = (categoryType: CategoryType) => categoryPickerOptions(categories, categoryType)[0]?.value ?? '';
+
+  const [title, setTitle] = useState(initialValues?.title ?? '');
+  const [amount, setAmount] = useState(initialValues ? toInputValue(initialValues.amount) : '');
+  const [type, setType] = useState<TransactionType>(initialValues?.type ?? 'expense');
+  const [category, setCategory] = useState(initialValues?.category ?? firstCategory('expense'));
+  const [accountId, setAccountId] = useState(initialValues?.accountId ?? defaultAccountId);
+  const [toAccountId, setToAccountId] = useState(
+    initialValues?.toAccountId ?? accounts.find(a => a.id !== accountId)?.id ?? defaultAccountId
+  );
+  const [day, setDay] = useState(toDateInputValue(initialValues?.date ?? new Date().toISOString()));
+  const [time, setTime] = useState(toTimeInputValue(initialValues?.date ?? new Date().toISOString()));
+  const [repeat, setRepeat] = useState(initialRepeat ? toRepeatDraft(initialRepeat) : emptyRepeatDraft);
+  // Empty unless the transaction is split across categories
+  const [splitLines, setSplitLines] = useState<SplitDraftLine[]>(
+    initialValues?.splits ? toSplitDraft(initialValues.splits) : []
+  );
+  const [tags, setTags] = useState<string[]>(initialValues?.tags ?? []);
+  const [notes, setNotes] = useState(initialValues?.notes ?? '');
+  // Rules only fill in the category until one is chosen by hand; edits start chosen
+  const [categoryChosen, setCategoryChosen] = useState(isEditing);
+  const [appliedRule, setAppliedRule] = useState<CategoryRule | null>(null);
+
+  const changeType = (nextType: TransactionType) => {
+    setType(nextType);
+    setCategoryChosen(true);
+    setAppliedRule(null);
+    setCategory(nextType === 'transfer' ? TRANSFER_CATEGORY : firstCategory(nextType));
+    // Categories differ per type, so a split doesn't carry over
+    setSplitLines([]);
+  };
+
+  const pickCategory = (value: string) => {
+    setCategory(value);
+    setCategoryChosen(true);
+    setAppliedRule(null);
+  };
+
+  // Re-checks the rules whenever the title, amount or account changes
+  const applyRules = (changes: { title?: string; amount?: string; accountId?: string }) => {
+    if (categoryChosen || type === 'transfer') return;
+    const rule = findCategoryRule(categoryRules, {
+      title: changes.title ?? title,
+      amount: parseMoney(changes.amount ?? amount) ?? ZERO,
+      accountId: changes.accountId ?? accountId,
+    }) ?? null;
+    setAppliedRule(rule);
+    if (rule?.category && rule.type) {
+      setType(rule.type);
+      setCategory(rule.category);
+      setSplitLines([]);
+    }
+  };
+
+  const changeTitle = (value: string) => {
+    setTitle(value);
+    applyRules({ title: value });
+  };
+
+  const changeAmount = (value: string) => {
+    setAmount(value);
+    applyRules({ amount: value });
+  };
+
+  const changeAccount = (value: string) => {
+    setAccountId(value);
+    applyRules({ accountId: value });
+  };
+
+  // Keeps the edited transaction's category listed even if it has since been archived
+  const categoryOptions = type === 'transfer' ? [] : categoryPickerOptions(categories, type, initialValues?.category);
+
+  // Starting a split keeps the current category and amount as the first line
+  const toggleSplit = () => {
+    setCategoryChosen(true);
+    setAppliedRule(null);
+    if (splitLines.length > 0 || type === 'transfer') {
+      setSplitLines([]);
+      return;
+    }
+    const other = categoryOptions.find(option => option.value !== category);
+    setSplitLines([
+      { category, amount },
+      { category: other?.value ?? category, amount: '' },
+    ]);
+  };
+
+  // Fills in what was used last time; an amount already typed is kept
+  const choosePayee = (payee: Payee) => {
+    setTitle(payee.name);
+    setType(payee.type);
+    setSplitLines([]);
+    const known = categoryPickerOptions(categories, payee.type).some(option => option.value === payee.category);
+    setCategory(known ? payee.category : firstCategory(payee.type));
+    setCategoryChosen(true);
+    setAppliedRule(null);
+    if (accounts.some(account => account.id === payee.accountId)) setAccountId(payee.accountId);
+    if (!amount.trim()) setAmount(toInputValue(payee.amount));
+  };
+
+  // Learned from history; offered until a category is chosen or a rule has set one
+  const learned = useMemo(
+    () => (type === 'transfer' || !title.trim() ? null : suggestCategory(transactions, title, type)),
+    [transactions, title, type]
+  );
+  const suggestion = !categoryChosen && !appliedRule?.category && splitLines.length === 0 &&
+    learned && learned.category !== category &&
+    categoryOptions.some(option => option.value === learned.category)
+    ? learned
+    : null;
+
+  // Nothing to suggest for transfers, or before an edited title has been touched
+  const payeeSuggestions = type === 'transfer' || title === initialValues?.title ? [] : suggestPayees(payees, title);
+
+  // Only new entries are checked; an edit can't create a second copy
+  const duplicate = useMemo(() => {
+    const parsedAmount = parseMoney(amount);
+    const date = combineDateAndTime(day, time);
+    if (isEditing || !title.trim() || parsedAmount === null || !date) return null;
+    const candidate = { id: '', title, amount: parsedAmount, category, type, date, accountId, toAccountId };
+    return findDuplicates(candidate, transactions)[0] ?? null;
+  }, [isEditing, title, amount, day, time, category, type, accountId, toAccountId, transactions]);
+
+  const handleSubmit = () => {
+    if (!title.trim()) {
+      Alert.alert('Error', 'Please enter a title');
+      return;
+    }
+    const parsedAmount = parseMoney(amount);
+    if (parsedAmount === null || compareMoney(parsedAmount, ZERO) <= 0) {
+      Alert.alert('Error', 'Please enter a valid amount');
+      return;
+    }
+    const parsedSplits = type === 'transfer' ? { splits: undefined } : parseSplitDraft(splitLines, parsedAmount);
+    if (parsedSplits.error !== undefined) {
+      Alert.alert('Error', parsedSplits.error);
+      return;
+    }
+    if (type === 'transfer' && toAccountId === accountId) {
+      Alert.alert('Error', 'Choose two different accounts to transfer between');
+      return;
+    }
+    const date = combineDateAndTime(day, time);
+    if (!date) {
+      Alert.alert('Error', 'Please enter a valid date (YYYY-MM-DD) and time (HH:MM)');
+      return;
+    }
+    const parsedRepeat = allowRepeat ? parseRepeatDraft(repeat) : { settings: null };
+    if (parsedRepeat.error !== undefined) {
+      Alert.alert('Error', parsedRepeat.error);
+      return;
+    }
+    // A repeating series may legitimately start well ahead of today
+    if (!allowFutureDates && !parsedRepeat.settings && isTooFarInFuture(date)) {
+      Alert.alert('Error', `Date can't be more than ${MAX_DAYS_AHEAD} days in the future`);
+      return;
+    }
+
+    if (duplicate) {
+      Alert.alert(
+        'Possible Duplicate',
+        `"${duplicate.title}" for ${formatMoney(duplicate.amount)} was already entered on ` +
+          `${formatDate(duplicate.date)}. Add this one as well?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Add Anyway', onPress: () => save(parsedAmount, parsedSplits.splits, date, parsedRepeat.settings) },
+        ]
+      );
+      return;
+    }
+    save(parsedAmount, parsedSplits.splits, date, parsedRepeat.settings);
+  };
+
+  const save = (
+    parsedAmount: Money,
+    splits: Transaction['splits'],
+    date: string,
+    repeatSettings: RecurrenceSettings | null
+  ) => {
+    // Tags from the matching rule are added on top of any typed by hand
+    const mergedTags = [...new Set([...tags, ...(appliedRule?.tags ?? [])])];
+
+    onSubmit({
+      title: title.trim(),
+      amount: parsedAmount,
+      category: splits ? splits[0].category : category,
+      type,
+      date,
+      accountId,
+      // Cleared explicitly so an edited transfer that becomes an expense loses it
+      toAccountId: type === 'transfer' ? toAccountId : undefined,
+      splits,
+      // Empty values are stored as absent so cleared fields drop off on edit
+      tags: mergedTags.length > 0 ? mergedTags : undefined,
+      notes: notes.trim() || undefined,
+    }, repeatSettings);
+
+    if (!isEditing) {
+      setTitle('');
+      setAmount('');
+      changeType('expense');
+      setDay(toDateInputValue(new Date().toISOString()));
+      setTime(toTimeInputValue(new Date().toISOString()));
+      setRepeat(emptyRepeatDraft);
+      setSplitLines([]);
+      setTags([]);
+      setNotes('');
+      setCategoryChosen(false);
+      setAppliedRule(null);
+    }
+  };
+
+  const typeLabel = { income: 'Income', expense: 'Expense', transfer: 'Transfer' }[type];
+  const accountItems = accounts.map((account) => (
+    <Picker.Item
+      key={account.id}
+      label={`${accountTypeEmoji(account.type)} ${account.name}`}
+      value={account.id}
+    />
+  ));
+
+  return (
+    <>
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        style={styles.scrollContainer}
+        // Lets a payee suggestion be tapped while the keyboard is up
+        keyboardShouldPersistTaps="handled"
+      >
+        {header}
+
+        {/* Form */}
+        <View style={styles.formContainer}>
+          {/* Transaction Type Toggle */}
+          <View style={styles.typeContainer}>
+            <TouchableOpacity
+              style={[
+                styles.typeButton,
+                styles.expenseButton,
+                type === 'expense' && styles.activeExpenseButton
+              ]}
+              onPress={() => changeType('expense')}
+            >
+              <Text style={[
+                styles.typeButtonText,
+                type === 'expense' && styles.activeTypeButtonText
+              ]}>
+                💸 Expense
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[
+                styles.typeButton,
+                styles.incomeButton,
+                type === 'income' && styles.activeIncomeButton
+              ]}
+              onPress={() => changeType('income')}
+            >
+              <Text style={[
+                styles.typeButtonText,
+                type === 'income' && styles.activeTypeButtonText
+              ]}>
+                💰 Income
+              </Text>
+            </TouchableOpacity>
+
+            {accounts.length > 1 && (
+              <TouchableOpacity
+                style={[
+                  styles.typeButton,
+                  styles.transferButton,
+                  type === 'transfer' && styles.activeTransferButton
+                ]}
+                onPress={() => changeType('transfer')}
+              >
+                <Text style={[
+                  styles.typeButtonText,
+                  type === 'transfer' && styles.activeTypeButtonText
+                ]}>
+                  ⇄ Transfer
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {/* Amount Input */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Amount</Text>
+            <View style={styles.amountInputContainer}>
+              <Text style={styles.currencySymbol}>{CURRENCY_SYMBOL}</Text>
+              <TextInput
+                placeholder="0.00"
+                value={amount}
+                onChangeText={changeAmount}
+                keyboardType="numeric"
+                style={styles.amountInput}
+                placeholderTextColor="#9CA3AF"
+              />
+            </View>
+          </View>
+
+          {/* Title Input */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Description</Text>
+            <TextInput
+              placeholder="Enter description"
+              value={title}
+              onChangeText={changeTitle}
+              style={styles.input}
+              placeholderTextColor="#9CA3AF"
+            />
+            {payeeSuggestions.map(payee => (
+              <TouchableOpacity
+                key={payee.key}
+                style={styles.suggestion}
+                onPress={() => choosePayee(payee)}
+              >
+                <Text style={styles.suggestionName}>{payee.name}</Text>
+                <Text style={styles.suggestionDetail}>
+                  {categoryPath(categories, payee.category)} · {formatMoney(payee.amount)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {/* Category Picker, or split lines */}
+          {type !== 'transfer' && (
+            <View style={styles.inputGroup}>
+              <View style={styles.labelRow}>
+                <Text style={styles.label}>{splitLines.length > 0 ? 'Split' : 'Category'}</Text>
+                <TouchableOpacity onPress={toggleSplit}>
+                  <Text style={styles.linkText}>
+                    {splitLines.length > 0 ? 'Use one category' : 'Split across categories'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+              {splitLines.length > 0 ? (
+                <SplitField
+                  value={splitLines}
+                  onChange={setSplitLines}
+                  options={categoryOptions}
+                  total={parseMoney(amount)}
+                />
+              ) : (
+                <View style={styles.pickerContainer}>
+                  <Picker
+                    selectedValue={category}
+                    onValueChange={pickCategory}
+                    style={styles.picker}
+                  >
+                    {categoryOptions.map((option) => (
+                      <Picker.Item
+                        key={option.value}
+                        label={option.label}
+                        value={option.value}
+                      />
+                    ))}
+                  </Picker>
+                </View>
+              )}
+              {appliedRule && (
+                <Text style={styles.hintText}>
+                  ⚡ Filled in by rule &quot;{appliedRule.name || appliedRule.titlePattern}&quot;
+                  {appliedRule.tags?.length ? ` · adds ${appliedRule.tags.map(tag => `#${tag}`).join(' ')}` : ''}
+                </Text>
+              )}
+              {suggestion && (
+                <TouchableOpacity onPress={() => pickCategory(suggestion.category)}>
+                  <Text style={styles.hintText}>
+                    💡 Similar titles usually go under {categoryPath(categories, suggestion.category)}
+                    {' '}({suggestion.count}×) · <Text style={styles.linkText}>Use</Text>
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          {/* Account Picker */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>{type === 'transfer' ? 'From Account' : 'Account'}</Text>
+            <View style={styles.pickerContainer}>
+              <Picker
+                selectedValue={accountId}
+                onValueChange={changeAccount}
+                style={styles.picker}
+              >
+                {accountItems}
+              </Picker>
+            </View>
+          </View>
+
+          {type === 'transfer' && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>To Account</Text>
+              <View style={styles.pickerContainer}>
+                <Picker
+                  selectedValue={toAccountId}
+                  onValueChange={(value) => setToAccountId(value)}
+                  style={styles.picker}
+                >
+                  {accountItems}
+                </Picker>
+              </View>
+            </View>
+          )}
+
+          {/* Date Input */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Date</Text>
+            <DatePickerField day={day} time={time} onChangeDay={setDay} onChangeTime={setTime} />
+          </View>
+
+          {/* Tags */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Tags</Text>
+            <TagField value={tags} onChange={setTags} suggestions={allTags(transactions)} />
+          </View>
+
+          {/* Notes */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Notes</Text>
+            <TextInput
+              placeholder="Anything worth remembering"
+              value={notes}
+              onChangeText={setNotes}
+              multiline
+              style={[styles.input, styles.notesInput]}
+              placeholderTextColor="#9CA3AF"
+            />
+          </View>
+
+          {/* Repeat */}
+          {allowRepeat && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Repeat</Text>
+              <RepeatField value={repeat} onChange={setRepeat} />
+            </View>
+          )}
+        </View>
+      </ScrollView>
+
+      {/* Bottom Button */}
+      <View style={styles.bottomContainer}>
+        {duplicate && (
+          <Text style={styles.duplicateText}>
+            ⚠️ Looks like &quot;{duplicate.title}&quot; for {formatMoney(duplicate.amount)} on{' '}
+            {formatDate(duplicate.date)}, already entered
+          </Text>
+        )}
+        <TouchableOpacity
+          style={[
+            styles.submitButton,
+            {
+              income: styles.incomeSubmitButton,
+              expense: styles.expenseSubmitButton,
+              transfer: styles.transferSubmitButton,
+            }[type]
+          ]}
+          onPress={handleSubmit}
+        >
+          <Text style={styles.submitButtonText}>
+            {isEditing ? 'Save Changes' : `Add ${typeLabel}`}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  scrollContainer: {
+    flex: 1,
+  },
+  formContainer: {
+    padding: 20,
+    gap: 24,
+  },
+  typeContainer: {
+    flexDirection: 'row',
+    backgroundColor: '#F3F4F6',
+    borderRadius: 12,
+    padding: 4,
+    gap: 4,
+  },
+  typeButton: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  expenseButton: {
+    backgroundColor: 'transparent',
+  },
+  incomeButton: {
+    backgroundColor: 'transparent',
+  },
+  activeExpenseButton: {
+    backgroundColor: '#FEE2E2',
+    borderWidth: 1,
+    borderColor: '#FECACA',
+  },
+  activeIncomeButton: {
+    backgroundColor: '#DCFCE7',
+    borderWidth: 1,
+    borderColor: '#BBF7D0',
+  },
+  transferButton: {
+    backgroundColor: 'transparent',
+  },
+  activeTransferButton: {
+    backgroundColor: '#DBEAFE',
+    borderWidth: 1,
+    borderColor: '#BFDBFE',
+  },
+  typeButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  activeTypeButtonText: {
+    color: '#374151',
+  },
+  inputGroup: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginLeft: 4,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#111827',
+  },
+  duplicateText: {
+    fontSize: 13,
+    color: '#B45309',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginLeft: 4,
+  },
+  suggestion: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#F9FAFB',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  suggestionName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    flexShrink: 1,
+  },
+  suggestionDetail: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginLeft: 8,
+  },
+  notesInput: {
+    minHeight: 88,
+    textAlignVertical: 'top',
+  },
+  amountInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+  },
+  currencySymbol: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginRight: 8,
+  },
+  amountInput: {
+    flex: 1,
+    paddingVertical: 14,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  pickerContainer: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  picker: {
+    height: 50,
+    color: '#111827',
+  },
+  bottomContainer: {
+    padding: 20,
+    paddingBottom: Platform.OS === 'ios' ? 34 : 20,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  submitButton: {
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 3.84,
+    elevation: 5,
+  },
+  expenseSubmitButton: {
+    backgroundColor: '#EF4444',
+  },
+  incomeSubmitButton: {
+    backgroundColor: '#10B981',
+  },
+  transferSubmitButton: {
+    backgroundColor: '#3B82F6',
+  },
+  submitButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import { WrongPassphraseError } from '@/storage/encryption';
+
+interface UnlockScreenProps {
+  onUnlock: (passphrase: string) => Promise<void>;
+  onErase: () => Promise<void>;
+}
+
+export function UnlockScreen({ onUnlock, onErase }: UnlockScreenProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = async () => {
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError('');
+    try {
+      await onUnlock(passphrase);
+    } catch (unlockError) {
+      if (!(unlockError instanceof WrongPassphraseError)) console.error('Failed to unlock:', unlockError);
+      setError(unlockError instanceof WrongPassphraseError ? 'Wrong passphrase' : 'Your data could not be unlocked');
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleErase = () => {
+    Alert.alert(
+      'Erase All Data',
+      'Without the passphrase your data cannot be decrypted. Erasing deletes every transaction, account, ' +
+        'budget and goal on this device so you can start again. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Erase Everything',
+          style: 'destructive',
+          onPress: () => {
+            onErase().catch(eraseError => {
+              console.error('Failed to erase data:', eraseError);
+              Alert.alert('Error', 'Could not erase the stored data');
+            });
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : 'height'}>
+      <View style={styles.card}>
+        <Text style={styles.icon}>🔒</Text>
+        <Text style={styles.title}>Your data is locked</Text>
+        <Text style={styles.subtitle}>Enter your passphrase to decrypt it.</Text>
+
+        <TextInput
+          placeholder="Passphrase"
+          value={passphrase}
+          onChangeText={text => {
+            setPassphrase(text);
+            setError('');
+          }}
+          onSubmitEditing={handleUnlock}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+          autoFocus
+          editable={!isUnlocking}
+          style={[styles.input, error !== '' && styles.inputError]}
+          placeholderTextColor="#9CA3AF"
+        />
+        {error !== '' && <Text style={styles.errorText}>{error}</Text>}
+
+        <TouchableOpacity
+          style={[styles.unlockButton, (!passphrase || isUnlocking) && styles.disabledButton]}
+          onPress={handleUnlock}
+          disabled={!passphrase || isUnlocking}
+        >
+          {isUnlocking ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.unlockButtonText}>Unlock</Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity onPress={handleErase} disabled={isUnlocking}>
+          <Text style={styles.forgotText}>Forgot your passphrase?</Text>
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 20,
+    backgroundColor: '#F8FAFC',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  icon: {
+    fontSize: 40,
+    textAlign: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#111827',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1.5,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#111827',
+  },
+  inputError: {
+    borderColor: '#FCA5A5',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#DC2626',
+    marginLeft: 4,
+  },
+  unlockButton: {
+    backgroundColor: '#6366F1',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  unlockButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  forgotText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,17 @@
+import type { AccountType } from '@/app/context/AccountContext';
+
+/**
+ * Kinds of account offered when creating one.
+ */
+export const accountTypeOptions: { label: string; value: AccountType }[] = [
+  { label: '💵 Cash', value: 'cash' },
+  { label: '🏦 Bank', value: 'bank' },
+  { label: '💳 Credit Card', value: 'credit' },
+  { label: '📱 Mobile Wallet', value: 'wallet' },
+];
+
+export const accountTypeEmoji = (type: AccountType) =>
+  accountTypeOptions.find(option => option.value === type)?.label.split(' ')[0] ?? '💵';
+
+// Transactions recorded before accounts existed are assigned to this account
+export const DEFAULT_ACCOUNT_ID = 'cash';
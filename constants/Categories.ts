@@ -0,0 +1,38 @@
+import type { Category } from '@/app/context/CategoryContext';
+
+// Income's "Other" predates ids and shared its name with expenses' "Other"
+export const OTHER_INCOME_CATEGORY_ID = 'OtherIncome';
+
+/**
+ * Categories every install starts with. Their ids are the category names
+ * transactions stored before the registry existed, so old data keeps resolving.
+ */
+export const defaultCategories: Category[] = [
+  { id: 'Food', name: 'Food & Dining', type: 'expense', emoji: '🍔', color: '#F97316', archived: false },
+  { id: 'Transport', name: 'Transportation', type: 'expense', emoji: '🚗', color: '#3B82F6', archived: false },
+  { id: 'Shopping', name: 'Shopping', type: 'expense', emoji: '🛒', color: '#EC4899', archived: false },
+  { id: 'Housing', name: 'Housing', type: 'expense', emoji: '🏠', color: '#8B5CF6', archived: false },
+  { id: 'Utilities', name: 'Utilities', type: 'expense', emoji: '⚡', color: '#EAB308', archived: false },
+  { id: 'Entertainment', name: 'Entertainment', type: 'expense', emoji: '🎯', color: '#14B8A6', archived: false },
+  { id: 'Healthcare', name: 'Healthcare', type: 'expense', emoji: '🏥', color: '#EF4444', archived: false },
+  { id: 'Education', name: 'Education', type: 'expense', emoji: '📚', color: '#6366F1', archived: false },
+  { id: 'Clothing', name: 'Clothing', type: 'expense', emoji: '👕', color: '#A855F7', archived: false },
+  { id: 'Other', name: 'Other', type: 'expense', emoji: '💼', color: '#6B7280', archived: false },
+  { id: 'Salary', name: 'Salary', type: 'income', emoji: '💰', color: '#10B981', archived: false },
+  { id: 'Freelance', name: 'Freelance', type: 'income', emoji: '💼', color: '#0EA5E9', archived: false },
+  { id: 'Investment', name: 'Investment', type: 'income', emoji: '📈', color: '#22C55E', archived: false },
+  { id: 'Gift', name: 'Gift', type: 'income', emoji: '🎁', color: '#F43F5E', archived: false },
+  { id: 'Bonus', name: 'Bonus', type: 'income', emoji: '💸', color: '#84CC16', archived: false },
+  { id: 'Business', name: 'Business', type: 'income', emoji: '🏪', color: '#F59E0B', archived: false },
+  { id: 'Rental', name: 'Rental', type: 'income', emoji: '🏠', color: '#8B5CF6', archived: false },
+  { id: OTHER_INCOME_CATEGORY_ID, name: 'Other', type: 'income', emoji: '💡', color: '#6B7280', archived: false },
+];
+
+// Colours offered when creating or editing a category
+export const categoryColors = [
+  '#EF4444', '#F97316', '#F59E0B', '#EAB308', '#84CC16', '#22C55E', '#10B981', '#14B8A6',
+  '#0EA5E9', '#3B82F6', '#6366F1', '#8B5CF6', '#A855F7', '#EC4899', '#F43F5E', '#6B7280',
+];
+
+// Transfers aren't spending or earning, so they all share one fixed category
+export const TRANSFER_CATEGORY = 'Transfer';
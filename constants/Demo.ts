@@ -0,0 +1,13 @@
+import type { User } from '@/app/context/AuthContext';
+
+/**
+ * Demo builds are opted into with EXPO_PUBLIC_DEMO_MODE=1. Only then are the
+ * accounts below added to the user store, so ordinary installs never ship a
+ * known login.
+ */
+export const DEMO_MODE = process.env.EXPO_PUBLIC_DEMO_MODE === '1';
+
+export const DEMO_USERS: (User & { password: string })[] = [
+  { username: 'user1', role: 'user', password: 'planner-demo-1' },
+  { username: 'admin1', role: 'admin', password: 'planner-admin-1' },
+];
@@ -0,0 +1,131 @@
+import { Dispatch, SetStateAction, useCallback, useEffect, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import { StorageAdapter } from '@/storage/adapters';
+import {
+  CollectionSchema,
+  CorruptStorageError,
+  loadCollection,
+  NewerVersionError,
+  saveCollection
+} from '@/storage/collection';
+
+interface PersistOptions {
+  // Human readable name used in error alerts, e.g. "transactions"
+  label: string;
+  // Batch rapid changes into a single write; 0 writes on every change
+  debounceMs?: number;
+}
+
+// `writable` is false when stored data couldn't be loaded but is still in place,
+// so saving the initial value would overwrite it
+const load = async <T>(storage: StorageAdapter, schema: CollectionSchema<T>, label: string) => {
+  try {
+    return { stored: await loadCollection(storage, schema), writable: true };
+  } catch (error) {
+    console.error(`Error loading ${label}:`, error);
+    Alert.alert(
+      'Error',
+      error instanceof CorruptStorageError
+        ? `Stored ${label} could not be read and were set aside. Starting fresh.`
+        : error instanceof NewerVersionError
+          ? `Stored ${label} were saved by a newer version of the app. Update the app to use them; ` +
+            'changes made now will not be saved.'
+          : `Failed to load ${label} from storage. Changes made now will not be saved.`
+    );
+    return { stored: null, writable: error instanceof CorruptStorageError };
+  }
+};
+
+const save = async <T>(storage: StorageAdapter, schema: CollectionSchema<T>, data: T, label: string) => {
+  try {
+    await saveCollection(storage, schema, data);
+    return true;
+  } catch (error) {
+    console.error(`Error saving ${label}:`, error);
+    Alert.alert('Error', `Failed to save ${label} to storage`);
+    return false;
+  }
+};
+
+/**
+ * State that is hydrated from a storage collection on mount and written back on change.
+ * Nothing is written until hydration finishes, so an empty initial value never
+ * overwrites stored data. If stored data couldn't be loaded and wasn't set
+ * aside, nothing is written at all.
+ *
+ * The fourth element writes right away instead of waiting on the debounce,
+ * including updates made just before it in the same tick, and resolves to
+ * whether the write succeeded.
+ */
+export function usePersistedCollection<T>(
+  storage: StorageAdapter,
+  schema: CollectionSchema<T>,
+  initialValue: T,
+  { label, debounceMs = 0 }: PersistOptions
+): [T, Dispatch<SetStateAction<T>>, boolean, () => Promise<boolean>] {
+  const [value, setValue] = useState<T>(initialValue);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isReadOnly, setIsReadOnly] = useState(false);
+  const pendingSave = useRef<{ data: T } | null>(null);
+  const flushWaiters = useRef<((saved: boolean) => void)[]>([]);
+  const [flushRequest, setFlushRequest] = useState(0);
+
+  // Re-renders so the save below runs with every update queued before the call
+  const flush = useCallback(
+    () =>
+      new Promise<boolean>(resolve => {
+        flushWaiters.current.push(resolve);
+        setFlushRequest(count => count + 1);
+      }),
+    []
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    load(storage, schema, label).then(({ stored, writable }) => {
+      if (cancelled) return;
+      if (stored != null) setValue(stored);
+      setIsReadOnly(!writable);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [storage, schema, label]);
+
+  useEffect(() => {
+    if (isLoading) return;
+    if (isReadOnly) {
+      flushWaiters.current.splice(0).forEach(resolve => resolve(false));
+      return;
+    }
+
+    const waiting = flushWaiters.current.splice(0);
+    let started = false;
+    pendingSave.current = { data: value };
+    const timeout = setTimeout(() => {
+      started = true;
+      pendingSave.current = null;
+      save(storage, schema, value, label).then(saved => waiting.forEach(resolve => resolve(saved)));
+    }, waiting.length > 0 ? 0 : debounceMs);
+
+    return () => {
+      clearTimeout(timeout);
+      // Superseded before writing; the next run writes the newer value for them
+      if (!started) flushWaiters.current.push(...waiting);
+    };
+  }, [value, isLoading, isReadOnly, storage, schema, label, debounceMs, flushRequest]);
+
+  // Flush a write that was still waiting on the debounce when the provider goes away
+  useEffect(() => {
+    return () => {
+      if (pendingSave.current) {
+        save(storage, schema, pendingSave.current.data, label);
+        pendingSave.current = null;
+      }
+    };
+  }, [storage, schema, label]);
+
+  return [value, setValue, isLoading, flush];
+}
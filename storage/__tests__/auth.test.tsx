@@ -0,0 +1,94 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { ReactNode } from 'react';
+import { AuthProvider, useAuth } from '../../app/context/AuthContext';
+import { createMemoryStorageAdapter, StorageAdapter } from '../adapters';
+import { loadCollection } from '../collection';
+import { usersSchema } from '../schemas';
+
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: (length: number) => new Uint8Array(require('crypto').randomBytes(length)),
+}));
+
+const PASSWORD = 'tiger stripes 42';
+
+const render = async (storage: StorageAdapter) => {
+  const wrapper = ({ children }: { children: ReactNode }) => <AuthProvider storage={storage}>{children}</AuthProvider>;
+  const rendered = renderHook(() => useAuth(), { wrapper });
+  await waitFor(() => expect(rendered.result.current.isLoading).toBe(false));
+  return rendered;
+};
+
+const storedAccounts = async (storage: StorageAdapter) =>
+  ((await loadCollection(storage, usersSchema)) ?? []).map(({ username, role }) => ({ username, role }));
+
+describe('AuthProvider', () => {
+  it('makes the first account the admin and later ones users', async () => {
+    const storage = createMemoryStorageAdapter();
+    const { result } = await render(storage);
+
+    const first = await act(() => result.current.register('alice', PASSWORD));
+    expect(first).toEqual({ success: true, user: { username: 'alice', role: 'admin' } });
+    expect(result.current.user).toEqual({ username: 'alice', role: 'admin' });
+
+    const second = await act(() => result.current.register('bob', PASSWORD));
+    expect(second.user).toEqual({ username: 'bob', role: 'user' });
+
+    await waitFor(async () =>
+      expect(await storedAccounts(storage)).toEqual([
+        { username: 'alice', role: 'admin' },
+        { username: 'bob', role: 'user' },
+      ])
+    );
+  });
+
+  it('rejects a username that is already taken, ignoring case and spaces', async () => {
+    const { result } = await render(createMemoryStorageAdapter());
+    await act(() => result.current.register('alice', PASSWORD));
+
+    expect(await act(() => result.current.register(' ALICE ', PASSWORD))).toEqual({
+      success: false,
+      message: 'That username is already taken',
+    });
+  });
+
+  it('runs registrations one at a time so only one of them can take a username or become admin', async () => {
+    const storage = createMemoryStorageAdapter();
+    const { result } = await render(storage);
+
+    const results = await act(() =>
+      Promise.all([
+        result.current.register('alice', PASSWORD),
+        result.current.register('alice', PASSWORD),
+        result.current.register('bob', PASSWORD),
+      ])
+    );
+
+    expect(results.map(({ success, user }) => success && user)).toEqual([
+      { username: 'alice', role: 'admin' },
+      false,
+      { username: 'bob', role: 'user' },
+    ]);
+    expect(results[1].message).toBe('That username is already taken');
+    await waitFor(async () => expect(await storedAccounts(storage)).toHaveLength(2));
+  });
+
+  it('logs in to a saved account after a reload and never stores the password', async () => {
+    const storage = createMemoryStorageAdapter();
+    const before = await render(storage);
+    await act(() => before.result.current.register('alice', PASSWORD));
+    await waitFor(async () => expect(await storedAccounts(storage)).toHaveLength(1));
+    before.unmount();
+
+    expect(JSON.stringify(await loadCollection(storage, usersSchema))).not.toContain(PASSWORD);
+
+    const { result } = await render(storage);
+    expect(await act(() => result.current.login('Alice', 'wrong password 1'))).toEqual({
+      success: false,
+      message: 'Invalid credentials',
+    });
+    expect(await act(() => result.current.login('Alice', PASSWORD))).toEqual({
+      success: true,
+      user: { username: 'alice', role: 'admin' },
+    });
+  });
+});
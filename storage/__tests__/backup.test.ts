@@ -0,0 +1,110 @@
+import type { Budget, BudgetMove } from '../../app/context/BudgetContext';
+import type { Category } from '../../app/context/CategoryContext';
+import { Money } from '../../utils/money';
+import { BackupData, createBackup, InvalidBackupError, mergeBackup, parseBackup, serializeBackup } from '../backup';
+
+const category = (id: string): Category => ({
+  id,
+  name: id,
+  type: 'expense',
+  emoji: '💡',
+  color: '#6B7280',
+  archived: false,
+});
+
+const budget = (id: string, categoryId: string): Budget => ({
+  id,
+  category: categoryId,
+  limits: [{ from: '2025-01', limit: 10000 as Money }],
+  rollover: false,
+});
+
+const move = (id: string, fromBudgetId?: string, toBudgetId?: string): BudgetMove => ({
+  id,
+  month: '2025-04',
+  amount: 500 as Money,
+  fromBudgetId,
+  toBudgetId,
+});
+
+const data = (changes: Partial<BackupData> = {}): BackupData => ({
+  transactions: [],
+  savingsGoals: [],
+  recurringRules: [],
+  budgets: [],
+  budgetMoves: [],
+  accounts: [],
+  categories: [],
+  categoryRules: [],
+  ...changes,
+});
+
+describe('parseBackup', () => {
+  it('reads back what createBackup wrote', () => {
+    const original = data({ categories: [category('food')], budgets: [budget('b1', 'food')] });
+    const backup = createBackup(original, new Date('2025-04-03T10:00:00Z'));
+
+    expect(parseBackup(serializeBackup(backup))).toEqual({ createdAt: '2025-04-03T10:00:00.000Z', data: original });
+  });
+
+  it.each([
+    ['not JSON', '{', 'not valid JSON'],
+    ['a bare value', '42', 'not a Badged Planner backup'],
+    ['collections that are not an object', '{"format":"badged-planner-backup","collections":"x"}', 'not a Badged'],
+  ])('rejects %s', (_, text, message) => {
+    expect(() => parseBackup(text)).toThrow(InvalidBackupError);
+    expect(() => parseBackup(text)).toThrow(message);
+  });
+
+  it('rejects a file whose checksum no longer matches', () => {
+    const backup = createBackup(data({ categories: [category('food')] }));
+    const edited = serializeBackup(backup).replace('"name":"food"', '"name":"fun"');
+
+    expect(() => parseBackup(edited)).toThrow('checksum does not match');
+  });
+});
+
+describe('mergeBackup', () => {
+  it('keeps the current budget for a category and moves incoming moves onto it', () => {
+    const current = data({ categories: [category('food')], budgets: [budget('current-food', 'food')] });
+    const incoming = data({
+      categories: [category('food')],
+      budgets: [budget('old-food', 'food')],
+      budgetMoves: [move('m1', undefined, 'old-food')],
+    });
+
+    const merged = mergeBackup(current, incoming);
+    expect(merged.budgets).toEqual([budget('current-food', 'food')]);
+    expect(merged.budgetMoves).toEqual([move('m1', undefined, 'current-food')]);
+  });
+
+  it('drops moves that point at budgets that are not in either set', () => {
+    const incoming = data({
+      categories: [category('food')],
+      budgets: [budget('food-budget', 'food'), budget('orphan', 'missing-category')],
+      budgetMoves: [
+        move('kept', 'food-budget', undefined),
+        move('unknown', 'food-budget', 'never-existed'),
+        move('orphaned', 'orphan', 'food-budget'),
+      ],
+    });
+
+    const merged = mergeBackup(data(), incoming);
+    expect(merged.budgets).toEqual([budget('food-budget', 'food')]);
+    expect(merged.budgetMoves.map(m => m.id)).toEqual(['kept']);
+  });
+
+  it('drops moves that end up inside a single budget', () => {
+    const current = data({
+      categories: [category('food')],
+      budgets: [budget('current-food', 'food')],
+    });
+    const incoming = data({
+      categories: [category('food')],
+      budgets: [budget('old-food', 'food')],
+      budgetMoves: [move('m1', 'old-food', 'current-food')],
+    });
+
+    expect(mergeBackup(current, incoming).budgetMoves).toEqual([]);
+  });
+});
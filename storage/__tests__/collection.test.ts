@@ -0,0 +1,131 @@
+import { createMemoryStorageAdapter } from '../adapters';
+import {
+  backupKey,
+  CollectionSchema,
+  corruptKey,
+  CorruptStorageError,
+  isRecord,
+  loadCollection,
+  migrateEach,
+  NewerVersionError
+} from '../collection';
+
+interface Note {
+  text: string;
+  pinned: boolean;
+}
+
+const schema: CollectionSchema<Note[]> = {
+  key: '@notes',
+  version: 2,
+  migrations: {
+    1: data => {
+      if (!Array.isArray(data)) throw new Error('Stored notes are not a list');
+      return data.map((text: unknown) => ({ text }));
+    },
+    2: data => migrateEach(data, 'notes', note => ({ ...note, pinned: false })),
+  },
+  validate: data => {
+    const isNote = (note: unknown): note is Note => isRecord(note) && typeof note.text === 'string';
+    if (!Array.isArray(data) || !data.every(isNote)) {
+      throw new Error('Stored notes are malformed');
+    }
+    return data;
+  },
+};
+
+const envelope = (version: number, data: unknown) => JSON.stringify({ version, data });
+
+describe('loadCollection', () => {
+  it('returns null when nothing is stored', async () => {
+    expect(await loadCollection(createMemoryStorageAdapter(), schema)).toBeNull();
+  });
+
+  it('returns current data without rewriting it', async () => {
+    const raw = envelope(2, [{ text: 'a', pinned: true }]);
+    const storage = createMemoryStorageAdapter({ '@notes': raw });
+    const setItem = jest.spyOn(storage, 'setItem');
+
+    expect(await loadCollection(storage, schema)).toEqual([{ text: 'a', pinned: true }]);
+    expect(setItem).not.toHaveBeenCalled();
+  });
+
+  it('migrates unversioned data, saves it and clears the backup', async () => {
+    const storage = createMemoryStorageAdapter({ '@notes': JSON.stringify(['a', 'b']) });
+
+    const expected = [{ text: 'a', pinned: false }, { text: 'b', pinned: false }];
+    expect(await loadCollection(storage, schema)).toEqual(expected);
+    expect(await storage.getItem('@notes')).toBe(envelope(2, expected));
+    expect(await storage.getItem(backupKey('@notes'))).toBeNull();
+  });
+
+  it('resumes from the backup key left by an interrupted migration', async () => {
+    // The app stopped after writing the backup and a half-finished main key
+    const storage = createMemoryStorageAdapter({
+      '@notes': 'half written',
+      [backupKey('@notes')]: envelope(1, [{ text: 'kept' }]),
+    });
+
+    expect(await loadCollection(storage, schema)).toEqual([{ text: 'kept', pinned: false }]);
+    expect(await storage.getItem('@notes')).toBe(envelope(2, [{ text: 'kept', pinned: false }]));
+    expect(await storage.getItem(backupKey('@notes'))).toBeNull();
+  });
+
+  it('revalidates a backup that is already at the current version', async () => {
+    const storage = createMemoryStorageAdapter({
+      [backupKey('@notes')]: envelope(2, [{ text: 'a', pinned: true }]),
+    });
+
+    expect(await loadCollection(storage, schema)).toEqual([{ text: 'a', pinned: true }]);
+    expect(await storage.getItem(backupKey('@notes'))).toBeNull();
+  });
+
+  it('sets aside data that is not JSON', async () => {
+    const storage = createMemoryStorageAdapter({ '@notes': '{not json' });
+
+    await expect(loadCollection(storage, schema)).rejects.toBeInstanceOf(CorruptStorageError);
+    expect(await storage.getItem(corruptKey('@notes'))).toBe('{not json');
+    expect(await storage.getItem('@notes')).toBeNull();
+  });
+
+  it('sets aside current data that fails validation', async () => {
+    const raw = envelope(2, [{ text: 42 }]);
+    const storage = createMemoryStorageAdapter({ '@notes': raw });
+
+    await expect(loadCollection(storage, schema)).rejects.toBeInstanceOf(CorruptStorageError);
+    expect(await storage.getItem(corruptKey('@notes'))).toBe(raw);
+    expect(await storage.getItem('@notes')).toBeNull();
+  });
+
+  it('sets aside data a migration cannot handle, along with its backup', async () => {
+    const raw = JSON.stringify({ not: 'a list' });
+    const storage = createMemoryStorageAdapter({ '@notes': raw });
+
+    await expect(loadCollection(storage, schema)).rejects.toBeInstanceOf(CorruptStorageError);
+    expect(await storage.getItem(corruptKey('@notes'))).toBe(raw);
+    expect(await storage.getItem('@notes')).toBeNull();
+    expect(await storage.getItem(backupKey('@notes'))).toBeNull();
+  });
+
+  it('leaves data from a newer version in place', async () => {
+    const raw = envelope(3, [{ text: 'from the future' }]);
+    const backup = envelope(3, [{ text: 'backup' }]);
+    const storage = createMemoryStorageAdapter({ '@notes': raw });
+
+    await expect(loadCollection(storage, schema)).rejects.toBeInstanceOf(NewerVersionError);
+    expect(await storage.getItem('@notes')).toBe(raw);
+    expect(await storage.getItem(corruptKey('@notes'))).toBeNull();
+
+    await storage.setItem(backupKey('@notes'), backup);
+    await expect(loadCollection(storage, schema)).rejects.toBeInstanceOf(NewerVersionError);
+    expect(await storage.getItem('@notes')).toBe(raw);
+    expect(await storage.getItem(backupKey('@notes'))).toBe(backup);
+  });
+
+  it('reports a missing migration step as corrupt data', async () => {
+    const storage = createMemoryStorageAdapter({ '@notes': envelope(1, [{ text: 'a' }]) });
+    const gappy = { ...schema, migrations: { 1: schema.migrations[1] } };
+
+    await expect(loadCollection(storage, gappy)).rejects.toThrow('Missing migration to version 2');
+  });
+});
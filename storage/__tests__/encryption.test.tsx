@@ -0,0 +1,156 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { ReactNode } from 'react';
+import { EncryptionProvider, useEncryption } from '../../app/context/EncryptionContext';
+import { createMemoryStorageAdapter, StorageAdapter } from '../adapters';
+import {
+  createEncryptedStorageAdapter,
+  createKeyring,
+  decryptValue,
+  DecryptionError,
+  encryptValue,
+  ENCRYPTION_META_KEY,
+  loadEncryptionMeta,
+  openWithPassphrase,
+  sealWithPassphrase,
+  unlockKeyring,
+  wrapKeyring,
+  WrongPassphraseError
+} from '../encryption';
+
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: (length: number) => new Uint8Array(require('crypto').randomBytes(length)),
+}));
+
+// scrypt at the real cost takes a moment per passphrase
+jest.setTimeout(60000);
+
+const TRANSACTIONS = '@transactions';
+const BUDGETS = '@budgets';
+
+// Starts out with values saved before encryption was turned on
+const plainStorage = () =>
+  createMemoryStorageAdapter({ [TRANSACTIONS]: 'transactions', [BUDGETS]: 'budgets' });
+
+// Reads every value the way the app does after a restart: unlock, then decrypt
+const readAfterRestart = async (storage: StorageAdapter, passphrase: string) => {
+  const meta = await loadEncryptionMeta(storage);
+  const adapter = createEncryptedStorageAdapter(storage, meta && (await unlockKeyring(meta, passphrase)));
+  return [await adapter.getItem(TRANSACTIONS), await adapter.getItem(BUDGETS)];
+};
+
+describe('encryption', () => {
+  it('round trips values and never stores them as plain text', async () => {
+    const inner = createMemoryStorageAdapter();
+    const adapter = createEncryptedStorageAdapter(inner, createKeyring());
+
+    await adapter.setItem(TRANSACTIONS, 'Chai ₹20');
+    const stored = await inner.getItem(TRANSACTIONS);
+    expect(stored).toMatch(/^enc1:/);
+    expect(stored).not.toContain('Chai');
+    expect(await adapter.getItem(TRANSACTIONS)).toBe('Chai ₹20');
+  });
+
+  it('rejects a value that was altered or sealed with an unknown key', () => {
+    const keyring = createKeyring();
+    const sealed = encryptValue(keyring, 'text');
+
+    expect(() => decryptValue(keyring, `${sealed.slice(0, -4)}AAAA`)).toThrow(DecryptionError);
+    expect(() => decryptValue(createKeyring(), sealed)).toThrow(DecryptionError);
+    expect(() => decryptValue(null, sealed)).toThrow(DecryptionError);
+  });
+
+  it('reads values saved before encryption was turned on', async () => {
+    const adapter = createEncryptedStorageAdapter(plainStorage(), createKeyring());
+    expect(await adapter.getItem(TRANSACTIONS)).toBe('transactions');
+  });
+
+  it('throws WrongPassphraseError for the wrong passphrase', async () => {
+    const meta = await wrapKeyring(createKeyring(), 'correct horse');
+    await expect(unlockKeyring(meta, 'battery staple')).rejects.toBeInstanceOf(WrongPassphraseError);
+
+    const sealed = await sealWithPassphrase('backup', 'correct horse');
+    expect(await openWithPassphrase(sealed, 'correct horse')).toBe('backup');
+    await expect(openWithPassphrase(sealed, 'battery staple')).rejects.toBeInstanceOf(WrongPassphraseError);
+  });
+
+  it('keeps every value readable when a rekey stops part way', async () => {
+    const inner = plainStorage();
+    const setItem = inner.setItem;
+    inner.setItem = jest.fn(async (key: string, value: string) => {
+      if (key === BUDGETS) throw new Error('Disk full');
+      return setItem(key, value);
+    });
+    const adapter = createEncryptedStorageAdapter(inner, null);
+
+    const keyring = createKeyring();
+    await expect(adapter.rekey(keyring, [TRANSACTIONS, BUDGETS])).rejects.toThrow('Disk full');
+    expect(await inner.getItem(TRANSACTIONS)).toMatch(/^enc1:/);
+    expect(await inner.getItem(BUDGETS)).toBe('budgets');
+    expect(await adapter.getItem(TRANSACTIONS)).toBe('transactions');
+    expect(await adapter.getItem(BUDGETS)).toBe('budgets');
+
+    // Retrying finishes the job
+    inner.setItem = setItem;
+    await adapter.rekey(keyring, [TRANSACTIONS, BUDGETS]);
+    expect(await inner.getItem(BUDGETS)).toMatch(/^enc1:/);
+    expect(await adapter.getItem(BUDGETS)).toBe('budgets');
+  });
+});
+
+describe('EncryptionProvider', () => {
+  const render = async (storage: StorageAdapter) => {
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <EncryptionProvider storage={storage}>{children}</EncryptionProvider>
+    );
+    const { result } = renderHook(() => useEncryption(), { wrapper });
+    await waitFor(() => expect(result.current).toBeDefined());
+    return result;
+  };
+
+  it('encrypts everything when turned on, moves it to a new key when the passphrase changes and decrypts it when turned off', async () => {
+    const storage = plainStorage();
+    const encryption = await render(storage);
+    expect(encryption.current.isEncrypted).toBe(false);
+
+    await act(() => encryption.current.enableEncryption('correct horse'));
+    expect(encryption.current.isEncrypted).toBe(true);
+    const enabled = await storage.getItem(TRANSACTIONS);
+    expect(enabled).toMatch(/^enc1:/);
+    expect(await readAfterRestart(storage, 'correct horse')).toEqual(['transactions', 'budgets']);
+
+    await act(() => encryption.current.changePassphrase('correct horse', 'battery staple'));
+    const changed = await storage.getItem(TRANSACTIONS);
+    expect(changed).toMatch(/^enc1:/);
+    expect(changed?.split(':')[1]).not.toBe(enabled?.split(':')[1]);
+    expect(Object.keys((await loadEncryptionMeta(storage))!.keys)).toHaveLength(1);
+    await expect(readAfterRestart(storage, 'correct horse')).rejects.toBeInstanceOf(WrongPassphraseError);
+    expect(await readAfterRestart(storage, 'battery staple')).toEqual(['transactions', 'budgets']);
+
+    await expect(encryption.current.disableEncryption('correct horse')).rejects.toBeInstanceOf(WrongPassphraseError);
+    await act(() => encryption.current.disableEncryption('battery staple'));
+    expect(encryption.current.isEncrypted).toBe(false);
+    expect(await storage.getItem(ENCRYPTION_META_KEY)).toBeNull();
+    expect(await storage.getItem(TRANSACTIONS)).toBe('transactions');
+    expect(await storage.getItem(BUDGETS)).toBe('budgets');
+  });
+
+  it('can still unlock everything after a restart when changing the passphrase stopped part way', async () => {
+    const storage = plainStorage();
+    const encryption = await render(storage);
+    await act(() => encryption.current.enableEncryption('correct horse'));
+
+    const setItem = storage.setItem;
+    storage.setItem = jest.fn(async (key: string, value: string) => {
+      if (key === BUDGETS) throw new Error('Disk full');
+      return setItem(key, value);
+    });
+    await act(() =>
+      expect(encryption.current.changePassphrase('correct horse', 'battery staple')).rejects.toThrow('Disk full')
+    );
+
+    // One value is on the new key and one on the old; the saved settings hold both
+    const keyId = async (key: string) => (await storage.getItem(key))?.split(':')[1];
+    expect(await keyId(TRANSACTIONS)).not.toBe(await keyId(BUDGETS));
+    expect(await readAfterRestart(storage, 'battery staple')).toEqual(['transactions', 'budgets']);
+  });
+});
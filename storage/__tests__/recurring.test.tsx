@@ -0,0 +1,62 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { ReactNode } from 'react';
+import { RecurringProvider, RecurringRule, useRecurring } from '../../app/context/RecurringContext';
+import { TransactionProvider, useTransactions } from '../../app/context/TransactionContext';
+import { Money } from '../../utils/money';
+import { createMemoryStorageAdapter, StorageAdapter } from '../adapters';
+import { loadCollection } from '../collection';
+import { recurringRulesSchema, transactionsSchema } from '../schemas';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Daily, starting just over two days ago, so three occurrences are due
+const dailyRule = (): RecurringRule => ({
+  id: 'coffee',
+  template: { title: 'Coffee', amount: 300 as Money, category: 'Food', type: 'expense', accountId: 'cash' },
+  startDate: new Date(Date.now() - 2 * DAY_MS - 60000).toISOString(),
+  frequency: 'daily',
+  interval: 1,
+  paused: false,
+  skippedDates: [],
+  overrides: {},
+});
+
+const render = async (storage: StorageAdapter) => {
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <TransactionProvider storage={storage}>
+      <RecurringProvider storage={storage}>{children}</RecurringProvider>
+    </TransactionProvider>
+  );
+  const rendered = renderHook(() => ({ ledger: useTransactions(), recurring: useRecurring() }), { wrapper });
+  await waitFor(() => expect(rendered.result.current.recurring.isLoading).toBe(false));
+  return rendered;
+};
+
+const storedIds = async (storage: StorageAdapter) =>
+  ((await loadCollection(storage, transactionsSchema)) ?? []).map(tx => tx.id).sort();
+
+describe('RecurringProvider', () => {
+  it('creates due occurrences once, even across a reload', async () => {
+    const storage = createMemoryStorageAdapter();
+    const first = await render(storage);
+
+    act(() => first.result.current.recurring.addRule(dailyRule()));
+    await waitFor(async () => {
+      const [rule] = (await loadCollection(storage, recurringRulesSchema)) ?? [];
+      expect(rule?.lastMaterializedAt).toBeDefined();
+    });
+    const created = await storedIds(storage);
+    expect(created).toHaveLength(3);
+    expect(created.every(id => id.startsWith('coffee-'))).toBe(true);
+
+    // A deleted occurrence stays deleted
+    act(() => first.result.current.ledger.deleteTransaction(created[0]));
+    await waitFor(async () => expect(await storedIds(storage)).toEqual(created.slice(1)));
+    first.unmount();
+
+    const second = await render(storage);
+    await waitFor(() => expect(second.result.current.ledger.isLoading).toBe(false));
+    expect(second.result.current.ledger.transactions.map(tx => tx.id).sort()).toEqual(created.slice(1));
+    expect(await storedIds(storage)).toEqual(created.slice(1));
+  });
+});
@@ -0,0 +1,90 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { ReactNode } from 'react';
+import { Alert } from 'react-native';
+import { Transaction, TransactionProvider, useTransactions } from '../../app/context/TransactionContext';
+import { Money } from '../../utils/money';
+import { createMemoryStorageAdapter, StorageAdapter } from '../adapters';
+import { loadCollection } from '../collection';
+import { transactionsSchema } from '../schemas';
+
+const lunch: Transaction = {
+  id: '1',
+  title: 'Lunch',
+  amount: 1250 as Money,
+  category: 'Food',
+  type: 'expense',
+  date: '2025-04-03T12:00:00.000Z',
+  accountId: 'cash',
+};
+
+const render = async (storage: StorageAdapter) => {
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <TransactionProvider storage={storage}>{children}</TransactionProvider>
+  );
+  const rendered = renderHook(() => useTransactions(), { wrapper });
+  await waitFor(() => expect(rendered.result.current.isLoading).toBe(false));
+  return rendered;
+};
+
+// Starts a flush inside act so its state update is applied, then waits for the write
+const flush = async (ledger: { current: ReturnType<typeof useTransactions> }) => {
+  let saved: Promise<boolean> = Promise.resolve(false);
+  act(() => {
+    saved = ledger.current.flushTransactions();
+  });
+  return saved;
+};
+
+describe('TransactionProvider', () => {
+  it('writes added transactions on flush and reads them back after a reload', async () => {
+    const storage = createMemoryStorageAdapter();
+    const first = await render(storage);
+
+    act(() => first.result.current.addTransaction(lunch));
+    // Writes are debounced, so nothing is saved yet
+    expect(await storage.getItem(transactionsSchema.key)).toBeNull();
+
+    expect(await flush(first.result)).toBe(true);
+    expect(await loadCollection(storage, transactionsSchema)).toEqual([lunch]);
+    first.unmount();
+
+    const second = await render(storage);
+    expect(second.result.current.transactions).toEqual([lunch]);
+  });
+
+  it('skips added transactions whose id is already in the ledger', async () => {
+    const { result } = await render(createMemoryStorageAdapter());
+
+    act(() => result.current.addTransactions([lunch, { ...lunch, id: '2', title: 'Dinner' }]));
+    act(() => result.current.addTransactions([{ ...lunch, title: 'Lunch again' }]));
+
+    expect(result.current.transactions.map(tx => tx.title)).toEqual(['Lunch', 'Dinner']);
+  });
+
+  it('saves a pending change when the provider goes away', async () => {
+    const storage = createMemoryStorageAdapter();
+    const { result, unmount } = await render(storage);
+
+    act(() => result.current.addTransaction(lunch));
+    unmount();
+
+    await waitFor(async () => expect(await loadCollection(storage, transactionsSchema)).toEqual([lunch]));
+  });
+
+  it('never saves over data from a newer version of the app', async () => {
+    const alert = jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      const raw = JSON.stringify({ version: transactionsSchema.version + 1, data: [] });
+      const storage = createMemoryStorageAdapter({ [transactionsSchema.key]: raw });
+      const { result } = await render(storage);
+      expect(alert).toHaveBeenCalled();
+
+      act(() => result.current.addTransaction(lunch));
+      expect(await flush(result)).toBe(false);
+      expect(await storage.getItem(transactionsSchema.key)).toBe(raw);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+});
@@ -0,0 +1,42 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Minimal key/value backend the storage layer persists collections through.
+ * Providers receive one of these instead of talking to a backend directly.
+ */
+export interface StorageAdapter {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+export const asyncStorageAdapter: StorageAdapter = {
+  getItem: key => AsyncStorage.getItem(key),
+  setItem: (key, value) => AsyncStorage.setItem(key, value),
+  removeItem: key => AsyncStorage.removeItem(key),
+};
+
+/**
+ * Non-persistent adapter, handy for unit tests and previews.
+ */
+export const createMemoryStorageAdapter = (initial: Record<string, string> = {}): StorageAdapter => {
+  const items = new Map(Object.entries(initial));
+  return {
+    getItem: async key => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async key => {
+      items.delete(key);
+    },
+  };
+};
+
+/**
+ * Adapter over the browser's synchronous Web Storage API.
+ */
+export const createLocalStorageAdapter = (storage: Storage = globalThis.localStorage): StorageAdapter => ({
+  getItem: async key => storage.getItem(key),
+  setItem: async (key, value) => storage.setItem(key, value),
+  removeItem: async key => storage.removeItem(key),
+});
@@ -0,0 +1,247 @@
+import type { Account } from '../app/context/AccountContext';
+import type { Budget, BudgetMove } from '../app/context/BudgetContext';
+import type { Category } from '../app/context/CategoryContext';
+import type { CategoryRule } from '../app/context/CategoryRuleContext';
+import type { RecurringRule } from '../app/context/RecurringContext';
+import type { SavingsGoal } from '../app/context/SavingsContext';
+import type { Transaction } from '../app/context/TransactionContext';
+import { CollectionSchema, isRecord, migrate, PersistedCollection } from './collection';
+import { isSealedText, openWithPassphrase, SealedText, sealWithPassphrase, WrongPassphraseError } from './encryption';
+import {
+  accountsSchema,
+  budgetMovesSchema,
+  budgetsSchema,
+  categoriesSchema,
+  categoryRulesSchema,
+  recurringRulesSchema,
+  savingsGoalsSchema,
+  transactionsSchema
+} from './schemas';
+
+/**
+ * Everything the user has entered, as one file that can be restored on
+ * another device. Each collection keeps the schema version it was written
+ * at, so a backup from an older release is migrated on restore.
+ */
+
+export const BACKUP_FORMAT = 'badged-planner-backup';
+// Version of the file layout itself, not of the collections inside it. 2 added encrypted backups.
+export const BACKUP_VERSION = 2;
+
+export interface BackupData {
+  transactions: Transaction[];
+  savingsGoals: SavingsGoal[];
+  recurringRules: RecurringRule[];
+  budgets: Budget[];
+  budgetMoves: BudgetMove[];
+  accounts: Account[];
+  categories: Category[];
+  categoryRules: CategoryRule[];
+}
+
+export type BackupCollection = keyof BackupData;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  collections: { [K in BackupCollection]: PersistedCollection<BackupData[K]> };
+  // CRC-32 of the serialized collections, to catch truncated or hand-edited files
+  checksum: string;
+}
+
+// The whole serialized BackupFile, sealed with a passphrase chosen at export
+export interface EncryptedBackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  encrypted: SealedText;
+}
+
+const BACKUP_SCHEMAS: { [K in BackupCollection]: CollectionSchema<BackupData[K]> } = {
+  transactions: transactionsSchema,
+  savingsGoals: savingsGoalsSchema,
+  recurringRules: recurringRulesSchema,
+  budgets: budgetsSchema,
+  budgetMoves: budgetMovesSchema,
+  accounts: accountsSchema,
+  categories: categoriesSchema,
+  categoryRules: categoryRulesSchema,
+};
+
+export const BACKUP_COLLECTIONS = Object.keys(BACKUP_SCHEMAS) as BackupCollection[];
+
+export const BACKUP_LABELS: Record<BackupCollection, string> = {
+  transactions: 'transactions',
+  savingsGoals: 'savings goals',
+  recurringRules: 'recurring rules',
+  budgets: 'budgets',
+  budgetMoves: 'budget moves',
+  accounts: 'accounts',
+  categories: 'categories',
+  categoryRules: 'category rules',
+};
+
+export class InvalidBackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidBackupError';
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  return crc >>> 0;
+});
+
+const crc32 = (text: string) => {
+  let crc = 0xffffffff;
+  for (const byte of new TextEncoder().encode(text)) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+};
+
+export const createBackup = (data: BackupData, now = new Date()): BackupFile => {
+  const collections = Object.fromEntries(
+    BACKUP_COLLECTIONS.map(name => [name, { version: BACKUP_SCHEMAS[name].version, data: data[name] }])
+  ) as BackupFile['collections'];
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: now.toISOString(),
+    collections,
+    checksum: crc32(JSON.stringify(collections)),
+  };
+};
+
+export const serializeBackup = (backup: BackupFile) => JSON.stringify(backup);
+
+export const encryptBackup = async (backup: BackupFile, passphrase: string) => {
+  const file: EncryptedBackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    encrypted: await sealWithPassphrase(serializeBackup(backup), passphrase),
+  };
+  return JSON.stringify(file);
+};
+
+export const isEncryptedBackup = (text: string) => {
+  try {
+    const file: unknown = JSON.parse(text);
+    return isRecord(file) && file.format === BACKUP_FORMAT && file.encrypted != null;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Turns an encrypted backup back into the plain file parseBackup reads.
+ */
+export const decryptBackup = async (text: string, passphrase: string) => {
+  const file: unknown = JSON.parse(text);
+  if (!isRecord(file) || typeof file.version !== 'number' || file.version > BACKUP_VERSION) {
+    throw new InvalidBackupError('This backup was made by a newer version of the app. Update the app to restore it.');
+  }
+  if (!isSealedText(file.encrypted)) {
+    throw new InvalidBackupError('This encrypted backup is damaged');
+  }
+  try {
+    return await openWithPassphrase(file.encrypted, passphrase);
+  } catch (error) {
+    if (error instanceof WrongPassphraseError) {
+      throw new InvalidBackupError('The passphrase is wrong, or the backup is damaged');
+    }
+    throw error;
+  }
+};
+
+/**
+ * Reads a backup file, checking its checksum and migrating every collection
+ * to the current schema. Throws an InvalidBackupError with a message fit
+ * for the user when the file can't be restored.
+ */
+export const parseBackup = (text: string): { createdAt: string; data: BackupData } => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new InvalidBackupError('This file is not a backup: it is not valid JSON');
+  }
+  if (!isRecord(file) || file.format !== BACKUP_FORMAT || !isRecord(file.collections)) {
+    throw new InvalidBackupError('This file is not a Badged Planner backup');
+  }
+  if (typeof file.version !== 'number' || file.version > BACKUP_VERSION) {
+    throw new InvalidBackupError('This backup was made by a newer version of the app. Update the app to restore it.');
+  }
+  if (file.checksum !== crc32(JSON.stringify(file.collections))) {
+    throw new InvalidBackupError('This backup is damaged or was edited: its checksum does not match');
+  }
+
+  const data = {} as Record<BackupCollection, unknown>;
+  for (const name of BACKUP_COLLECTIONS) {
+    const schema: CollectionSchema<unknown> = BACKUP_SCHEMAS[name];
+    const stored = file.collections[name];
+    if (!isRecord(stored) || typeof stored.version !== 'number' || !('data' in stored)) {
+      throw new InvalidBackupError(`This backup is missing its ${BACKUP_LABELS[name]}`);
+    }
+    if (stored.version > schema.version) {
+      throw new InvalidBackupError('This backup was made by a newer version of the app. Update the app to restore it.');
+    }
+    try {
+      data[name] = migrate(schema, stored.data, stored.version);
+    } catch (error) {
+      console.error(`Error reading ${name} from backup:`, error);
+      throw new InvalidBackupError(`The ${BACKUP_LABELS[name]} in this backup could not be read`);
+    }
+  }
+  return { createdAt: typeof file.createdAt === 'string' ? file.createdAt : '', data: data as BackupData };
+};
+
+export const backupCounts = (data: BackupData) =>
+  Object.fromEntries(BACKUP_COLLECTIONS.map(name => [name, data[name].length])) as Record<BackupCollection, number>;
+
+/**
+ * Adds everything from `incoming` that isn't already in `current`, matched by
+ * id. Where both have the same id, the current version wins.
+ */
+export const mergeBackup = (current: BackupData, incoming: BackupData): BackupData => {
+  const merge = <T extends { id: string }>(existing: T[], added: T[]) => {
+    const ids = new Set(existing.map(item => item.id));
+    return [...existing, ...added.filter(item => !ids.has(item.id))];
+  };
+
+  const categories = merge(current.categories, incoming.categories);
+  const categoryIds = new Set(categories.map(category => category.id));
+  // A category has at most one budget, and the current one is kept. Moves made
+  // with an incoming budget for the same category are moved onto it.
+  const keptBudgetIds = new Map(
+    incoming.budgets.flatMap(budget => {
+      const kept = current.budgets.find(b => b.category === budget.category);
+      return kept ? [[budget.id, kept.id] as const] : [];
+    })
+  );
+  const budgets = merge(
+    current.budgets,
+    incoming.budgets.filter(budget => !keptBudgetIds.has(budget.id) && categoryIds.has(budget.category))
+  );
+
+  // Moves must never point at a budget that isn't there, as in restoreBudgets
+  const budgetIds = new Set(budgets.map(budget => budget.id));
+  const remap = (id?: string) => (id === undefined ? undefined : keptBudgetIds.get(id) ?? id);
+  const incomingMoves = incoming.budgetMoves.flatMap(move => {
+    const fromBudgetId = remap(move.fromBudgetId);
+    const toBudgetId = remap(move.toBudgetId);
+    const dangling = [fromBudgetId, toBudgetId].some(id => id !== undefined && !budgetIds.has(id));
+    return dangling || fromBudgetId === toBudgetId ? [] : [{ ...move, fromBudgetId, toBudgetId }];
+  });
+
+  return {
+    transactions: merge(current.transactions, incoming.transactions),
+    savingsGoals: merge(current.savingsGoals, incoming.savingsGoals),
+    recurringRules: merge(current.recurringRules, incoming.recurringRules),
+    budgets,
+    budgetMoves: merge(current.budgetMoves, incomingMoves),
+    accounts: merge(current.accounts, incoming.accounts),
+    categories,
+    categoryRules: merge(current.categoryRules, incoming.categoryRules),
+  };
+};
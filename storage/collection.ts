@@ -0,0 +1,155 @@
+import { StorageAdapter } from './adapters';
+
+/**
+ * Shape of every collection written to storage. Data saved before versioning
+ * existed is a bare JSON value and is treated as version 0.
+ */
+export interface PersistedCollection<T> {
+  version: number;
+  data: T;
+}
+
+/**
+ * Upgrades data from the previous schema version to the version it is keyed by.
+ * Stored data can hold anything, so migrations check what they rely on.
+ */
+export type Migration = (data: unknown) => unknown;
+
+export interface CollectionSchema<T> {
+  key: string;
+  version: number;
+  // migrations[n] turns version n - 1 data into version n
+  migrations: Record<number, Migration>;
+  // Final shape check after migrating; should throw if the data is unusable
+  validate: (data: unknown) => T;
+}
+
+// A parsed JSON object whose fields haven't been checked yet
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Rewrites each object in a stored list with `update`. Throws if `data` isn't
+ * a list; entries that aren't objects are left for validation to drop.
+ */
+export const migrateEach = (
+  data: unknown,
+  label: string,
+  update: (item: Record<string, unknown>) => unknown
+): unknown[] => {
+  if (!Array.isArray(data)) throw new Error(`Stored ${label} are not a list`);
+  return data.map((item: unknown) => (isRecord(item) ? update(item) : item));
+};
+
+export class CorruptStorageError extends Error {
+  constructor(key: string, cause?: unknown) {
+    super(`Stored data for "${key}" could not be read${cause instanceof Error ? `: ${cause.message}` : ''}`);
+    this.name = 'CorruptStorageError';
+  }
+}
+
+/**
+ * Stored data is from a newer schema than this build knows, e.g. after a downgrade.
+ * It is left where it is; nothing should be saved over it.
+ */
+export class NewerVersionError extends Error {
+  constructor(key: string, storedVersion: number, expectedVersion: number) {
+    super(`"${key}" was saved by a newer version of the app (v${storedVersion}, expected v${expectedVersion})`);
+    this.name = 'NewerVersionError';
+  }
+}
+
+export const backupKey = (key: string) => `${key}_backup`;
+export const corruptKey = (key: string) => `${key}_corrupt`;
+
+const isEnvelope = (value: unknown): value is PersistedCollection<unknown> =>
+  isRecord(value) && typeof value.version === 'number' && 'data' in value;
+
+/**
+ * Runs every migration between `fromVersion` and the schema's current version, in order.
+ */
+export const migrate = <T>(schema: CollectionSchema<T>, data: unknown, fromVersion: number): T => {
+  let migrated = data;
+  for (let version = fromVersion + 1; version <= schema.version; version++) {
+    const migration = schema.migrations[version];
+    if (!migration) {
+      throw new Error(`Missing migration to version ${version} for "${schema.key}"`);
+    }
+    migrated = migration(migrated);
+  }
+  return schema.validate(migrated);
+};
+
+export const saveCollection = async <T>(storage: StorageAdapter, schema: CollectionSchema<T>, data: T) => {
+  const envelope: PersistedCollection<T> = { version: schema.version, data };
+  await storage.setItem(schema.key, JSON.stringify(envelope));
+};
+
+/**
+ * Reads a collection, migrating it to the current schema version if needed.
+ * Returns null when nothing has been stored yet.
+ *
+ * Before migrating, the raw data is copied to a backup key which is only removed
+ * once the migrated data has been written. If the app dies mid-migration the
+ * backup is picked up again on the next start. Data that cannot be parsed or
+ * migrated is moved to a corrupt key and a CorruptStorageError is thrown.
+ * Data from a newer schema version is left untouched and a NewerVersionError
+ * is thrown.
+ */
+export const loadCollection = async <T>(
+  storage: StorageAdapter,
+  schema: CollectionSchema<T>
+): Promise<T | null> => {
+  const pendingBackup = await storage.getItem(backupKey(schema.key));
+  const raw = pendingBackup ?? (await storage.getItem(schema.key));
+  if (raw == null) return null;
+
+  let stored: PersistedCollection<unknown>;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    stored = isEnvelope(parsed) ? parsed : { version: 0, data: parsed };
+  } catch (error) {
+    await quarantine(storage, schema.key, raw);
+    throw new CorruptStorageError(schema.key, error);
+  }
+
+  if (stored.version > schema.version) {
+    throw new NewerVersionError(schema.key, stored.version, schema.version);
+  }
+
+  if (stored.version === schema.version && !pendingBackup) {
+    try {
+      return schema.validate(stored.data);
+    } catch (error) {
+      await quarantine(storage, schema.key, raw);
+      throw new CorruptStorageError(schema.key, error);
+    }
+  }
+
+  if (!pendingBackup) {
+    await storage.setItem(backupKey(schema.key), raw);
+  }
+
+  let migrated: T;
+  try {
+    migrated = migrate(schema, stored.data, stored.version);
+  } catch (error) {
+    await quarantine(storage, schema.key, raw);
+    throw new CorruptStorageError(schema.key, error);
+  }
+
+  await saveCollection(storage, schema, migrated);
+  await storage.removeItem(backupKey(schema.key));
+  return migrated;
+};
+
+// Park unreadable data so the next save doesn't overwrite it
+const quarantine = async (storage: StorageAdapter, key: string, raw: string) => {
+  try {
+    await storage.setItem(corruptKey(key), raw);
+    await storage.removeItem(key);
+    await storage.removeItem(backupKey(key));
+  } catch (error) {
+    console.error(`Error quarantining "${key}":`, error);
+  }
+};
@@ -0,0 +1,3 @@
+import { asyncStorageAdapter } from './adapters';
+
+export const defaultStorageAdapter = asyncStorageAdapter;
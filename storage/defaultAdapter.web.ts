@@ -0,0 +1,9 @@
+import { asyncStorageAdapter, createLocalStorageAdapter } from './adapters';
+
+/**
+ * localStorage is unavailable during static rendering, so fall back to AsyncStorage there.
+ */
+export const defaultStorageAdapter =
+  typeof window !== 'undefined' && window.localStorage
+    ? createLocalStorageAdapter(window.localStorage)
+    : asyncStorageAdapter;
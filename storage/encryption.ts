@@ -0,0 +1,260 @@
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { utf8ToBytes } from '@noble/ciphers/utils';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { getRandomBytes } from 'expo-crypto';
+import { v4 as uuid } from 'uuid';
+import { StorageAdapter } from './adapters';
+import { isRecord } from './collection';
+
+/**
+ * Encryption at rest. Stored values are sealed with a random data key, and
+ * that key is kept in storage wrapped by a key derived from the user's
+ * passphrase. Changing the passphrase re-wraps the data key and then moves
+ * every value onto a fresh one.
+ */
+
+// Holds the wrapped data keys; never encrypted itself, or it couldn't be read to unlock
+export const ENCRYPTION_META_KEY = '@encryption';
+const ENCRYPTION_VERSION = 1;
+
+// Encrypted values look like "enc1:<key id>:<base64 nonce + ciphertext>"
+const VALUE_PREFIX = 'enc1:';
+const NONCE_LENGTH = 24;
+const KEY_LENGTH = 32;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// Costs about 32 MB and a second or two on a phone. Saved with each salt so it can be raised later.
+const DEFAULT_KDF = { N: 2 ** 15, r: 8, p: 1 };
+
+export interface KdfParams {
+  salt: string;
+  N: number;
+  r: number;
+  p: number;
+}
+
+export interface EncryptionMeta {
+  version: number;
+  kdf: KdfParams;
+  // Data keys by id, each sealed with the passphrase key
+  keys: Record<string, string>;
+  // New values are sealed with this one; others linger only while re-keying
+  currentKeyId: string;
+}
+
+export interface Keyring {
+  keys: Record<string, Uint8Array>;
+  currentKeyId: string;
+}
+
+// Data sealed with a passphrase rather than a keyring, as in encrypted backups
+export interface SealedText {
+  kdf: KdfParams;
+  data: string;
+}
+
+const isIntegerIn = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+// Upper bounds keep a crafted backup file from asking for gigabytes of memory
+const isKdfParams = (value: unknown): value is KdfParams =>
+  isRecord(value) &&
+  typeof value.salt === 'string' &&
+  isIntegerIn(value.N, 2, 2 ** 20) && (value.N & (value.N - 1)) === 0 &&
+  isIntegerIn(value.r, 1, 32) &&
+  isIntegerIn(value.p, 1, 16);
+
+export const isSealedText = (value: unknown): value is SealedText =>
+  isRecord(value) && isKdfParams(value.kdf) && typeof value.data === 'string';
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('The passphrase is incorrect');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+const BASE64_CHUNK = 0x8000;
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+// TextDecoder isn't available on every React Native runtime
+const fromUtf8 = (bytes: Uint8Array) => {
+  let encoded = '';
+  for (const byte of bytes) encoded += `%${byte.toString(16).padStart(2, '0')}`;
+  return decodeURIComponent(encoded);
+};
+
+const seal = (key: Uint8Array, plaintext: Uint8Array) => {
+  const nonce = getRandomBytes(NONCE_LENGTH);
+  const sealed = xchacha20poly1305(key, nonce).encrypt(plaintext);
+  const combined = new Uint8Array(NONCE_LENGTH + sealed.length);
+  combined.set(nonce);
+  combined.set(sealed, NONCE_LENGTH);
+  return toBase64(combined);
+};
+
+// Throws if the key is wrong or the data was altered
+const open = (key: Uint8Array, text: string) => {
+  const combined = fromBase64(text);
+  return xchacha20poly1305(key, combined.subarray(0, NONCE_LENGTH)).decrypt(combined.subarray(NONCE_LENGTH));
+};
+
+const newKdfParams = (): KdfParams => ({ salt: toBase64(getRandomBytes(16)), ...DEFAULT_KDF });
+
+const derivePassphraseKey = (passphrase: string, { salt, N, r, p }: KdfParams) =>
+  scryptAsync(utf8ToBytes(passphrase.normalize('NFKC')), fromBase64(salt), { N, r, p, dkLen: KEY_LENGTH });
+
+export const createKeyring = (): Keyring => {
+  const id = uuid();
+  return { keys: { [id]: getRandomBytes(KEY_LENGTH) }, currentKeyId: id };
+};
+
+/**
+ * Wraps every key in the keyring with a key derived from `passphrase`, using
+ * a fresh salt each time.
+ */
+export const wrapKeyring = async (keyring: Keyring, passphrase: string): Promise<EncryptionMeta> => {
+  const kdf = newKdfParams();
+  const passphraseKey = await derivePassphraseKey(passphrase, kdf);
+  const keys = Object.fromEntries(Object.entries(keyring.keys).map(([id, key]) => [id, seal(passphraseKey, key)]));
+  return { version: ENCRYPTION_VERSION, kdf, keys, currentKeyId: keyring.currentKeyId };
+};
+
+export const unlockKeyring = async (meta: EncryptionMeta, passphrase: string): Promise<Keyring> => {
+  const passphraseKey = await derivePassphraseKey(passphrase, meta.kdf);
+  try {
+    const keys = Object.fromEntries(Object.entries(meta.keys).map(([id, sealed]) => [id, open(passphraseKey, sealed)]));
+    return { keys, currentKeyId: meta.currentKeyId };
+  } catch {
+    throw new WrongPassphraseError();
+  }
+};
+
+/**
+ * Reads the stored encryption settings. Returns null when encryption has
+ * never been turned on.
+ */
+export const loadEncryptionMeta = async (storage: StorageAdapter): Promise<EncryptionMeta | null> => {
+  const raw = await storage.getItem(ENCRYPTION_META_KEY);
+  if (raw == null) return null;
+  const meta = JSON.parse(raw);
+  if (
+    meta?.version !== ENCRYPTION_VERSION ||
+    !isKdfParams(meta.kdf) ||
+    meta.keys == null ||
+    typeof meta.keys[meta.currentKeyId] !== 'string'
+  ) {
+    throw new DecryptionError('The stored encryption settings could not be read');
+  }
+  return meta;
+};
+
+export const saveEncryptionMeta = (storage: StorageAdapter, meta: EncryptionMeta | null) =>
+  meta ? storage.setItem(ENCRYPTION_META_KEY, JSON.stringify(meta)) : storage.removeItem(ENCRYPTION_META_KEY);
+
+export const encryptValue = (keyring: Keyring, text: string) =>
+  `${VALUE_PREFIX}${keyring.currentKeyId}:${seal(keyring.keys[keyring.currentKeyId], utf8ToBytes(text))}`;
+
+/**
+ * Values written before encryption was turned on have no prefix and are
+ * returned unchanged; they're encrypted the next time they're saved.
+ */
+export const decryptValue = (keyring: Keyring | null, value: string) => {
+  if (!value.startsWith(VALUE_PREFIX)) return value;
+  const separator = value.indexOf(':', VALUE_PREFIX.length);
+  const key = keyring?.keys[value.slice(VALUE_PREFIX.length, separator)];
+  if (separator < 0 || !key) throw new DecryptionError('Stored data was encrypted with a key that is not available');
+  try {
+    return fromUtf8(open(key, value.slice(separator + 1)));
+  } catch {
+    throw new DecryptionError('Stored data could not be decrypted: it is damaged or was altered');
+  }
+};
+
+export const sealWithPassphrase = async (text: string, passphrase: string): Promise<SealedText> => {
+  const kdf = newKdfParams();
+  return { kdf, data: seal(await derivePassphraseKey(passphrase, kdf), utf8ToBytes(text)) };
+};
+
+export const openWithPassphrase = async ({ kdf, data }: SealedText, passphrase: string) => {
+  const key = await derivePassphraseKey(passphrase, kdf);
+  try {
+    return fromUtf8(open(key, data));
+  } catch {
+    throw new WrongPassphraseError();
+  }
+};
+
+export interface EncryptedStorageAdapter extends StorageAdapter {
+  /**
+   * Rewrites `keys` under `keyring`, or as plain text when it's null, and
+   * uses it for everything after. Other reads and writes wait until the
+   * rewrite finishes so a save can't land between reading and rewriting a key.
+   */
+  rekey: (keyring: Keyring | null, keys: string[]) => Promise<void>;
+}
+
+/**
+ * Encrypts values on their way into `inner` and decrypts them on the way out.
+ * With a null keyring values pass through untouched, so the same adapter can
+ * stay in place while encryption is turned on or off.
+ */
+export const createEncryptedStorageAdapter = (
+  inner: StorageAdapter,
+  initialKeyring: Keyring | null
+): EncryptedStorageAdapter => {
+  let keyring = initialKeyring;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // Runs operations one at a time, in the order they were requested
+  const exclusive = <T>(operation: () => Promise<T>) => {
+    const result = queue.then(operation);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    getItem: key =>
+      exclusive(async () => {
+        const value = await inner.getItem(key);
+        return value == null ? null : decryptValue(keyring, value);
+      }),
+    setItem: (key, value) => exclusive(() => inner.setItem(key, keyring ? encryptValue(keyring, value) : value)),
+    removeItem: key => exclusive(() => inner.removeItem(key)),
+    rekey: (next, keys) =>
+      exclusive(async () => {
+        const current = next ?? keyring;
+        // Values may be under any key either keyring knows about until the rewrite is done
+        const combined = current && { keys: { ...keyring?.keys, ...next?.keys }, currentKeyId: current.currentKeyId };
+        try {
+          for (const key of keys) {
+            const value = await inner.getItem(key);
+            if (value == null) continue;
+            const text = decryptValue(combined, value);
+            await inner.setItem(key, next ? encryptValue(next, text) : text);
+          }
+        } catch (error) {
+          keyring = combined;
+          throw error;
+        }
+        keyring = next;
+      }),
+  };
+};
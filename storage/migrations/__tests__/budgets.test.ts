@@ -0,0 +1,32 @@
+import { migrate } from '../../collection';
+import { budgetsSchema } from '../../schemas';
+import { budgetMigrations } from '../budgets';
+
+describe('budget migrations', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2025, 5, 10) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('v2 keeps fixed limits without rollover, starting from the month of the upgrade', () => {
+    expect(budgetMigrations[2]([{ id: '1', category: 'Food', limit: 1000 }])).toEqual([
+      { id: '1', category: 'Food', limit: 1000, rollover: false, startMonth: '2025-06' },
+    ]);
+    expect(() => budgetMigrations[2](null)).toThrow('not a list');
+  });
+
+  it('v3 turns the single limit into the first of the monthly limits', () => {
+    expect(
+      budgetMigrations[3]([{ id: '1', category: 'Food', limit: 1000, rollover: true, startMonth: '2025-02' }])
+    ).toEqual([{ id: '1', category: 'Food', limits: [{ from: '2025-02', limit: 1000 }], rollover: true }]);
+  });
+
+  it('upgrades a v1 budget to the current schema', () => {
+    expect(migrate(budgetsSchema, [{ id: '1', category: 'Food', limit: 1000 }], 1)).toEqual([
+      { id: '1', category: 'Food', limits: [{ from: '2025-06', limit: 1000 }], rollover: false },
+    ]);
+  });
+});
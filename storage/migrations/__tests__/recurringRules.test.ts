@@ -0,0 +1,51 @@
+import { DEFAULT_ACCOUNT_ID } from '../../../constants/Accounts';
+import { OTHER_INCOME_CATEGORY_ID } from '../../../constants/Categories';
+import { migrate } from '../../collection';
+import { recurringRulesSchema } from '../../schemas';
+import { recurringRuleMigrations } from '../recurringRules';
+
+describe('recurring rule migrations', () => {
+  it('v2 adds the default account to every template', () => {
+    expect(recurringRuleMigrations[2]([{ id: '1', template: { amount: 100 } }])).toEqual([
+      { id: '1', template: { amount: 100, accountId: DEFAULT_ACCOUNT_ID } },
+    ]);
+    expect(() => recurringRuleMigrations[2]({})).toThrow('not a list');
+  });
+
+  it('v3 renames income "Other" in templates and overrides, and leaves expenses alone', () => {
+    const income = {
+      id: '1',
+      template: { type: 'income', category: 'Other' },
+      overrides: { '2025-01-01': { category: 'Other' }, '2025-02-01': { amount: 5 } },
+    };
+    const expense = { id: '2', template: { type: 'expense', category: 'Other' }, overrides: {} };
+
+    expect(recurringRuleMigrations[3]([income, expense])).toEqual([
+      {
+        id: '1',
+        template: { type: 'income', category: OTHER_INCOME_CATEGORY_ID },
+        overrides: { '2025-01-01': { category: OTHER_INCOME_CATEGORY_ID }, '2025-02-01': { amount: 5 } },
+      },
+      expense,
+    ]);
+  });
+
+  it('upgrades a v1 rule to the current schema', () => {
+    const rule = {
+      id: '1',
+      template: { title: 'Salary', amount: 500000, type: 'income', category: 'Other' },
+      frequency: 'monthly',
+      interval: 1,
+      startDate: '2025-01-01',
+      paused: false,
+      skippedDates: [],
+      overrides: {},
+    };
+    const [migrated] = migrate(recurringRulesSchema, [rule], 1);
+    expect(migrated.template).toEqual({
+      ...rule.template,
+      category: OTHER_INCOME_CATEGORY_ID,
+      accountId: DEFAULT_ACCOUNT_ID,
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { migrate } from '../../collection';
+import { savingsGoalsSchema } from '../../schemas';
+import { savingsGoalMigrations } from '../savingsGoals';
+
+describe('savings goal migrations', () => {
+  it('v1 accepts the unversioned list and rejects anything else', () => {
+    const list = [{ id: '1' }];
+    expect(savingsGoalMigrations[1](list)).toBe(list);
+    expect(() => savingsGoalMigrations[1]('goals')).toThrow('not a list');
+  });
+
+  it('v2 converts target and current amounts to paisa', () => {
+    expect(savingsGoalMigrations[2]([{ id: '1', targetAmount: 5000, currentAmount: 12.34 }])).toEqual([
+      { id: '1', targetAmount: 500000, currentAmount: 1234 },
+    ]);
+  });
+
+  it('upgrades a first-release goal to the current schema', () => {
+    const goal = { id: '1', title: 'Bike', targetAmount: 250.5, currentAmount: 0, deadline: '2025-12-31', category: 'Travel' };
+    expect(migrate(savingsGoalsSchema, [goal], 0)).toEqual([{ ...goal, targetAmount: 25050, currentAmount: 0 }]);
+  });
+});
@@ -0,0 +1,79 @@
+import { DEFAULT_ACCOUNT_ID } from '../../../constants/Accounts';
+import { OTHER_INCOME_CATEGORY_ID } from '../../../constants/Categories';
+import { migrate } from '../../collection';
+import { transactionsSchema } from '../../schemas';
+import { transactionMigrations } from '../transactions';
+
+describe('transaction migrations', () => {
+  it('v1 accepts the unversioned list and rejects anything else', () => {
+    const list = [{ id: '1' }];
+    expect(transactionMigrations[1](list)).toBe(list);
+    expect(() => transactionMigrations[1]({ id: '1' })).toThrow('not a list');
+  });
+
+  it('v2 turns locale dates into ISO timestamps', () => {
+    const migrated = transactionMigrations[2]([
+      { id: '1', date: '25/12/2024' },
+      { id: '2', date: '3/4/2024' },
+    ]);
+    expect(migrated).toEqual([
+      { id: '1', date: new Date(2024, 11, 25).toISOString() },
+      { id: '2', date: new Date(2024, 2, 4).toISOString() },
+    ]);
+  });
+
+  it('v2 stamps unreadable dates with the migration time', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.useFakeTimers({ now: new Date('2025-01-15T10:00:00Z') });
+    try {
+      expect(transactionMigrations[2]([{ id: '1', date: 'someday' }])).toEqual([
+        { id: '1', date: '2025-01-15T10:00:00.000Z' },
+      ]);
+    } finally {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('v3 converts float amounts to paisa', () => {
+    expect(transactionMigrations[3]([{ amount: 12.5 }, { amount: 0.1 + 0.2 }, { amount: '7' }])).toEqual([
+      { amount: 1250 },
+      { amount: 30 },
+      { amount: 700 },
+    ]);
+  });
+
+  it('v4 assigns every transaction to the default account', () => {
+    expect(transactionMigrations[4]([{ id: '1' }])).toEqual([{ id: '1', accountId: DEFAULT_ACCOUNT_ID }]);
+  });
+
+  it('v5 renames income "Other", including in splits, and leaves expenses alone', () => {
+    const migrated = transactionMigrations[5]([
+      { type: 'income', category: 'Other' },
+      { type: 'income', category: 'Salary', splits: [{ category: 'Other', amount: 1 }] },
+      { type: 'expense', category: 'Other' },
+    ]);
+    expect(migrated).toEqual([
+      { type: 'income', category: OTHER_INCOME_CATEGORY_ID },
+      { type: 'income', category: 'Salary', splits: [{ category: OTHER_INCOME_CATEGORY_ID, amount: 1 }] },
+      { type: 'expense', category: 'Other' },
+    ]);
+  });
+
+  it('upgrades a first-release transaction to the current schema', () => {
+    const [tx] = migrate(
+      transactionsSchema,
+      [{ id: '1', title: 'Pay', amount: 1000.25, category: 'Other', type: 'income', date: '2024-06-01' }],
+      0
+    );
+    expect(tx).toEqual({
+      id: '1',
+      title: 'Pay',
+      amount: 100025,
+      category: OTHER_INCOME_CATEGORY_ID,
+      type: 'income',
+      date: new Date(2024, 5, 1).toISOString(),
+      accountId: DEFAULT_ACCOUNT_ID,
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { toMonthKey } from '../../utils/date';
+import { Migration, migrateEach } from '../collection';
+
+/**
+ * Budget migrations, keyed by the schema version they produce.
+ */
+export const budgetMigrations: Record<number, Migration> = {
+  // v2: envelope budgeting. Existing budgets keep their fixed limit without
+  // rollover and start counting from the month of the upgrade.
+  2: data => {
+    const month = toMonthKey(new Date());
+    return migrateEach(data, 'budgets', budget => ({ ...budget, rollover: false, startMonth: month }));
+  },
+
+  // v3: limits are kept per month so changing one leaves past months alone
+  3: data =>
+    migrateEach(data, 'budgets', ({ limit, startMonth, ...budget }) => ({
+      ...budget,
+      limits: [{ from: startMonth, limit }],
+    })),
+};
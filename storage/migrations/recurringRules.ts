@@ -0,0 +1,31 @@
+import { DEFAULT_ACCOUNT_ID } from '../../constants/Accounts';
+import { OTHER_INCOME_CATEGORY_ID } from '../../constants/Categories';
+import { isRecord, Migration, migrateEach } from '../collection';
+import { renameIncomeOther } from './transactions';
+
+/**
+ * Recurring rule migrations, keyed by the schema version they produce.
+ */
+export const recurringRuleMigrations: Record<number, Migration> = {
+  // v2: templates name the account their transactions go to
+  2: data =>
+    migrateEach(data, 'recurring transactions', rule => ({
+      ...rule,
+      template: { ...(isRecord(rule.template) ? rule.template : {}), accountId: DEFAULT_ACCOUNT_ID },
+    })),
+
+  // v3: income's "Other" category gets its own id, as in transactions v5
+  3: data =>
+    migrateEach(data, 'recurring transactions', rule => {
+      if (!isRecord(rule.template) || rule.template.type !== 'income') return rule;
+      const overrides = Object.fromEntries(
+        Object.entries(isRecord(rule.overrides) ? rule.overrides : {}).map(([key, override]) => [
+          key,
+          isRecord(override) && override.category === 'Other'
+            ? { ...override, category: OTHER_INCOME_CATEGORY_ID }
+            : override,
+        ])
+      );
+      return { ...rule, template: renameIncomeOther(rule.template), overrides };
+    }),
+};
@@ -0,0 +1,20 @@
+import { Migration, migrateEach } from '../collection';
+
+/**
+ * Savings goals migrations, keyed by the schema version they produce.
+ */
+export const savingsGoalMigrations: Record<number, Migration> = {
+  // v1: unversioned array saved by the first release of SavingsProvider
+  1: data => {
+    if (!Array.isArray(data)) throw new Error('Stored savings goals are not a list');
+    return data;
+  },
+
+  // v2: target and current amounts move from floats to integer minor units (paisa)
+  2: data =>
+    migrateEach(data, 'savings goals', goal => ({
+      ...goal,
+      targetAmount: Math.round(Number(goal.targetAmount) * 100),
+      currentAmount: Math.round(Number(goal.currentAmount) * 100),
+    })),
+};
@@ -0,0 +1,48 @@
+import { DEFAULT_ACCOUNT_ID } from '../../constants/Accounts';
+import { OTHER_INCOME_CATEGORY_ID } from '../../constants/Categories';
+import { parseLegacyDate } from '../../utils/date';
+import { isRecord, Migration, migrateEach } from '../collection';
+
+// Shared with the recurring rule migrations, whose templates have the same shape
+export const renameIncomeOther = (item: Record<string, unknown>) => ({
+  ...item,
+  category: item.category === 'Other' ? OTHER_INCOME_CATEGORY_ID : item.category,
+  ...(Array.isArray(item.splits) && {
+    splits: item.splits.map((split: unknown) =>
+      isRecord(split) && split.category === 'Other' ? { ...split, category: OTHER_INCOME_CATEGORY_ID } : split
+    ),
+  }),
+});
+
+/**
+ * Transactions migrations, keyed by the schema version they produce.
+ */
+export const transactionMigrations: Record<number, Migration> = {
+  // v1: unversioned array saved by the first release of TransactionProvider
+  1: data => {
+    if (!Array.isArray(data)) throw new Error('Stored transactions are not a list');
+    return data;
+  },
+
+  // v2: `date` moves from a locale-formatted string to an ISO timestamp.
+  // Dates that can't be read are stamped with the migration time rather than dropped.
+  2: data => {
+    const migratedAt = new Date().toISOString();
+    return migrateEach(data, 'transactions', tx => {
+      const parsed = typeof tx.date === 'string' ? parseLegacyDate(tx.date) : null;
+      if (!parsed) {
+        console.warn(`Could not read date "${tx.date}" of transaction ${tx.id}`);
+      }
+      return { ...tx, date: parsed ? parsed.toISOString() : migratedAt };
+    });
+  },
+
+  // v3: `amount` moves from a float to integer minor units (paisa)
+  3: data => migrateEach(data, 'transactions', tx => ({ ...tx, amount: Math.round(Number(tx.amount) * 100) })),
+
+  // v4: every transaction belongs to an account; existing ones go to the default cash account
+  4: data => migrateEach(data, 'transactions', tx => ({ ...tx, accountId: DEFAULT_ACCOUNT_ID })),
+
+  // v5: categories become registry ids; income's "Other" gets its own id apart from expenses'
+  5: data => migrateEach(data, 'transactions', tx => (tx.type === 'income' ? renameIncomeOther(tx) : tx)),
+};
@@ -0,0 +1,203 @@
+import type { Account } from '../app/context/AccountContext';
+import type { UserAccount } from '../app/context/AuthContext';
+import type { Budget, BudgetMove } from '../app/context/BudgetContext';
+import type { Category } from '../app/context/CategoryContext';
+import type { CategoryRule } from '../app/context/CategoryRuleContext';
+import type { RecurringRule } from '../app/context/RecurringContext';
+import type { SavingsGoal } from '../app/context/SavingsContext';
+import type { Transaction } from '../app/context/TransactionContext';
+import { backupKey, CollectionSchema, corruptKey, isRecord } from './collection';
+import { budgetMigrations } from './migrations/budgets';
+import { recurringRuleMigrations } from './migrations/recurringRules';
+import { savingsGoalMigrations } from './migrations/savingsGoals';
+import { transactionMigrations } from './migrations/transactions';
+
+const isTransaction = (value: unknown): value is Transaction =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.title === 'string' &&
+  Number.isSafeInteger(value.amount) &&
+  typeof value.category === 'string' &&
+  (value.type === 'income' || value.type === 'expense' ||
+    (value.type === 'transfer' && typeof value.toAccountId === 'string')) &&
+  typeof value.date === 'string' &&
+  typeof value.accountId === 'string' &&
+  (value.splits === undefined ||
+    (Array.isArray(value.splits) &&
+      value.splits.every((split: unknown) =>
+        isRecord(split) && typeof split.category === 'string' && Number.isSafeInteger(split.amount)))) &&
+  (value.tags === undefined ||
+    (Array.isArray(value.tags) && value.tags.every((tag: unknown) => typeof tag === 'string'))) &&
+  (value.notes === undefined || typeof value.notes === 'string') &&
+  (value.importId === undefined || typeof value.importId === 'string') &&
+  (value.notDuplicateOf === undefined ||
+    (Array.isArray(value.notDuplicateOf) && value.notDuplicateOf.every((id: unknown) => typeof id === 'string')));
+
+const isSavingsGoal = (value: unknown): value is SavingsGoal =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.title === 'string' &&
+  Number.isSafeInteger(value.targetAmount) &&
+  Number.isSafeInteger(value.currentAmount) &&
+  typeof value.deadline === 'string' &&
+  typeof value.category === 'string';
+
+const isRecurringRule = (value: unknown): value is RecurringRule =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  isRecord(value.template) &&
+  Number.isSafeInteger(value.template.amount) &&
+  typeof value.template.accountId === 'string' &&
+  typeof value.frequency === 'string' &&
+  ['daily', 'weekly', 'monthly', 'yearly'].includes(value.frequency) &&
+  Number.isInteger(value.interval) &&
+  typeof value.startDate === 'string' &&
+  typeof value.paused === 'boolean' &&
+  Array.isArray(value.skippedDates) &&
+  isRecord(value.overrides);
+
+const isBudget = (value: unknown): value is Budget =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.category === 'string' &&
+  Array.isArray(value.limits) &&
+  value.limits.length > 0 &&
+  value.limits.every((entry: unknown) =>
+    isRecord(entry) && typeof entry.from === 'string' && Number.isSafeInteger(entry.limit)) &&
+  typeof value.rollover === 'boolean' &&
+  (value.endMonth === undefined || typeof value.endMonth === 'string');
+
+const isBudgetMove = (value: unknown): value is BudgetMove =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.month === 'string' &&
+  Number.isSafeInteger(value.amount) &&
+  (value.fromBudgetId === undefined || typeof value.fromBudgetId === 'string') &&
+  (value.toBudgetId === undefined || typeof value.toBudgetId === 'string');
+
+const isAccount = (value: unknown): value is Account =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.type === 'string' &&
+  ['cash', 'bank', 'credit', 'wallet'].includes(value.type) &&
+  Number.isSafeInteger(value.openingBalance) &&
+  (value.statementId === undefined || typeof value.statementId === 'string');
+
+const isUserAccount = (value: unknown): value is UserAccount =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.username === 'string' &&
+  (value.role === 'user' || value.role === 'admin') &&
+  typeof value.passwordHash === 'string' &&
+  typeof value.createdAt === 'string';
+
+const isCategory = (value: unknown): value is Category =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  (value.type === 'income' || value.type === 'expense') &&
+  typeof value.emoji === 'string' &&
+  typeof value.color === 'string' &&
+  (value.parentId === undefined || typeof value.parentId === 'string') &&
+  typeof value.archived === 'boolean';
+
+const isCategoryRule = (value: unknown): value is CategoryRule =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.enabled === 'boolean' &&
+  (value.titleMatch === 'contains' || value.titleMatch === 'regex') &&
+  typeof value.titlePattern === 'string' &&
+  (value.minAmount === undefined || Number.isSafeInteger(value.minAmount)) &&
+  (value.maxAmount === undefined || Number.isSafeInteger(value.maxAmount)) &&
+  (value.accountId === undefined || typeof value.accountId === 'string') &&
+  (value.type === undefined || value.type === 'income' || value.type === 'expense') &&
+  (value.category === undefined || typeof value.category === 'string') &&
+  (value.tags === undefined || Array.isArray(value.tags));
+
+// Keeps the well-formed entries of a list and reports how many were dropped
+const validList = <T>(label: string, data: unknown, isValid: (value: unknown) => value is T): T[] => {
+  if (!Array.isArray(data)) throw new Error(`Stored ${label} are not a list`);
+  const valid = data.filter(isValid);
+  if (valid.length !== data.length) {
+    console.warn(`Skipped ${data.length - valid.length} malformed ${label}`);
+  }
+  return valid;
+};
+
+export const transactionsSchema: CollectionSchema<Transaction[]> = {
+  key: '@transactions',
+  version: 5,
+  migrations: transactionMigrations,
+  validate: data => validList('transactions', data, isTransaction),
+};
+
+export const savingsGoalsSchema: CollectionSchema<SavingsGoal[]> = {
+  key: '@savings_goals',
+  version: 2,
+  migrations: savingsGoalMigrations,
+  validate: data => validList('savings goals', data, isSavingsGoal),
+};
+
+export const recurringRulesSchema: CollectionSchema<RecurringRule[]> = {
+  key: '@recurring_rules',
+  version: 3,
+  migrations: recurringRuleMigrations,
+  validate: data => validList('recurring rules', data, isRecurringRule),
+};
+
+export const budgetsSchema: CollectionSchema<Budget[]> = {
+  key: '@budgets',
+  version: 3,
+  migrations: budgetMigrations,
+  validate: data => validList('budgets', data, isBudget),
+};
+
+export const budgetMovesSchema: CollectionSchema<BudgetMove[]> = {
+  key: '@budget_moves',
+  version: 1,
+  migrations: {},
+  validate: data => validList('budget moves', data, isBudgetMove),
+};
+
+export const accountsSchema: CollectionSchema<Account[]> = {
+  key: '@accounts',
+  version: 1,
+  migrations: {},
+  validate: data => validList('accounts', data, isAccount),
+};
+
+export const categoriesSchema: CollectionSchema<Category[]> = {
+  key: '@categories',
+  version: 1,
+  migrations: {},
+  validate: data => validList('categories', data, isCategory),
+};
+
+export const categoryRulesSchema: CollectionSchema<CategoryRule[]> = {
+  key: '@category_rules',
+  version: 1,
+  migrations: {},
+  validate: data => validList('category rules', data, isCategoryRule),
+};
+
+export const usersSchema: CollectionSchema<UserAccount[]> = {
+  key: '@users',
+  version: 1,
+  migrations: {},
+  validate: data => validList('users', data, isUserAccount),
+};
+
+// Every key collections are stored under, with their migration backups and quarantined copies
+export const STORAGE_KEYS = [
+  transactionsSchema,
+  savingsGoalsSchema,
+  recurringRulesSchema,
+  budgetsSchema,
+  budgetMovesSchema,
+  accountsSchema,
+  categoriesSchema,
+  categoryRulesSchema,
+  usersSchema,
+].flatMap(({ key }) => [key, backupKey(key), corruptKey(key)]);
@@ -0,0 +1,192 @@
+import type { Budget, BudgetMove } from '../../app/context/BudgetContext';
+import type { Category } from '../../app/context/CategoryContext';
+import type { Transaction } from '../../app/context/TransactionContext';
+import { budgetLimitFor, computeBudgetHistory, withLimitFrom } from '../budget';
+import { Money } from '../money';
+
+const budget = (changes: Partial<Budget> = {}): Budget => ({
+  id: 'food',
+  category: 'Food',
+  limits: [{ from: '2025-01', limit: 10000 as Money }],
+  rollover: false,
+  ...changes,
+});
+
+let nextId = 0;
+const tx = (month: string, amount: number, changes: Partial<Transaction> = {}): Transaction => ({
+  id: String(nextId++),
+  title: 'Groceries',
+  amount: amount as Money,
+  category: 'Food',
+  type: 'expense',
+  date: `${month}-15T12:00:00.000Z`,
+  accountId: 'cash',
+  ...changes,
+});
+
+const income = (month: string, amount: number) => tx(month, amount, { type: 'income', category: 'Salary' });
+
+const move = (month: string, amount: number, fromBudgetId?: string, toBudgetId?: string): BudgetMove => ({
+  id: `${month}-${fromBudgetId}-${toBudgetId}`,
+  month,
+  amount: amount as Money,
+  fromBudgetId,
+  toBudgetId,
+});
+
+// Progress of one budget in each month, as [assigned, carriedOver, spent, remaining]
+const balances = (history: ReturnType<typeof computeBudgetHistory>, id = 'food') =>
+  history.map(({ month, budgets }) => {
+    const progress = budgets.find(p => p.budget.id === id);
+    return [month, progress && [progress.assigned, progress.carriedOver, progress.spent, progress.remaining]];
+  });
+
+describe('computeBudgetHistory', () => {
+  it('runs from the earliest start month to the month asked for', () => {
+    const history = computeBudgetHistory([budget()], [], [], [], '2025-03');
+    expect(history.map(entry => entry.month)).toEqual(['2025-01', '2025-02', '2025-03']);
+  });
+
+  it('hands a non-rollover balance back to the pool each month', () => {
+    const history = computeBudgetHistory(
+      [budget()],
+      [income('2025-01', 50000), tx('2025-01', 4000), tx('2025-02', 12000)],
+      [],
+      [],
+      '2025-02'
+    );
+
+    expect(balances(history)).toEqual([
+      ['2025-01', [10000, 0, 4000, 6000]],
+      ['2025-02', [10000, 0, 12000, -2000]],
+    ]);
+    // 50000 earned, 10000 assigned, 6000 handed back, then 10000 assigned again
+    expect(history.map(entry => entry.availableToAssign)).toEqual([40000, 36000]);
+  });
+
+  it('carries a rollover surplus and overspending into the next month', () => {
+    const history = computeBudgetHistory(
+      [budget({ rollover: true })],
+      [tx('2025-01', 4000), tx('2025-02', 18000), tx('2025-03', 1000)],
+      [],
+      [],
+      '2025-03'
+    );
+
+    expect(balances(history)).toEqual([
+      ['2025-01', [10000, 0, 4000, 6000]],
+      ['2025-02', [10000, 6000, 18000, -2000]],
+      ['2025-03', [10000, -2000, 1000, 7000]],
+    ]);
+  });
+
+  it('adjusts assigned amounts by moves between envelopes and the pool', () => {
+    const fun = budget({ id: 'fun', category: 'Fun' });
+    const history = computeBudgetHistory(
+      [budget(), fun],
+      [income('2025-01', 30000)],
+      [move('2025-01', 2500, 'fun', 'food'), move('2025-01', 1000, undefined, 'fun'), move('2025-02', 500, 'food')],
+      [],
+      '2025-02'
+    );
+
+    expect(history.map(({ budgets }) => budgets.map(p => p.assigned))).toEqual([
+      [12500, 8500],
+      [9500, 10000],
+    ]);
+    // January: 30000 - 21000 assigned; nothing spent, so 21000 comes back at month end
+    expect(history.map(entry => entry.availableToAssign)).toEqual([9000, 10500]);
+  });
+
+  it('keeps earlier months at the limit they had when the limit changes', () => {
+    const changed = budget({ limits: withLimitFrom(budget().limits, '2025-03', 20000 as Money) });
+    const history = computeBudgetHistory([changed], [], [], [], '2025-04');
+
+    expect(history.map(({ budgets }) => budgets[0].assigned)).toEqual([10000, 10000, 20000, 20000]);
+    expect(budgetLimitFor(changed, '2024-12')).toBe(0);
+  });
+
+  it('leaves out budgets before they start and after they end', () => {
+    const ended = budget({ rollover: true, endMonth: '2025-02' });
+    const later = budget({ id: 'fun', category: 'Fun', limits: [{ from: '2025-03', limit: 5000 as Money }] });
+    const history = computeBudgetHistory([ended, later], [], [], [], '2025-04');
+
+    expect(history.map(({ budgets }) => budgets.map(p => p.budget.id))).toEqual([
+      ['food'],
+      ['food'],
+      ['fun'],
+      ['fun'],
+    ]);
+    // The ended rollover budget's 20000 goes back to the pool after its last month
+    expect(history.map(entry => entry.availableToAssign)).toEqual([-10000, -20000, -5000, -5000]);
+  });
+
+  it('counts split lines in their own categories and ignores income and transfers', () => {
+    const history = computeBudgetHistory(
+      [budget()],
+      [
+        tx('2025-01', 3000, {
+          category: 'Food',
+          splits: [
+            { category: 'Food', amount: 1000 as Money },
+            { category: 'Home', amount: 2000 as Money },
+          ],
+        }),
+        tx('2025-01', 700, { type: 'transfer', toAccountId: 'bank' }),
+      ],
+      [],
+      [],
+      '2025-01'
+    );
+
+    expect(history[0].budgets[0].spent).toBe(1000);
+  });
+
+  it('counts subcategory spending in the parent budget unless the subcategory has its own', () => {
+    const category = (id: string, parentId?: string): Category => ({
+      id,
+      name: id,
+      type: 'expense',
+      emoji: '🍔',
+      color: '#f00',
+      parentId,
+      archived: false,
+    });
+    const categories = [category('Food'), category('Restaurants', 'Food'), category('Groceries', 'Food'), category('Home')];
+    const restaurants = budget({
+      id: 'restaurants',
+      category: 'Restaurants',
+      limits: [{ from: '2025-02', limit: 3000 as Money }],
+    });
+    const spending = ['2025-01', '2025-02'].flatMap(month => [
+      tx(month, 100),
+      tx(month, 200, { category: 'Restaurants' }),
+      tx(month, 400, { category: 'Groceries' }),
+      tx(month, 800, { category: 'Home' }),
+    ]);
+
+    const history = computeBudgetHistory([budget(), restaurants], spending, [], categories, '2025-02');
+
+    expect(history.map(({ budgets }) => budgets.map(p => [p.budget.id, p.spent]))).toEqual([
+      [['food', 700]],
+      [
+        ['food', 500],
+        ['restaurants', 200],
+      ],
+    ]);
+  });
+});
+
+describe('withLimitFrom', () => {
+  it('keeps changes in month order and replaces one made in the same month', () => {
+    const limits = withLimitFrom(
+      withLimitFrom([{ from: '2025-03', limit: 300 as Money }], '2025-01', 100 as Money),
+      '2025-03',
+      350 as Money
+    );
+    expect(limits).toEqual([
+      { from: '2025-01', limit: 100 },
+      { from: '2025-03', limit: 350 },
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import type { Account } from '../../app/context/AccountContext';
+import type { Category } from '../../app/context/CategoryContext';
+import type { Transaction } from '../../app/context/TransactionContext';
+import { parseCsv } from '../csv';
+import { buildCsvExport, CsvExportOptions } from '../csvExport';
+import { Money } from '../money';
+
+const categories: Category[] = [
+  { id: 'food', name: 'Food', type: 'expense', emoji: '🍔', color: '#f00', archived: false },
+  { id: 'fuel', name: 'Fuel', type: 'expense', emoji: '⛽', color: '#00f', archived: false },
+  { id: 'salary', name: 'Salary', type: 'income', emoji: '💼', color: '#0f0', archived: false },
+];
+
+const accounts: Account[] = [
+  { id: 'cash', name: 'Cash', type: 'cash', openingBalance: 0 as Money },
+  { id: 'bank', name: 'Bank, Main', type: 'bank', openingBalance: 0 as Money },
+];
+
+const options: CsvExportOptions = {
+  columns: ['date', 'title', 'type', 'amount', 'category', 'account', 'notes'],
+  dateOrder: 'ymd',
+  delimiter: ',',
+};
+
+const transaction = (changes: Partial<Transaction>): Transaction => ({
+  id: '1',
+  title: 'Lunch',
+  amount: 1250 as Money,
+  category: 'food',
+  type: 'expense',
+  date: new Date(2025, 3, 5, 13, 30).toISOString(),
+  accountId: 'cash',
+  ...changes,
+});
+
+const build = (transactions: Transaction[], changes: Partial<CsvExportOptions> = {}) =>
+  buildCsvExport(transactions, { ...options, ...changes }, { categories, accounts });
+
+// The lines of the file, without the byte order mark
+const lines = (csv: string) => csv.slice(1).split('\r\n');
+
+describe('buildCsvExport', () => {
+  it('starts with a byte order mark and ends every row with CRLF', () => {
+    const csv = build([transaction({})]);
+    expect(csv.startsWith('\uFEFF')).toBe(true);
+    expect(lines(csv)).toEqual([
+      'Date,Description,Type,Amount,Category,Account,Notes',
+      '2025-04-05,Lunch,expense,-12.50,Food,Cash,',
+      '',
+    ]);
+  });
+
+  it('quotes cells holding the delimiter, quotes or line breaks', () => {
+    const csv = build([
+      transaction({ title: 'Tea, biscuits', accountId: 'bank', notes: 'Said "thanks"' }),
+      transaction({ id: '2', title: 'Groceries', notes: 'Milk\nEggs' }),
+    ]);
+    expect(lines(csv).slice(1, 4)).toEqual([
+      '2025-04-05,"Tea, biscuits",expense,-12.50,Food,"Bank, Main","Said ""thanks"""',
+      '2025-04-05,Groceries,expense,-12.50,Food,Cash,"Milk\nEggs"',
+      '',
+    ]);
+    expect(parseCsv(csv.slice(1), ',').slice(1)).toEqual([
+      ['2025-04-05', 'Tea, biscuits', 'expense', '-12.50', 'Food', 'Bank, Main', 'Said "thanks"'],
+      ['2025-04-05', 'Groceries', 'expense', '-12.50', 'Food', 'Cash', 'Milk\nEggs'],
+    ]);
+  });
+
+  it('quotes for the chosen delimiter only', () => {
+    const csv = build([transaction({ title: 'Tea, biscuits; cake' })], { columns: ['title'], delimiter: ';' });
+    expect(lines(csv)[1]).toBe('"Tea, biscuits; cake"');
+    expect(lines(build([transaction({ title: 'Tea, biscuits' })], { columns: ['title'], delimiter: ';' }))[1]).toBe(
+      'Tea, biscuits'
+    );
+  });
+
+  it('keeps text that looks like a formula from running in a spreadsheet', () => {
+    const csv = build([
+      transaction({ title: '=HYPERLINK("http://example.com")', notes: '+1 for later' }),
+      transaction({ id: '2', title: '@SUM(A1)', notes: '-5 off' }),
+    ]);
+    expect(parseCsv(csv.slice(1), ',').slice(1).map(row => [row[1], row[6]])).toEqual([
+      ['\'=HYPERLINK("http://example.com")', "'+1 for later"],
+      ["'@SUM(A1)", "'-5 off"],
+    ]);
+  });
+
+  it('lists split categories with their shares and leaves transfers without one', () => {
+    const csv = build([
+      transaction({
+        amount: 5000 as Money,
+        splits: [
+          { category: 'food', amount: 3000 as Money },
+          { category: 'fuel', amount: 2000 as Money },
+        ],
+      }),
+      transaction({ id: '2', type: 'transfer', category: '', toAccountId: 'bank', amount: 10000 as Money }),
+      transaction({ id: '3', type: 'income', category: 'salary', amount: 500000 as Money }),
+    ]);
+    expect(parseCsv(csv.slice(1), ',').slice(1).map(row => row.slice(2, 5))).toEqual([
+      ['expense', '-50.00', 'Food (30.00); Fuel (20.00)'],
+      ['transfer', '100.00', ''],
+      ['income', '5000.00', 'Salary'],
+    ]);
+  });
+
+  it('writes columns in a fixed order and dates in the chosen order', () => {
+    const csv = build([transaction({ tags: ['trip', 'family'] })], {
+      columns: ['tags', 'amount', 'date'],
+      dateOrder: 'dmy',
+    });
+    expect(lines(csv).slice(0, 2)).toEqual(['Date,Amount,Tags', '05/04/2025,-12.50,"trip, family"']);
+    expect(lines(build([transaction({})], { columns: ['date'], dateOrder: 'mdy' }))[1]).toBe('04/05/2025');
+  });
+});
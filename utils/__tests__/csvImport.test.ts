@@ -0,0 +1,144 @@
+import type { Category } from '../../app/context/CategoryContext';
+import { parseCsvRows } from '../csv';
+import { buildCsvImport, CsvImportOptions, CsvMapping, guessMapping, NO_COLUMN } from '../csvImport';
+
+const categories: Category[] = [
+  { id: 'food', name: 'Food', type: 'expense', emoji: '🍔', color: '#f00', archived: false },
+  { id: 'other-expense', name: 'Other', type: 'expense', emoji: '📦', color: '#999', archived: false },
+  { id: 'salary', name: 'Salary', type: 'income', emoji: '💼', color: '#0f0', archived: false },
+];
+
+const options: CsvImportOptions = {
+  hasHeader: true,
+  dateOrder: 'dmy',
+  decimalSeparator: '.',
+  expenseSign: 'negative',
+  accountId: 'bank',
+};
+
+const singleColumn: CsvMapping = {
+  date: 0,
+  title: 1,
+  amountMode: 'single',
+  amount: 2,
+  debit: NO_COLUMN,
+  credit: NO_COLUMN,
+  category: NO_COLUMN,
+  notes: NO_COLUMN,
+};
+
+const build = (text: string, mapping = singleColumn, changes: Partial<CsvImportOptions> = {}) => {
+  let nextId = 0;
+  return buildCsvImport(parseCsvRows(text, ','), mapping, { ...options, ...changes }, categories, [], () =>
+    String(++nextId)
+  );
+};
+
+describe('guessMapping', () => {
+  it('finds a single signed amount column', () => {
+    expect(guessMapping(['Date', 'Description', 'Amount', 'Category', 'Notes'])).toEqual({
+      ...singleColumn,
+      category: 3,
+      notes: 4,
+    });
+  });
+
+  it('switches to debit and credit columns when both are present', () => {
+    expect(guessMapping(['Txn Date', 'Narration', 'Withdrawal Amt.', 'Deposit Amt.', 'Closing Balance'])).toEqual({
+      date: 0,
+      title: 1,
+      amountMode: 'debitCredit',
+      amount: NO_COLUMN,
+      debit: 2,
+      credit: 3,
+      category: NO_COLUMN,
+      notes: NO_COLUMN,
+    });
+  });
+
+  it('leaves unknown columns unmapped', () => {
+    expect(guessMapping(['a', 'b'])).toMatchObject({ date: NO_COLUMN, title: NO_COLUMN, amount: NO_COLUMN });
+  });
+});
+
+describe('buildCsvImport', () => {
+  it('reads negative amounts as expenses by default', () => {
+    const rows = build('Date,Description,Amount\n03/04/2025,Lunch,-12.50\n04/04/2025,Salary,1000');
+
+    expect(rows.map(row => row.transaction && [row.transaction.type, row.transaction.amount])).toEqual([
+      ['expense', 1250],
+      ['income', 100000],
+    ]);
+    expect(rows[0].transaction).toMatchObject({
+      title: 'Lunch',
+      date: new Date(2025, 3, 3).toISOString(),
+      accountId: 'bank',
+      category: 'other-expense',
+    });
+  });
+
+  it('reads positive amounts as expenses when the bank writes them that way', () => {
+    const rows = build('Date,Description,Amount\n03/04/2025,Card purchase,12.50\n04/04/2025,Refund,-5', singleColumn, {
+      expenseSign: 'positive',
+    });
+
+    expect(rows.map(row => row.transaction && [row.transaction.type, row.transaction.amount])).toEqual([
+      ['expense', 1250],
+      ['income', 500],
+    ]);
+  });
+
+  it('takes the direction from split debit and credit columns, whatever their sign', () => {
+    const mapping: CsvMapping = { ...singleColumn, amountMode: 'debitCredit', amount: NO_COLUMN, debit: 2, credit: 3 };
+    const rows = build(
+      [
+        'Date,Description,Debit,Credit',
+        '03/04/2025,Rent,500.00,',
+        '03/04/2025,Fee,-2.00,',
+        '04/04/2025,Pay,,"1,000.00"',
+        '05/04/2025,Both,1.00,2.00',
+        '05/04/2025,Neither,,',
+      ].join('\n'),
+      mapping
+    );
+
+    expect(rows.map(row => row.transaction && [row.transaction.type, row.transaction.amount])).toEqual([
+      ['expense', 50000],
+      ['expense', 200],
+      ['income', 100000],
+      null,
+      null,
+    ]);
+    expect(rows[3].errors).toEqual(['Both debit and credit are filled in']);
+    expect(rows[4].errors).toEqual(['Amount is zero']);
+  });
+
+  it('uses the category column when it names a category of the right type', () => {
+    const rows = build('Date,Description,Amount,Category\n03/04/2025,Lunch,-12.50,food', { ...singleColumn, category: 3 });
+    expect(rows[0].transaction?.category).toBe('food');
+  });
+
+  it('collects every problem with a row', () => {
+    const [row] = build('Date,Description,Amount\nsoon,,lots');
+
+    expect(row.transaction).toBeNull();
+    expect(row.errors).toEqual(['Unrecognised date "soon"', 'Missing description', 'Unrecognised amount "lots"']);
+  });
+
+  it('reports the line a row starts on when quoted cells span lines', () => {
+    const rows = build(
+      [
+        'Date,Description,Amount',
+        '03/04/2025,"Dinner',
+        'with friends",-40',
+        '',
+        '04/04/2025,"Line one\r\nline two\r\nline three",bad',
+        '05/04/2025,Coffee,-3',
+      ].join('\r\n')
+    );
+
+    expect(rows.map(row => row.line)).toEqual([2, 5, 8]);
+    expect(rows[0].transaction?.title).toBe('Dinner\r\nwith friends');
+    expect(rows[1].errors).toEqual(['Unrecognised amount "bad"']);
+  });
+});
@@ -0,0 +1,54 @@
+import type { Transaction } from '../../app/context/TransactionContext';
+import { findDuplicatePairs, findIncomingDuplicates } from '../duplicates';
+import { Money } from '../money';
+
+const tx = (id: string, changes: Partial<Transaction> = {}): Transaction => ({
+  id,
+  title: 'Corner Cafe',
+  amount: 450 as Money,
+  category: 'Food',
+  type: 'expense',
+  date: '2025-04-03T09:00:00.000Z',
+  accountId: 'cash',
+  ...changes,
+});
+
+describe('findDuplicatePairs', () => {
+  it('pairs similar entries of the same amount a few days apart', () => {
+    const original = tx('a');
+    const duplicate = tx('b', { date: '2025-04-05T09:00:00.000Z', title: 'CORNER CAFE' });
+    const pairs = findDuplicatePairs([duplicate, tx('c', { amount: 900 as Money }), original]);
+
+    expect(pairs).toEqual([{ key: 'a:b', original, duplicate }]);
+  });
+
+  it('ignores entries outside the window and pairs the user dismissed', () => {
+    expect(findDuplicatePairs([tx('a'), tx('b', { date: '2025-04-10T09:00:00.000Z' })])).toEqual([]);
+    expect(findDuplicatePairs([tx('a'), tx('b', { notDuplicateOf: ['a'] })])).toEqual([]);
+  });
+});
+
+describe('findIncomingDuplicates', () => {
+  it('matches incoming entries against the ledger', () => {
+    const existing = tx('a');
+    expect(findIncomingDuplicates([tx('new'), tx('other', { title: 'Bookshop' })], [existing])).toEqual({
+      new: existing,
+    });
+  });
+
+  it('flags a row that repeats an earlier row of the same import', () => {
+    const first = tx('row1');
+    expect(findIncomingDuplicates([first, tx('row2')], [])).toEqual({ row2: first });
+  });
+
+  it('prefers a ledger match over an earlier row', () => {
+    const existing = tx('a', { date: '2025-04-02T09:00:00.000Z' });
+    const first = tx('row1');
+    expect(findIncomingDuplicates([first, tx('row2')], [existing])).toEqual({ row1: existing, row2: existing });
+  });
+
+  it('leaves separate bank transactions alone', () => {
+    const incoming = [tx('row1', { importId: 'fit-1' }), tx('row2', { importId: 'fit-2' })];
+    expect(findIncomingDuplicates(incoming, [])).toEqual({});
+  });
+});
@@ -0,0 +1,44 @@
+import { parseOfx } from '../ofx';
+
+const transaction = (id: number, amount: string) =>
+  ['<STMTTRN>', '<TRNTYPE>DEBIT', '<DTPOSTED>20250403', `<TRNAMT>${amount}`, `<FITID>${id}`, '<NAME>Shop', '</STMTTRN>'];
+
+// Header takes five lines, so the first transaction starts on line 6 and each one spans seven
+const statement = (transactions: string[][]) =>
+  [
+    'OFXHEADER:100',
+    '<OFX>',
+    '<BANKACCTFROM>',
+    '<ACCTID>12345',
+    '</BANKACCTFROM>',
+    ...transactions.flat(),
+    '</OFX>',
+  ].join('\n');
+
+describe('parseOfx', () => {
+  it('reads entries and the account number', () => {
+    const { accountNumber, entries, problems } = parseOfx(statement([transaction(1, '-12.50'), transaction(2, '40')]));
+
+    expect(accountNumber).toBe('12345');
+    expect(problems).toEqual([]);
+    expect(entries.map(entry => [entry.importId, entry.amount, entry.title])).toEqual([
+      ['1', -1250, 'Shop'],
+      ['2', 4000, 'Shop'],
+    ]);
+  });
+
+  it('reports the line each transaction starts on', () => {
+    const { entries, problems } = parseOfx(statement([transaction(1, '5'), transaction(2, 'lots'), transaction(3, '7')]));
+
+    expect(entries.map(entry => entry.line)).toEqual([6, 20]);
+    expect(problems).toEqual([{ line: 13, message: 'Unrecognised amount "lots"' }]);
+  });
+
+  it('numbers lines correctly across a large statement', () => {
+    const count = 5000;
+    const { entries } = parseOfx(statement(Array.from({ length: count }, (_, i) => transaction(i, '1'))));
+
+    expect(entries).toHaveLength(count);
+    expect(entries[count - 1].line).toBe(6 + (count - 1) * 7);
+  });
+});
@@ -0,0 +1,62 @@
+import { hashPassword, MIN_PASSWORD_LENGTH, passwordProblems, verifyPassword } from '../passwords';
+
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: (length: number) => new Uint8Array(require('crypto').randomBytes(length)),
+}));
+
+describe('hashPassword and verifyPassword', () => {
+  it('accepts the password that was hashed and nothing else', async () => {
+    const stored = await hashPassword('tiger stripes 42');
+
+    expect(stored).toMatch(/^scrypt:16384:8:1:[0-9a-f]{32}:[0-9a-f]{64}$/);
+    expect(await verifyPassword('tiger stripes 42', stored)).toBe(true);
+    expect(await verifyPassword('tiger stripes 43', stored)).toBe(false);
+    expect(await verifyPassword('', stored)).toBe(false);
+  });
+
+  it('salts every hash', async () => {
+    expect(await hashPassword('tiger stripes 42')).not.toBe(await hashPassword('tiger stripes 42'));
+  });
+
+  it('treats a malformed stored hash as a mismatch instead of throwing', async () => {
+    const [, N, r, p, salt, hash] = (await hashPassword('tiger stripes 42')).split(':');
+
+    for (const stored of [
+      '',
+      'plain text password',
+      ['bcrypt', N, r, p, salt, hash].join(':'),
+      ['scrypt', N, r, p, 'not hex', hash].join(':'),
+      ['scrypt', 'many', r, p, salt, hash].join(':'),
+      ['scrypt', 1000, r, p, salt, hash].join(':'),
+      ['scrypt', N, r, p, salt, `${hash}0`].join(':'),
+      ['scrypt', N, r, p, salt].join(':'),
+    ]) {
+      expect(await verifyPassword('tiger stripes 42', stored)).toBe(false);
+    }
+  });
+});
+
+describe('passwordProblems', () => {
+  it('accepts a long mixed password', () => {
+    expect(passwordProblems('tiger stripes 42', 'alice')).toEqual([]);
+  });
+
+  it('asks for a minimum length', () => {
+    expect(passwordProblems('ab12', 'alice')).toEqual([`Use at least ${MIN_PASSWORD_LENGTH} characters`]);
+  });
+
+  it('asks for letters mixed with something else', () => {
+    expect(passwordProblems('onlylettershere')).toEqual(['Mix letters with numbers or symbols']);
+    expect(passwordProblems('8675309112')).toEqual(['Mix letters with numbers or symbols']);
+    expect(passwordProblems('éèêëāăą-123')).toEqual([]);
+  });
+
+  it('rejects the username in any case', () => {
+    expect(passwordProblems('my-ALICE-password', ' Alice ')).toEqual(["Don't include your username"]);
+  });
+
+  it('rejects common and repeated passwords', () => {
+    expect(passwordProblems('Password123')).toEqual(['Choose something less common']);
+    expect(passwordProblems('!!!!!!!!!!')).toEqual(['Mix letters with numbers or symbols', 'Choose something less common']);
+  });
+});
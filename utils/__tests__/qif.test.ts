@@ -0,0 +1,91 @@
+import { parseQif } from '../qif';
+
+const localDate = (year: number, month: number, day: number) => new Date(year, month - 1, day).toISOString();
+
+describe('parseQif', () => {
+  it('reads entries, the account name and categories', () => {
+    const { accountName, entries, problems } = parseQif(
+      [
+        '!Account',
+        'NEveryday',
+        'TBank',
+        '^',
+        '!Type:Bank',
+        "D4/3'25",
+        'T-1,234.50',
+        'PGrocer',
+        'MWeekly shop',
+        'LFood:Groceries/Household',
+        '^',
+        'D4/ 5/2025',
+        'T200.00',
+        'PFrom savings',
+        'L[Savings]',
+        '^',
+      ].join('\n'),
+      'dmy'
+    );
+
+    expect(accountName).toBe('Everyday');
+    expect(problems).toEqual([]);
+    expect(entries).toEqual([
+      {
+        line: 6,
+        importId: `qif|${localDate(2025, 3, 4).slice(0, 10)}|-123450|grocer|`,
+        date: localDate(2025, 3, 4),
+        amount: -123450,
+        title: 'Grocer',
+        notes: 'Weekly shop',
+        category: 'Food › Groceries',
+      },
+      expect.objectContaining({ line: 12, date: localDate(2025, 5, 4), amount: 20000, title: 'From savings' }),
+    ]);
+    expect(entries[1]).not.toHaveProperty('category');
+  });
+
+  it('reads comma decimal amounts when asked', () => {
+    const text = ['!Type:Bank', 'D03.04.2025', 'T-1.234,50', 'PGrocer', '^'].join('\n');
+
+    expect(parseQif(text, 'dmy', ',').entries.map(entry => entry.amount)).toEqual([-123450]);
+    expect(parseQif(text, 'dmy').problems).toEqual([{ line: 2, message: 'Unrecognised amount "-1.234,50"' }]);
+  });
+
+  it('numbers identical entries so both are imported', () => {
+    const record = ['D03/04/2025', 'T-5.00', 'PCoffee', '^'];
+    const { entries } = parseQif(['!Type:Cash', ...record, ...record].join('\n'), 'dmy');
+
+    expect(entries.map(entry => entry.importId)).toEqual([
+      entries[0].importId,
+      `${entries[0].importId}|2`,
+    ]);
+  });
+
+  it('reports bad records by the line they start on and skips non-transaction lists', () => {
+    const { entries, problems } = parseQif(
+      [
+        '!Type:Cat',
+        'NFood',
+        'E',
+        '^',
+        '!Type:Bank',
+        'Dsomeday',
+        'T-5.00',
+        '^',
+        'D03/04/2025',
+        'Tlots',
+        '^',
+        'D03/04/2025',
+        'T0',
+        '^',
+      ].join('\n'),
+      'dmy'
+    );
+
+    expect(entries).toEqual([]);
+    expect(problems).toEqual([
+      { line: 6, message: 'Unrecognised date "someday"' },
+      { line: 9, message: 'Unrecognised amount "lots"' },
+      { line: 12, message: 'Unrecognised amount "0"' },
+    ]);
+  });
+});
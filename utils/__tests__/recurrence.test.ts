@@ -0,0 +1,130 @@
+import type { RecurringRule } from '../../app/context/RecurringContext';
+import { Money } from '../money';
+import {
+  buildOccurrenceTransaction,
+  listOccurrences,
+  materializeDueOccurrences,
+  upcomingOccurrences
+} from '../recurrence';
+
+// Local time, as the app schedules occurrences
+const at = (year: number, month: number, day: number) => new Date(year, month - 1, day, 9);
+
+const rule = (changes: Partial<RecurringRule> = {}): RecurringRule => ({
+  id: 'rent',
+  template: { title: 'Rent', amount: 50000 as Money, category: 'Housing', type: 'expense', accountId: 'cash' },
+  startDate: at(2024, 1, 31).toISOString(),
+  frequency: 'monthly',
+  interval: 1,
+  paused: false,
+  skippedDates: [],
+  overrides: {},
+  ...changes,
+});
+
+const keys = (recurring: RecurringRule, until: Date) =>
+  listOccurrences(recurring, { after: null, until }).map(occurrence => occurrence.key);
+
+describe('listOccurrences', () => {
+  it('clamps month-end dates without drifting', () => {
+    expect(keys(rule(), at(2024, 5, 1))).toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30']);
+    expect(keys(rule({ startDate: at(2025, 1, 31).toISOString() }), at(2025, 3, 31))).toEqual([
+      '2025-01-31',
+      '2025-02-28',
+      '2025-03-31',
+    ]);
+  });
+
+  it('keeps a leap day yearly rule on Feb 28 until the next leap year', () => {
+    const leapDay = rule({ startDate: at(2024, 2, 29).toISOString(), frequency: 'yearly' });
+    expect(keys(leapDay, at(2028, 12, 31))).toEqual(['2024-02-29', '2025-02-28', '2026-02-28', '2027-02-28', '2028-02-29']);
+  });
+
+  it('steps by the interval', () => {
+    const fortnightly = rule({ startDate: at(2024, 1, 1).toISOString(), frequency: 'weekly', interval: 2 });
+    expect(keys(fortnightly, at(2024, 2, 1))).toEqual(['2024-01-01', '2024-01-15', '2024-01-29']);
+  });
+
+  it('stops after count occurrences or on the end date, whichever comes first', () => {
+    const until = at(2025, 1, 1);
+    expect(keys(rule({ count: 2 }), until)).toEqual(['2024-01-31', '2024-02-29']);
+    expect(keys(rule({ endDate: '2024-03-31' }), until)).toEqual(['2024-01-31', '2024-02-29', '2024-03-31']);
+    expect(keys(rule({ endDate: '2024-03-31', count: 5 }), until)).toHaveLength(3);
+    expect(keys(rule({ endDate: '2024-12-31', count: 1 }), until)).toHaveLength(1);
+  });
+});
+
+describe('materializeDueOccurrences', () => {
+  it('creates each due occurrence with an id derived from the rule and its date', () => {
+    const { transactions, rules } = materializeDueOccurrences([rule()], at(2024, 3, 31));
+
+    expect(transactions.map(tx => tx.id)).toEqual(['rent-2024-01-31', 'rent-2024-02-29', 'rent-2024-03-31']);
+    expect(transactions[1]).toMatchObject({
+      title: 'Rent',
+      amount: 50000,
+      date: at(2024, 2, 29).toISOString(),
+      recurringId: 'rent',
+      occurrenceDate: '2024-02-29',
+    });
+    expect(rules[0].lastMaterializedAt).toBe(at(2024, 3, 31).toISOString());
+  });
+
+  it('creates nothing and leaves the rules untouched when run again', () => {
+    const now = at(2024, 3, 31);
+    const first = materializeDueOccurrences([rule()], now);
+    const second = materializeDueOccurrences(first.rules, now);
+
+    expect(second.transactions).toEqual([]);
+    expect(second.rules).toBe(first.rules);
+
+    const later = materializeDueOccurrences(first.rules, at(2024, 4, 30));
+    expect(later.transactions.map(tx => tx.id)).toEqual(['rent-2024-04-30']);
+  });
+
+  it('passes over skipped occurrences and leaves paused rules alone', () => {
+    const skipping = rule({ skippedDates: ['2024-02-29'] });
+    const paused = rule({ id: 'gym', paused: true });
+    const { transactions, rules } = materializeDueOccurrences([skipping, paused], at(2024, 3, 31));
+
+    expect(transactions.map(tx => tx.id)).toEqual(['rent-2024-01-31', 'rent-2024-03-31']);
+    // The skipped one isn't offered again on the next run
+    expect(rules[0].lastMaterializedAt).toBe(at(2024, 3, 31).toISOString());
+    expect(rules[1]).toBe(paused);
+  });
+});
+
+describe('single-occurrence edits', () => {
+  it('applies the edited fields to that occurrence only', () => {
+    const edited = rule({ overrides: { '2024-02-29': { amount: 55000 as Money, notes: 'Includes repairs' } } });
+    const { transactions } = materializeDueOccurrences([edited], at(2024, 3, 31));
+
+    expect(transactions.map(tx => [tx.amount, tx.notes])).toEqual([
+      [50000, undefined],
+      [55000, 'Includes repairs'],
+      [50000, undefined],
+    ]);
+  });
+
+  it('can move an occurrence earlier but not past the day it is created', () => {
+    const [occurrence] = listOccurrences(rule(), { after: null, until: null, limit: 1 });
+    const earlier = at(2024, 1, 28).toISOString();
+    const later = at(2024, 2, 5).toISOString();
+
+    expect(buildOccurrenceTransaction(rule({ overrides: { '2024-01-31': { date: earlier } } }), occurrence).date).toBe(earlier);
+    expect(buildOccurrenceTransaction(rule({ overrides: { '2024-01-31': { date: later } } }), occurrence).date).toBe(
+      occurrence.date
+    );
+  });
+});
+
+describe('upcomingOccurrences', () => {
+  it('lists what comes after both now and the last occurrence created', () => {
+    const created = rule({ lastMaterializedAt: at(2024, 3, 31).toISOString() });
+
+    expect(upcomingOccurrences(created, at(2024, 2, 1), 2).map(occurrence => occurrence.key)).toEqual([
+      '2024-04-30',
+      '2024-05-31',
+    ]);
+    expect(upcomingOccurrences(created, at(2024, 6, 1), 1).map(occurrence => occurrence.key)).toEqual(['2024-06-30']);
+  });
+});
@@ -0,0 +1,114 @@
+import type { Account } from '../../app/context/AccountContext';
+import type { Category } from '../../app/context/CategoryContext';
+import type { SavingsGoal } from '../../app/context/SavingsContext';
+import type { Transaction } from '../../app/context/TransactionContext';
+import { Money } from '../money';
+import { buildReport, monthPeriod, renderReportHtml } from '../report';
+
+const categories: Category[] = [
+  { id: 'food', name: 'Food', type: 'expense', emoji: '🍔', color: '#f00', archived: false },
+  { id: 'salary', name: 'Salary', type: 'income', emoji: '💼', color: '#0f0', archived: false },
+];
+
+const accounts: Account[] = [
+  { id: 'cash', name: 'Cash', type: 'cash', openingBalance: 10000 as Money },
+  { id: 'bank', name: 'Bank', type: 'bank', openingBalance: 0 as Money },
+];
+
+const transaction = (changes: Partial<Transaction>): Transaction => ({
+  id: '1',
+  title: 'Lunch',
+  amount: 1250 as Money,
+  category: 'food',
+  type: 'expense',
+  date: new Date(2025, 3, 5, 13, 30).toISOString(),
+  accountId: 'cash',
+  ...changes,
+});
+
+const april = monthPeriod('2025-04');
+
+const report = (
+  transactions: Transaction[],
+  changes: { accounts?: Account[]; categories?: Category[]; savingsGoals?: SavingsGoal[] } = {}
+) =>
+  buildReport(april, { transactions, accounts, categories, savingsGoals: [], ...changes });
+
+describe('buildReport', () => {
+  it('carries balances over from before the period and lists only its transactions', () => {
+    const built = report([
+      transaction({ id: 'march', amount: 2000 as Money, date: new Date(2025, 2, 31, 23, 0).toISOString() }),
+      transaction({ id: 'pay', type: 'income', category: 'salary', amount: 50000 as Money, accountId: 'bank' }),
+      transaction({ id: 'lunch', notes: 'With the team' }),
+      transaction({ id: 'may', date: new Date(2025, 4, 1).toISOString() }),
+    ]);
+
+    expect(april).toEqual({ start: '2025-04-01', end: '2025-04-30' });
+    expect(built.openingBalance).toBe(8000);
+    expect(built.closingBalance).toBe(56750);
+    expect(built.totalIncome).toBe(50000);
+    expect(built.totalExpense).toBe(1250);
+    expect(built.entries.map(entry => entry.id)).toEqual(['pay', 'lunch']);
+    expect(built.entries[1]).toMatchObject({ category: 'Food', account: 'Cash', notes: 'With the team' });
+  });
+});
+
+describe('renderReportHtml', () => {
+  it('escapes text the user typed', () => {
+    const html = renderReportHtml(
+      report(
+        [
+          transaction({
+            title: '<script>alert("hi")</script>',
+            notes: 'Tom & Jerry\'s <b>treat</b>',
+            accountId: 'evil',
+            category: 'evil-category',
+          }),
+        ],
+        {
+          accounts: [
+            ...accounts,
+            { id: 'evil', name: '<img src=x onerror=alert(1)>', type: 'wallet', openingBalance: 0 as Money },
+          ],
+          categories: [
+            ...categories,
+            {
+              id: 'evil-category',
+              name: '"Snacks" & <more>',
+              type: 'expense',
+              emoji: '🍿',
+              color: '#000',
+              archived: false,
+            },
+          ],
+          savingsGoals: [
+            {
+              id: 'goal',
+              title: '</td><script>steal()</script>',
+              targetAmount: 100000 as Money,
+              currentAmount: 25000 as Money,
+              deadline: '2025-12-31',
+              category: 'savings',
+            },
+          ],
+        }
+      ),
+      new Date(2025, 4, 1)
+    );
+
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('<img');
+    expect(html).not.toContain('<b>');
+    expect(html).toContain('&lt;script&gt;alert(&quot;hi&quot;)&lt;/script&gt;');
+    expect(html).toContain('Tom &amp; Jerry&#39;s &lt;b&gt;treat&lt;/b&gt;');
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+    expect(html).toContain('&quot;Snacks&quot; &amp; &lt;more&gt;');
+    expect(html).toContain('&lt;/td&gt;&lt;script&gt;steal()&lt;/script&gt;');
+  });
+
+  it('shows notes under the transaction title', () => {
+    const html = renderReportHtml(report([transaction({ notes: 'Split with Ali' }), transaction({ id: '2' })]));
+    expect(html).toContain('Lunch<div class="muted note">Split with Ali</div>');
+    expect(html.match(/class="muted note"/g)).toHaveLength(1);
+  });
+});
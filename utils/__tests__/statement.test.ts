@@ -0,0 +1,87 @@
+import { parseStatementAmount, parseStatementDate } from '../statement';
+
+describe('parseStatementAmount', () => {
+  it.each([
+    ['12.50', 1250],
+    ['1,234.50', 123450],
+    ['$12.50', 1250],
+    ['12.50 USD', 1250],
+    ['+12.50', 1250],
+  ])('reads %s as a positive amount', (raw, expected) => {
+    expect(parseStatementAmount(raw)).toBe(expected);
+  });
+
+  it.each([
+    ['-12.50'],
+    ['-$12.50'],
+    ['$-12.50'],
+    ['USD -12.50'],
+    ['USD-12.50'],
+    ['(12.50)'],
+    ['($12.50)'],
+    ['$(12.50)'],
+    ['12.50-'],
+    ['12.50 USD-'],
+    ['−12.50'],
+  ])('reads %s as a negative amount', raw => {
+    expect(parseStatementAmount(raw)).toBe(-1250);
+  });
+
+  it('reads a comma decimal separator when asked', () => {
+    expect(parseStatementAmount('1.234,50 €', ',')).toBe(123450);
+    expect(parseStatementAmount('€ -1.234,50', ',')).toBe(-123450);
+  });
+
+  it.each([[''], ['-'], ['USD'], ['2025-01-01']])('rejects %j', raw => {
+    expect(parseStatementAmount(raw)).toBeNull();
+  });
+});
+
+describe('parseStatementDate', () => {
+  it('reads numeric dates in the given order at local midnight', () => {
+    const expected = new Date(2025, 3, 3).toISOString();
+    expect(parseStatementDate('2025-04-03', 'ymd')).toBe(expected);
+    expect(parseStatementDate('03/04/2025', 'dmy')).toBe(expected);
+    expect(parseStatementDate('04/03/25', 'mdy')).toBe(expected);
+  });
+
+  it('reads a local time, with or without seconds', () => {
+    const expected = new Date(2025, 3, 3, 14, 30).toISOString();
+    expect(parseStatementDate('2025-04-03 14:30', 'ymd')).toBe(expected);
+    expect(parseStatementDate('2025-04-03T14:30:00', 'ymd')).toBe(expected);
+  });
+
+  it.each([
+    ['03/04/2025 2:30 PM', 14, 30],
+    ['03/04/2025 2:30pm', 14, 30],
+    ['03/04/2025 02:30:15 p.m.', 14, 30],
+    ['03/04/2025 12:05 AM', 0, 5],
+    ['03/04/2025 12:05 PM', 12, 5],
+    ['03/04/2025 9:00 am', 9, 0],
+  ])('reads the 12-hour time in %s', (raw, hours, minutes) => {
+    expect(parseStatementDate(raw, 'dmy')).toBe(new Date(2025, 3, 3, hours, minutes).toISOString());
+  });
+
+  it.each([
+    ['2025-04-03T14:30:00Z', '2025-04-03T14:30:00.000Z'],
+    ['2025-04-03T14:30:15.250Z', '2025-04-03T14:30:15.000Z'],
+    ['2025-04-03T14:30:00+05:00', '2025-04-03T09:30:00.000Z'],
+    ['2025-04-03T01:30-0330', '2025-04-03T05:00:00.000Z'],
+    ['2025-04-03 23:30:00 -02:00', '2025-04-04T01:30:00.000Z'],
+    ['2025-04-03 11:30 PM -02:00', '2025-04-04T01:30:00.000Z'],
+  ])('keeps the moment named by %s', (raw, expected) => {
+    expect(parseStatementDate(raw, 'ymd')).toBe(expected);
+  });
+
+  it.each([
+    ['2025-02-30'],
+    ['2025-04-03 24:00'],
+    ['2025-04-03T14:30:61Z'],
+    ['2025-04-03 14:30 PM'],
+    ['2025-04-03 0:30 AM'],
+    ['2025-04-03 2:30 in the afternoon'],
+    ['yesterday'],
+  ])('rejects %s', raw => {
+    expect(parseStatementDate(raw, 'ymd')).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import type { Account } from '../app/context/AccountContext';
+import type { Transaction } from '../app/context/TransactionContext';
+import { toTimestamp } from './date';
+import { addMoney, Money, subtractMoney } from './money';
+
+// Effect of a transaction on one account's balance
+const applyTransaction = (balance: Money, tx: Transaction, accountId: string) => {
+  if (tx.type === 'transfer') {
+    if (tx.toAccountId === accountId) balance = addMoney(balance, tx.amount);
+    if (tx.accountId === accountId) balance = subtractMoney(balance, tx.amount);
+    return balance;
+  }
+  if (tx.accountId !== accountId) return balance;
+  return tx.type === 'income' ? addMoney(balance, tx.amount) : subtractMoney(balance, tx.amount);
+};
+
+export const involvesAccount = (tx: Transaction, accountId: string) =>
+  tx.accountId === accountId || tx.toAccountId === accountId;
+
+/**
+ * Current balance of every account, keyed by account id.
+ */
+export const accountBalances = (accounts: Account[], transactions: Transaction[]) => {
+  const balances: Record<string, Money> = {};
+  accounts.forEach(account => {
+    balances[account.id] = account.openingBalance;
+  });
+  transactions.forEach(tx => {
+    [tx.accountId, tx.toAccountId].forEach(id => {
+      if (id !== undefined && id in balances) {
+        balances[id] = applyTransaction(balances[id], tx, id);
+      }
+    });
+  });
+  return balances;
+};
+
+/**
+ * Balance of one account right after each of its transactions, keyed by
+ * transaction id. Transactions are applied in date order.
+ */
+export const runningBalances = (account: Account, transactions: Transaction[]) => {
+  const balances: Record<string, Money> = {};
+  let balance = account.openingBalance;
+
+  transactions
+    .filter(tx => involvesAccount(tx, account.id))
+    .sort((a, b) => toTimestamp(a.date) - toTimestamp(b.date))
+    .forEach(tx => {
+      balance = applyTransaction(balance, tx, account.id);
+      balances[tx.id] = balance;
+    });
+  return balances;
+};
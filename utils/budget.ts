@@ -0,0 +1,168 @@
+import type { Budget, BudgetLimit, BudgetMove } from '../app/context/BudgetContext';
+import type { Category } from '../app/context/CategoryContext';
+import type { Transaction } from '../app/context/TransactionContext';
+import { addMonths, toMonthKey } from './date';
+import { addMoney, compareMoney, Money, subtractMoney, sumMoney, ZERO } from './money';
+import { categoryLines } from './splits';
+
+export interface BudgetProgress {
+  budget: Budget;
+  // Balance brought forward from last month; always zero without rollover
+  carriedOver: Money;
+  // Monthly limit plus money moved in, minus money moved out
+  assigned: Money;
+  spent: Money;
+  // Negative once the budget is overspent
+  remaining: Money;
+  isOverspent: boolean;
+  // Share of the money available this month that was spent, 0-100+ (not capped)
+  percentUsed: number;
+}
+
+export interface BudgetMonth {
+  // YYYY-MM
+  month: string;
+  income: Money;
+  // Income not yet given to an envelope; negative when more was assigned than earned
+  availableToAssign: Money;
+  budgets: BudgetProgress[];
+}
+
+// Income and per-category expenses for every month, in one pass
+const monthlyTotals = (transactions: Transaction[]) => {
+  const income: Record<string, Money> = {};
+  const spending: Record<string, Record<string, Money>> = {};
+
+  transactions.forEach(tx => {
+    const month = toMonthKey(tx.date);
+    if (tx.type === 'income') {
+      income[month] = addMoney(income[month] ?? ZERO, tx.amount);
+    } else if (tx.type === 'expense') {
+      const byCategory = (spending[month] ??= {});
+      categoryLines(tx).forEach(({ category, amount }) => {
+        byCategory[category] = addMoney(byCategory[category] ?? ZERO, amount);
+      });
+    }
+  });
+  return { income, spending };
+};
+
+/**
+ * Month the budget starts in (YYYY-MM).
+ */
+export const budgetStartMonth = (budget: Budget) => budget.limits[0]?.from ?? '';
+
+export const isBudgetActive = (budget: Budget, month: string) =>
+  budgetStartMonth(budget) !== '' &&
+  budgetStartMonth(budget) <= month &&
+  (budget.endMonth === undefined || month <= budget.endMonth);
+
+/**
+ * The limit in force in `month`: the latest change made in or before it.
+ */
+export const budgetLimitFor = (budget: Budget, month: string) =>
+  budget.limits.reduce<Money>((current, { from, limit }) => (from <= month ? limit : current), ZERO);
+
+/**
+ * `limits` with `limit` taking effect in `month`, replacing a change already made that month.
+ */
+export const withLimitFrom = (limits: BudgetLimit[], month: string, limit: Money): BudgetLimit[] =>
+  [...limits.filter(entry => entry.from !== month), { from: month, limit }].sort((a, b) =>
+    a.from.localeCompare(b.from)
+  );
+
+const movedAmount = (moves: BudgetMove[], matches: (move: BudgetMove) => boolean) =>
+  sumMoney(moves.filter(matches).map(move => move.amount));
+
+/**
+ * Envelope balances month by month, from the earliest budget's start month up
+ * to `untilMonth` inclusive.
+ *
+ * Each month every active budget is assigned the limit in force that month
+ * (adjusted by moves) out of the pool that income feeds. At month end a
+ * rollover budget keeps its balance, surplus or overspend, for next month;
+ * any other budget, or one in its last month, hands it back to the pool.
+ *
+ * A budget on a parent category also covers spending in its subcategories,
+ * except those with a budget of their own that month.
+ */
+export const computeBudgetHistory = (
+  budgets: Budget[],
+  transactions: Transaction[],
+  moves: BudgetMove[],
+  categories: Category[],
+  untilMonth: string
+): BudgetMonth[] => {
+  const { income, spending } = monthlyTotals(transactions);
+  const subcategories: Record<string, string[]> = {};
+  categories.forEach(({ id, parentId }) => {
+    if (parentId) (subcategories[parentId] ??= []).push(id);
+  });
+  const firstMonth = budgets.reduce((earliest, budget) => {
+    const start = budgetStartMonth(budget);
+    return start && start < earliest ? start : earliest;
+  }, untilMonth);
+
+  const history: BudgetMonth[] = [];
+  const balances: Record<string, Money> = {};
+  let pool = ZERO;
+
+  for (let month = firstMonth; month <= untilMonth; month = addMonths(month, 1)) {
+    const monthIncome = income[month] ?? ZERO;
+    const monthMoves = moves.filter(move => move.month === month);
+
+    const active = budgets.filter(budget => isBudgetActive(budget, month));
+    const budgeted = new Set(active.map(budget => budget.category));
+    const spentIn = (category: string) => spending[month]?.[category] ?? ZERO;
+
+    const progress = active.map(budget => {
+      const assigned = subtractMoney(
+        addMoney(budgetLimitFor(budget, month), movedAmount(monthMoves, move => move.toBudgetId === budget.id)),
+        movedAmount(monthMoves, move => move.fromBudgetId === budget.id)
+      );
+      const carriedOver = budget.rollover ? balances[budget.id] ?? ZERO : ZERO;
+      const funded = addMoney(carriedOver, assigned);
+      const spent = sumMoney([
+        spentIn(budget.category),
+        ...(subcategories[budget.category] ?? []).filter(id => !budgeted.has(id)).map(spentIn),
+      ]);
+      const remaining = subtractMoney(funded, spent);
+
+      return {
+        budget,
+        carriedOver,
+        assigned,
+        spent,
+        remaining,
+        isOverspent: compareMoney(remaining, ZERO) < 0,
+        percentUsed: funded > 0 ? (spent / funded) * 100 : spent > 0 ? Infinity : 0,
+      };
+    });
+
+    pool = subtractMoney(addMoney(pool, monthIncome), sumMoney(progress.map(p => p.assigned)));
+    history.push({ month, income: monthIncome, availableToAssign: pool, budgets: progress });
+
+    progress.forEach(({ budget, remaining }) => {
+      if (budget.rollover && budget.endMonth !== month) {
+        balances[budget.id] = remaining;
+      } else {
+        pool = addMoney(pool, remaining);
+      }
+    });
+  }
+  return history;
+};
+
+/**
+ * Budget-vs-actual for every budget active in the given month.
+ */
+export const computeBudgetMonth = (
+  budgets: Budget[],
+  transactions: Transaction[],
+  moves: BudgetMove[],
+  categories: Category[],
+  month: string
+): BudgetMonth => {
+  const history = computeBudgetHistory(budgets, transactions, moves, categories, month);
+  return history[history.length - 1];
+};
@@ -0,0 +1,72 @@
+import type { Category, CategoryType } from '../app/context/CategoryContext';
+import type { TransactionSplit } from '../app/context/TransactionContext';
+import { addMoney } from './money';
+
+type Categorized = { category: string; splits?: TransactionSplit[] };
+
+/**
+ * "Food & Dining › Restaurants" for a subcategory, the plain name otherwise.
+ * Unknown ids are shown as-is.
+ */
+export const categoryPath = (categories: Category[], id: string) => {
+  const category = categories.find(c => c.id === id);
+  if (!category) return id;
+  const parent = category.parentId ? categories.find(c => c.id === category.parentId) : undefined;
+  return parent ? `${parent.name} › ${category.name}` : category.name;
+};
+
+/**
+ * Picker entries for one transaction type, each parent followed by its
+ * children. Archived categories are left out unless `keepId` is one of them,
+ * so editing an old transaction doesn't silently change its category.
+ */
+export const categoryPickerOptions = (categories: Category[], type: CategoryType, keepId?: string) => {
+  const visible = categories.filter(c => c.type === type && (!c.archived || c.id === keepId));
+  const isTopLevel = (c: Category) => !c.parentId || !visible.some(p => p.id === c.parentId);
+
+  return visible.filter(isTopLevel).flatMap(parent => [
+    { label: `${parent.emoji} ${parent.name}`, value: parent.id },
+    ...visible
+      .filter(child => child.parentId === parent.id)
+      .map(child => ({ label: `  ↳ ${child.emoji} ${child.name}`, value: child.id })),
+  ]);
+};
+
+/**
+ * The category of `type` called `name`, matched case-insensitively against
+ * its name or its full "Parent › Child" path, e.g. when importing.
+ */
+export const findCategoryByName = (categories: Category[], type: CategoryType, name: string) => {
+  const wanted = name.trim().toLowerCase();
+  const ofType = categories.filter(c => c.type === type);
+  return (
+    ofType.find(c => categoryPath(categories, c.id).toLowerCase() === wanted) ??
+    ofType.find(c => c.name.toLowerCase() === wanted)
+  );
+};
+
+export const usesCategory = (item: Categorized, id: string) =>
+  item.category === id || !!item.splits?.some(split => split.category === id);
+
+/**
+ * Moves everything filed under `fromId` to `toId`. Split lines that end up in
+ * the same category are combined, and a split left with one line is dropped.
+ */
+export const reassignCategory = <T extends Categorized>(item: T, fromId: string, toId: string): T => {
+  if (!usesCategory(item, fromId)) return item;
+
+  const category = item.category === fromId ? toId : item.category;
+  if (!item.splits) return { ...item, category };
+
+  const merged: TransactionSplit[] = [];
+  item.splits.forEach(split => {
+    const splitCategory = split.category === fromId ? toId : split.category;
+    const existing = merged.find(line => line.category === splitCategory);
+    if (existing) {
+      existing.amount = addMoney(existing.amount, split.amount);
+    } else {
+      merged.push({ category: splitCategory, amount: split.amount });
+    }
+  });
+  return { ...item, category, splits: merged.length > 1 ? merged : undefined };
+};
@@ -0,0 +1,99 @@
+import type { CategoryRule } from '../app/context/CategoryRuleContext';
+import type { Transaction } from '../app/context/TransactionContext';
+import { compareMoney } from './money';
+import { similarWords, titleWords } from './payees';
+
+// What a rule looks at; the add form has these before the rest of the transaction
+export type RuleInput = Pick<Transaction, 'title' | 'amount' | 'accountId'>;
+
+// Changes a rule makes to one transaction
+export type RuleOutcome = Pick<Partial<Transaction>, 'type' | 'category' | 'tags'>;
+
+const titleMatcher = (rule: CategoryRule): ((title: string) => boolean) | null => {
+  if (rule.titleMatch === 'regex') {
+    try {
+      const pattern = new RegExp(rule.titlePattern, 'i');
+      return title => pattern.test(title);
+    } catch {
+      return null;
+    }
+  }
+  const needle = rule.titlePattern.trim().toLowerCase();
+  return title => title.toLowerCase().includes(needle);
+};
+
+/**
+ * Why the rule can't be saved, or null when it can.
+ */
+export const categoryRuleError = (rule: CategoryRule): string | null => {
+  if (!rule.titlePattern.trim()) return 'Please enter text for the title to match';
+  if (!titleMatcher(rule)) return 'The regular expression is not valid';
+  if (rule.minAmount !== undefined && rule.maxAmount !== undefined &&
+    compareMoney(rule.minAmount, rule.maxAmount) > 0) {
+    return 'The minimum amount is above the maximum';
+  }
+  if (!rule.category && !rule.tags?.length) return 'A rule needs a category or tags to assign';
+  return null;
+};
+
+export const categoryRuleMatches = (rule: CategoryRule, input: RuleInput) =>
+  rule.enabled &&
+  (titleMatcher(rule)?.(input.title) ?? false) &&
+  (rule.minAmount === undefined || compareMoney(input.amount, rule.minAmount) >= 0) &&
+  (rule.maxAmount === undefined || compareMoney(input.amount, rule.maxAmount) <= 0) &&
+  (rule.accountId === undefined || rule.accountId === input.accountId);
+
+// The first enabled rule, in priority order, that matches
+export const findCategoryRule = (rules: CategoryRule[], input: RuleInput) =>
+  rules.find(rule => categoryRuleMatches(rule, input));
+
+/**
+ * The fields the rule would change on `tx`, empty when it already agrees.
+ * Split transactions keep their categories and only gain tags.
+ */
+export const categoryRuleOutcome = (rule: CategoryRule, tx: Transaction): RuleOutcome => {
+  const outcome: RuleOutcome = {};
+  if (rule.category && rule.type && !tx.splits) {
+    if (tx.type !== rule.type) outcome.type = rule.type;
+    if (tx.category !== rule.category) outcome.category = rule.category;
+  }
+  const newTags = (rule.tags ?? []).filter(tag => !tx.tags?.includes(tag));
+  if (newTags.length > 0) outcome.tags = [...(tx.tags ?? []), ...newTags];
+  return outcome;
+};
+
+/**
+ * What re-running the rules over existing transactions would change.
+ * Transfers are never touched.
+ */
+export const rerunCategoryRules = (rules: CategoryRule[], transactions: Transaction[]) =>
+  transactions.flatMap(tx => {
+    if (tx.type === 'transfer') return [];
+    const rule = findCategoryRule(rules, tx);
+    const changes = rule ? categoryRuleOutcome(rule, tx) : {};
+    return Object.keys(changes).length > 0 ? [{ id: tx.id, changes }] : [];
+  });
+
+/**
+ * The category most often used for titles like `title`: the same words, or
+ * at least half of them in common. Null without enough history.
+ */
+export const suggestCategory = (
+  transactions: Transaction[],
+  title: string,
+  type: 'income' | 'expense'
+): { category: string; count: number } | null => {
+  const words = titleWords(title);
+  if (words.size === 0) return null;
+
+  const counts: Record<string, number> = {};
+  transactions.forEach(tx => {
+    if (tx.type !== type || tx.splits) return;
+    if (similarWords(words, titleWords(tx.title))) {
+      counts[tx.category] = (counts[tx.category] ?? 0) + 1;
+    }
+  });
+
+  const [best] = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  return best ? { category: best[0], count: best[1] } : null;
+};
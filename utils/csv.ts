@@ -0,0 +1,103 @@
+/**
+ * Minimal RFC 4180 CSV handling: quoted fields may contain delimiters,
+ * newlines and doubled quotes.
+ */
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+
+// Cells of one record, and the 1-based line it starts on
+export interface CsvRow {
+  cells: string[];
+  line: number;
+}
+
+/**
+ * Splits CSV text into records. A leading byte order mark and a trailing
+ * newline are ignored; blank lines come back as `['']`. A quoted cell can
+ * span lines, so records are numbered by the line they start on.
+ */
+export const parseCsvRows = (text: string, delimiter: CsvDelimiter): CsvRow[] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    // "\r\n" is one line break, handled at its "\n"
+    const isLineBreak = char === '\n' || (char === '\r' && input[i + 1] !== '\n');
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (isLineBreak) {
+      row.push(cell);
+      rows.push({ cells: row, line: rowLine });
+      row = [];
+      cell = '';
+      rowLine = line + 1;
+    } else if (char !== '\r') {
+      cell += char;
+    }
+    if (isLineBreak) line++;
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push({ cells: row, line: rowLine });
+  }
+  return rows;
+};
+
+/**
+ * Splits CSV text into rows of raw cell strings, as `parseCsvRows` without
+ * the line numbers.
+ */
+export const parseCsv = (text: string, delimiter: CsvDelimiter): string[][] =>
+  parseCsvRows(text, delimiter).map(row => row.cells);
+
+/**
+ * The delimiter that splits the first few lines into the most, and most
+ * consistent, columns. Defaults to a comma.
+ */
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const sample = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, 5).join('\n');
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+  CSV_DELIMITERS.forEach(delimiter => {
+    const widths = parseCsv(sample, delimiter).map(row => row.length);
+    const consistent = widths.every(width => width === widths[0]);
+    const score = consistent ? widths[0] ?? 0 : 0;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+// Cells holding the delimiter, quotes, line breaks or edge spaces must be quoted
+const quoteCell = (cell: string, delimiter: CsvDelimiter) =>
+  cell.includes(delimiter) || /["\r\n]/.test(cell) || cell !== cell.trim()
+    ? `"${cell.replace(/"/g, '""')}"`
+    : cell;
+
+/**
+ * The reverse of `parseCsv`: rows joined with CRLF line endings, as RFC 4180
+ * and spreadsheet apps expect.
+ */
+export const toCsv = (rows: string[][], delimiter: CsvDelimiter) =>
+  rows.map(row => row.map(cell => quoteCell(cell, delimiter)).join(delimiter).concat('\r\n')).join('');
@@ -0,0 +1,106 @@
+import type { Account } from '../app/context/AccountContext';
+import type { Category } from '../app/context/CategoryContext';
+import type { Transaction } from '../app/context/TransactionContext';
+import { categoryPath } from './categories';
+import { CsvDelimiter, toCsv } from './csv';
+import { toDateInputValue, toTimeInputValue } from './date';
+import { Money, toMajorUnits } from './money';
+import { categoryLines } from './splits';
+import { DateOrder } from './statement';
+
+export const CSV_EXPORT_COLUMNS = [
+  'date',
+  'time',
+  'title',
+  'type',
+  'amount',
+  'category',
+  'account',
+  'toAccount',
+  'tags',
+  'notes',
+] as const;
+export type CsvExportColumn = (typeof CSV_EXPORT_COLUMNS)[number];
+
+export const CSV_EXPORT_COLUMN_LABELS: Record<CsvExportColumn, string> = {
+  date: 'Date',
+  time: 'Time',
+  title: 'Description',
+  type: 'Type',
+  amount: 'Amount',
+  category: 'Category',
+  account: 'Account',
+  toAccount: 'To Account',
+  tags: 'Tags',
+  notes: 'Notes',
+};
+
+export const DEFAULT_EXPORT_COLUMNS: CsvExportColumn[] = ['date', 'title', 'type', 'amount', 'category', 'account'];
+
+export interface CsvExportOptions {
+  // Written in CSV_EXPORT_COLUMNS order whatever order they were picked in
+  columns: CsvExportColumn[];
+  dateOrder: DateOrder;
+  delimiter: CsvDelimiter;
+}
+
+// Lets Excel recognise the file as UTF-8, so ₨ and accented names survive
+const BYTE_ORDER_MARK = '\uFEFF';
+
+const formatExportDate = (value: string, order: DateOrder) => {
+  const [year, month, day] = toDateInputValue(value).split('-');
+  if (order === 'ymd') return `${year}-${month}-${day}`;
+  return order === 'dmy' ? `${day}/${month}/${year}` : `${month}/${day}/${year}`;
+};
+
+// Plain numbers a spreadsheet can sum: no currency symbol or thousands separators
+const formatExportAmount = (money: Money) => toMajorUnits(money).toFixed(2);
+
+// Spreadsheets run text starting with these as a formula
+const neutralizeFormula = (text: string) => (/^[=+\-@\t\r]/.test(text) ? `'${text}` : text);
+
+/**
+ * The transactions as CSV, in the order given. Expenses have negative
+ * amounts; split transactions list every category with its share.
+ */
+export const buildCsvExport = (
+  transactions: Transaction[],
+  { columns, dateOrder, delimiter }: CsvExportOptions,
+  { categories, accounts }: { categories: Category[]; accounts: Account[] }
+) => {
+  const selected = CSV_EXPORT_COLUMNS.filter(column => columns.includes(column));
+  const accountName = (id?: string) => (id ? accounts.find(a => a.id === id)?.name ?? '' : '');
+
+  const cell = (tx: Transaction, column: CsvExportColumn): string => {
+    switch (column) {
+      case 'date':
+        return formatExportDate(tx.date, dateOrder);
+      case 'time':
+        return toTimeInputValue(tx.date);
+      case 'title':
+        return neutralizeFormula(tx.title);
+      case 'type':
+        return tx.type;
+      case 'amount':
+        return `${tx.type === 'expense' ? '-' : ''}${formatExportAmount(tx.amount)}`;
+      case 'category':
+        if (tx.type === 'transfer') return '';
+        return neutralizeFormula(tx.splits
+          ? categoryLines(tx)
+              .map(line => `${categoryPath(categories, line.category)} (${formatExportAmount(line.amount)})`)
+              .join('; ')
+          : categoryPath(categories, tx.category));
+      case 'account':
+        return neutralizeFormula(accountName(tx.accountId));
+      case 'toAccount':
+        return neutralizeFormula(accountName(tx.toAccountId));
+      case 'tags':
+        return neutralizeFormula((tx.tags ?? []).join(', '));
+      case 'notes':
+        return neutralizeFormula(tx.notes ?? '');
+    }
+  };
+
+  const header = selected.map(column => CSV_EXPORT_COLUMN_LABELS[column]);
+  return BYTE_ORDER_MARK + toCsv([header, ...transactions.map(tx => selected.map(column => cell(tx, column)))], delimiter);
+};
@@ -0,0 +1,179 @@
+import type { Category } from '../app/context/CategoryContext';
+import type { CategoryRule } from '../app/context/CategoryRuleContext';
+import type { Transaction } from '../app/context/TransactionContext';
+import { CsvRow } from './csv';
+import { compareMoney, Money, subtractMoney, ZERO } from './money';
+import {
+  DateOrder,
+  DecimalSeparator,
+  ImportRow,
+  parseStatementAmount,
+  parseStatementDate,
+  resolveImportCategory
+} from './statement';
+
+// Column index meaning "not in this file"
+export const NO_COLUMN = -1;
+
+/**
+ * Which column holds each field. Amounts come either from one signed column
+ * or from separate debit (money out) and credit (money in) columns.
+ */
+export interface CsvMapping {
+  date: number;
+  title: number;
+  amountMode: 'single' | 'debitCredit';
+  amount: number;
+  debit: number;
+  credit: number;
+  category: number;
+  notes: number;
+}
+
+export interface CsvImportOptions {
+  hasHeader: boolean;
+  dateOrder: DateOrder;
+  decimalSeparator: DecimalSeparator;
+  // For a single amount column: the sign that means money out
+  expenseSign: 'negative' | 'positive';
+  accountId: string;
+}
+
+const HEADER_HINTS: Record<'date' | 'title' | 'amount' | 'debit' | 'credit' | 'category' | 'notes', RegExp> = {
+  date: /date|posted|time/i,
+  title: /desc|narration|details|payee|merchant|title|memo|particulars/i,
+  amount: /amount|value|sum/i,
+  debit: /debit|withdrawal|paid out|money out|dr\b/i,
+  credit: /credit|deposit|paid in|money in|cr\b/i,
+  category: /categor/i,
+  notes: /note|comment|reference/i,
+};
+
+/**
+ * A first guess at the mapping from header names; the user can change it.
+ */
+export const guessMapping = (header: string[]): CsvMapping => {
+  const find = (hint: RegExp, taken: number[] = []) =>
+    header.findIndex((name, index) => hint.test(name) && !taken.includes(index));
+
+  const date = find(HEADER_HINTS.date);
+  const debit = find(HEADER_HINTS.debit);
+  const credit = find(HEADER_HINTS.credit, [debit]);
+  const title = find(HEADER_HINTS.title, [date]);
+  const amountMode = debit !== NO_COLUMN && credit !== NO_COLUMN ? 'debitCredit' : 'single';
+  return {
+    date,
+    title,
+    amountMode,
+    amount: find(HEADER_HINTS.amount, [debit, credit]),
+    debit,
+    credit,
+    category: find(HEADER_HINTS.category),
+    notes: find(HEADER_HINTS.notes, [title]),
+  };
+};
+
+/**
+ * Why the mapping can't be used, or null when it can.
+ */
+export const csvMappingError = (mapping: CsvMapping): string | null => {
+  if (mapping.date === NO_COLUMN) return 'Choose the column that holds the date';
+  if (mapping.title === NO_COLUMN) return 'Choose the column that holds the description';
+  if (mapping.amountMode === 'single' && mapping.amount === NO_COLUMN) {
+    return 'Choose the column that holds the amount';
+  }
+  if (mapping.amountMode === 'debitCredit' && mapping.debit === NO_COLUMN && mapping.credit === NO_COLUMN) {
+    return 'Choose the debit and credit columns';
+  }
+  return null;
+};
+
+const magnitude = (money: Money) => (compareMoney(money, ZERO) < 0 ? subtractMoney(ZERO, money) : money);
+
+const cellAt = (row: string[], column: number) => (column === NO_COLUMN ? '' : (row[column] ?? '').trim());
+
+// Signed amount from the row: negative for money out
+const signedAmount = (
+  row: string[],
+  mapping: CsvMapping,
+  options: CsvImportOptions
+): { amount: Money } | { error: string } => {
+  if (mapping.amountMode === 'single') {
+    const raw = cellAt(row, mapping.amount);
+    const amount = parseStatementAmount(raw, options.decimalSeparator);
+    if (amount === null) return { error: raw ? `Unrecognised amount "${raw}"` : 'Missing amount' };
+    return { amount: options.expenseSign === 'negative' ? amount : subtractMoney(ZERO, amount) };
+  }
+
+  const rawDebit = cellAt(row, mapping.debit);
+  const rawCredit = cellAt(row, mapping.credit);
+  const debit = rawDebit ? parseStatementAmount(rawDebit, options.decimalSeparator) : ZERO;
+  const credit = rawCredit ? parseStatementAmount(rawCredit, options.decimalSeparator) : ZERO;
+  if (debit === null) return { error: `Unrecognised debit "${rawDebit}"` };
+  if (credit === null) return { error: `Unrecognised credit "${rawCredit}"` };
+  if (compareMoney(debit, ZERO) !== 0 && compareMoney(credit, ZERO) !== 0) {
+    return { error: 'Both debit and credit are filled in' };
+  }
+  // Some banks write debits as negative numbers; the column already says which way it went
+  return compareMoney(debit, ZERO) !== 0
+    ? { amount: subtractMoney(ZERO, magnitude(debit)) }
+    : { amount: magnitude(credit) };
+};
+
+/**
+ * Turns CSV rows into transactions for the chosen account, with the errors
+ * for rows that can't be imported. Blank rows are skipped.
+ */
+export const buildCsvImport = (
+  rows: CsvRow[],
+  mapping: CsvMapping,
+  options: CsvImportOptions,
+  categories: Category[],
+  rules: CategoryRule[],
+  createId: () => string
+): ImportRow[] =>
+  rows.flatMap(({ cells: row, line }, index): ImportRow[] => {
+    if (options.hasHeader && index === 0) return [];
+    if (row.every(cell => cell.trim() === '')) return [];
+
+    const errors: string[] = [];
+
+    const rawDate = cellAt(row, mapping.date);
+    const date = parseStatementDate(rawDate, options.dateOrder);
+    if (!date) errors.push(rawDate ? `Unrecognised date "${rawDate}"` : 'Missing date');
+
+    const title = cellAt(row, mapping.title);
+    if (!title) errors.push('Missing description');
+
+    const signed = signedAmount(row, mapping, options);
+    if ('error' in signed) {
+      errors.push(signed.error);
+    } else if (compareMoney(signed.amount, ZERO) === 0) {
+      errors.push('Amount is zero');
+    }
+
+    if (errors.length > 0 || !date || 'error' in signed) return [{ line, transaction: null, errors }];
+
+    const type = compareMoney(signed.amount, ZERO) < 0 ? 'expense' : 'income';
+    const amount = type === 'expense' ? subtractMoney(ZERO, signed.amount) : signed.amount;
+    const { category, tags } = resolveImportCategory(
+      categories,
+      rules,
+      { title, amount, accountId: options.accountId, type },
+      cellAt(row, mapping.category)
+    );
+    const notes = cellAt(row, mapping.notes);
+
+    const transaction: Transaction = {
+      id: createId(),
+      title,
+      amount,
+      category,
+      type,
+      date,
+      accountId: options.accountId,
+      ...(tags?.length ? { tags } : {}),
+      ...(notes ? { notes } : {}),
+    };
+    return [{ line, transaction, errors }];
+  });
@@ -0,0 +1,145 @@
+/**
+ * Date helpers. Transactions store `date` as an ISO 8601 timestamp; anything
+ * user-facing is formatted at render time with the helpers below.
+ */
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parses an ISO timestamp or a plain YYYY-MM-DD date. Plain dates are read as
+ * local midnight rather than UTC so they don't shift a day west of Greenwich.
+ */
+export const parseDate = (value: string): Date | null => {
+  const dateOnly = DATE_ONLY.exec(value);
+  const date = dateOnly
+    ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Milliseconds since epoch, with unparseable values sorting as the oldest.
+ */
+export const toTimestamp = (value: string) => parseDate(value)?.getTime() ?? 0;
+
+export const formatDate = (value: string) => {
+  const date = parseDate(value);
+  return date
+    ? date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })
+    : value;
+};
+
+export const formatDateTime = (value: string) => {
+  const date = parseDate(value);
+  return date
+    ? `${formatDate(value)}, ${date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}`
+    : value;
+};
+
+const LEGACY_NUMERIC_DATE = /^(\d{1,4})([./-])(\d{1,2})\2(\d{1,4})$/;
+
+/**
+ * Best-effort parse of a `toLocaleDateString()` string, as saved by earlier
+ * versions of the app. Handles year-first (2025/7/26), dotted day-first
+ * (26.07.2025) and slashed dates. Slashed dates are read day-first when the
+ * first part can't be a month, and month-first otherwise, which is what
+ * React Native's default en-US locale produces.
+ */
+export const parseLegacyDate = (value: string): Date | null => {
+  const match = LEGACY_NUMERIC_DATE.exec(value.trim());
+  if (match) {
+    const [, first, separator, middle, last] = match;
+    let year: number;
+    let month: number;
+    let day: number;
+
+    if (first.length === 4) {
+      [year, month, day] = [Number(first), Number(middle), Number(last)];
+    } else if (separator === '.' || Number(first) > 12) {
+      [day, month, year] = [Number(first), Number(middle), Number(last)];
+    } else {
+      [month, day, year] = [Number(first), Number(middle), Number(last)];
+    }
+    if (year < 100) year += 2000;
+
+    const date = new Date(year, month - 1, day);
+    return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+  }
+
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Local calendar day of a timestamp as YYYY-MM-DD, for date inputs.
+ */
+export const toDateInputValue = (value: string) => {
+  const date = parseDate(value);
+  return date ? `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` : '';
+};
+
+/**
+ * Local time of day of a timestamp as HH:MM, for time inputs.
+ */
+export const toTimeInputValue = (value: string) => {
+  const date = parseDate(value);
+  return date ? `${pad(date.getHours())}:${pad(date.getMinutes())}` : '';
+};
+
+const TIME_ONLY = /^(\d{1,2}):(\d{2})$/;
+
+/**
+ * Builds an ISO timestamp from a YYYY-MM-DD day and an HH:MM local time.
+ * Returns null if either part isn't valid.
+ */
+export const combineDateAndTime = (day: string, time: string) => {
+  const dayMatch = DATE_ONLY.exec(day.trim());
+  const timeMatch = TIME_ONLY.exec(time.trim());
+  if (!dayMatch || !timeMatch) return null;
+
+  const [year, month, date] = [Number(dayMatch[1]), Number(dayMatch[2]) - 1, Number(dayMatch[3])];
+  const [hours, minutes] = [Number(timeMatch[1]), Number(timeMatch[2])];
+  if (hours > 23 || minutes > 59) return null;
+
+  const result = new Date(year, month, date, hours, minutes);
+  return result.getMonth() === month && result.getDate() === date ? result.toISOString() : null;
+};
+
+/**
+ * Shifts a YYYY-MM-DD day by a number of days. Invalid input is returned unchanged.
+ */
+export const addDays = (day: string, days: number) => {
+  const date = parseDate(day);
+  if (!date || !DATE_ONLY.test(day)) return day;
+  date.setDate(date.getDate() + days);
+  return toDateInputValue(date.toISOString());
+};
+
+// Transactions can be planned a little ahead, but not far enough to hide typos like 2052
+export const MAX_DAYS_AHEAD = 31;
+
+export const isTooFarInFuture = (value: string, now = new Date()) => {
+  const limit = new Date(now);
+  limit.setDate(limit.getDate() + MAX_DAYS_AHEAD);
+  return toTimestamp(value) > limit.getTime();
+};
+
+/**
+ * Budget periods are calendar months, keyed as YYYY-MM in local time.
+ */
+export const toMonthKey = (value: string | Date) => {
+  const date = typeof value === 'string' ? parseDate(value) : value;
+  return date ? `${date.getFullYear()}-${pad(date.getMonth() + 1)}` : '';
+};
+
+export const addMonths = (month: string, months: number) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return toMonthKey(new Date(year, monthIndex - 1 + months, 1));
+};
+
+export const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString(undefined, { year: 'numeric', month: 'long' });
+};
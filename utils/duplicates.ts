@@ -0,0 +1,124 @@
+import type { Transaction } from '../app/context/TransactionContext';
+import { toTimestamp } from './date';
+import { payeeKey, similarWords, titleWords } from './payees';
+
+/**
+ * Suspected double entries: the same amount and type, a similar title and
+ * dates close together. Pairs the user has marked as distinct are ignored.
+ */
+
+// Card payments often post a day or two after they were entered by hand
+export const DUPLICATE_WINDOW_DAYS = 3;
+const WINDOW_MS = DUPLICATE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+export interface DuplicatePair {
+  // Stable id for the pair, whichever way round it is found
+  key: string;
+  // `original` is the older of the two; `duplicate` the later entry
+  original: Transaction;
+  duplicate: Transaction;
+}
+
+export const duplicatePairKey = (a: string, b: string) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+const similarTitles = (a: string, b: string) =>
+  payeeKey(a) === payeeKey(b) || similarWords(titleWords(a), titleWords(b));
+
+/**
+ * Whether `candidate` looks like a second entry of `existing`.
+ */
+export const isLikelyDuplicate = (candidate: Transaction, existing: Transaction) => {
+  if (candidate.id === existing.id) return false;
+  if (candidate.amount !== existing.amount || candidate.type !== existing.type) return false;
+  if (candidate.type === 'transfer' && candidate.toAccountId !== existing.toAccountId) return false;
+  if (Math.abs(toTimestamp(candidate.date) - toTimestamp(existing.date)) > WINDOW_MS) return false;
+  // Dismissed by the user
+  if (candidate.notDuplicateOf?.includes(existing.id) || existing.notDuplicateOf?.includes(candidate.id)) {
+    return false;
+  }
+  // The bank says they are two separate transactions
+  if (candidate.importId && existing.importId && candidate.accountId === existing.accountId) return false;
+  // Two occurrences of the same series are separate by definition
+  if (candidate.recurringId && candidate.recurringId === existing.recurringId) return false;
+  return similarTitles(candidate.title, existing.title);
+};
+
+/**
+ * Existing transactions `candidate` may duplicate, closest in time first.
+ */
+export const findDuplicates = (candidate: Transaction, transactions: Transaction[]) =>
+  transactions
+    .filter(tx => isLikelyDuplicate(candidate, tx))
+    .sort((a, b) =>
+      Math.abs(toTimestamp(a.date) - toTimestamp(candidate.date)) -
+      Math.abs(toTimestamp(b.date) - toTimestamp(candidate.date)));
+
+// Only transactions with the same amount can match, so comparisons stay within these groups
+const addToAmountGroup = (groups: Map<number, Transaction[]>, tx: Transaction) => {
+  const group = groups.get(tx.amount);
+  if (group) group.push(tx);
+  else groups.set(tx.amount, [tx]);
+};
+
+const groupByAmount = (transactions: Transaction[]) => {
+  const groups = new Map<number, Transaction[]>();
+  transactions.forEach(tx => addToAmountGroup(groups, tx));
+  return groups;
+};
+
+/**
+ * Every suspected pair in the ledger, most recent first.
+ */
+export const findDuplicatePairs = (transactions: Transaction[]): DuplicatePair[] => {
+  const byAmount = groupByAmount(transactions);
+
+  const pairs: DuplicatePair[] = [];
+  byAmount.forEach(group => {
+    const sorted = group.sort((a, b) => toTimestamp(a.date) - toTimestamp(b.date));
+    sorted.forEach((original, index) => {
+      for (let next = index + 1; next < sorted.length; next++) {
+        const later = sorted[next];
+        if (toTimestamp(later.date) - toTimestamp(original.date) > WINDOW_MS) break;
+        if (isLikelyDuplicate(later, original)) {
+          pairs.push({ key: duplicatePairKey(original.id, later.id), original, duplicate: later });
+        }
+      }
+    });
+  });
+  return pairs.sort((a, b) => toTimestamp(b.duplicate.date) - toTimestamp(a.duplicate.date));
+};
+
+/**
+ * Transactions about to be added that look like one already in `transactions`,
+ * or like an earlier one of `incoming` itself, e.g. a row repeated in an
+ * import file. Keyed by incoming id, with the closest match, preferring the ledger.
+ */
+export const findIncomingDuplicates = (incoming: Transaction[], transactions: Transaction[]) => {
+  const ledger = groupByAmount(transactions);
+  const earlier = new Map<number, Transaction[]>();
+  const matches: Record<string, Transaction> = {};
+  incoming.forEach(tx => {
+    const match =
+      findDuplicates(tx, ledger.get(tx.amount) ?? [])[0] ?? findDuplicates(tx, earlier.get(tx.amount) ?? [])[0];
+    if (match) matches[tx.id] = match;
+    addToAmountGroup(earlier, tx);
+  });
+  return matches;
+};
+
+/**
+ * Changes to `keep` so nothing useful is lost when `remove` is deleted:
+ * tags are combined, and notes and the bank's import id carried over when
+ * `keep` has none.
+ */
+export const mergeDuplicate = (keep: Transaction, remove: Transaction): Partial<Transaction> => {
+  const changes: Partial<Transaction> = {};
+  const tags = [...new Set([...(keep.tags ?? []), ...(remove.tags ?? [])])];
+  if (tags.length > (keep.tags?.length ?? 0)) changes.tags = tags;
+  if (!keep.notes && remove.notes) changes.notes = remove.notes;
+  // Keeps the next statement import from bringing the removed entry back
+  if (!keep.importId && remove.importId && keep.accountId === remove.accountId) {
+    changes.importId = remove.importId;
+  }
+  return changes;
+};
@@ -0,0 +1,42 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+/**
+ * Lets the user pick a file and reads it as UTF-8 text. Resolves to null if
+ * the picker is cancelled. The picker's cached copy is deleted once read.
+ */
+export const pickTextFile = async (mimeTypes: string[] = ['*/*']) => {
+  const result = await DocumentPicker.getDocumentAsync({ type: mimeTypes, copyToCacheDirectory: true });
+  if (result.canceled || result.assets.length === 0) return null;
+  const [asset] = result.assets;
+  try {
+    return { name: asset.name, text: await FileSystem.readAsStringAsync(asset.uri) };
+  } finally {
+    await FileSystem.deleteAsync(asset.uri, { idempotent: true });
+  }
+};
+
+/**
+ * Writes `text` to a file named `name` and opens the share sheet so the user
+ * can save it or send it elsewhere. The file is deleted once the sheet closes
+ * so no plaintext copy of the ledger is left in the cache.
+ */
+export const saveTextFile = async (name: string, text: string, mimeType: string) => {
+  if (!(await Sharing.isAvailableAsync())) throw new Error('Sharing is not available on this device');
+  const uri = `${FileSystem.cacheDirectory}${name}`;
+  await FileSystem.writeAsStringAsync(uri, text);
+  try {
+    await Sharing.shareAsync(uri, { mimeType, dialogTitle: name });
+  } finally {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  }
+};
+
+/**
+ * There's no print dialog without a native module, so the HTML is shared and
+ * the receiving app (a browser, Files, Drive) can print it or save a PDF.
+ */
+export const printHtml = async (name: string, html: string) => {
+  await saveTextFile(name, html, 'text/html');
+};
@@ -0,0 +1,51 @@
+import * as DocumentPicker from 'expo-document-picker';
+
+/**
+ * The browser hands back a File, which can be read directly.
+ */
+export const pickTextFile = async (mimeTypes: string[] = ['*/*']) => {
+  const result = await DocumentPicker.getDocumentAsync({ type: mimeTypes });
+  if (result.canceled || result.assets.length === 0) return null;
+  const [asset] = result.assets;
+  const text = asset.file ? await asset.file.text() : await (await fetch(asset.uri)).text();
+  return { name: asset.name, text };
+};
+
+/**
+ * Browsers can't share files, so the text is downloaded instead.
+ */
+export const saveTextFile = async (name: string, text: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Prints a standalone HTML document through the browser's print dialog, which
+ * also offers "Save as PDF". A hidden frame keeps the app's own page out of it.
+ */
+export const printHtml = async (name: string, html: string) => {
+  const frame = document.createElement('iframe');
+  frame.title = name;
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  await new Promise<void>(resolve => {
+    frame.onload = () => resolve();
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+  const view = frame.contentWindow;
+  if (!view) {
+    frame.remove();
+    throw new Error('Could not open the print view');
+  }
+  view.addEventListener('afterprint', () => frame.remove());
+  view.focus();
+  view.print();
+};
@@ -0,0 +1,71 @@
+import type { Category } from '../app/context/CategoryContext';
+import type { Transaction } from '../app/context/TransactionContext';
+import { involvesAccount } from './accounts';
+import { categoryPath } from './categories';
+import { toTimestamp } from './date';
+import { compareMoney } from './money';
+import { categoryLines } from './splits';
+
+export type FilterType = 'all' | Transaction['type'];
+export type SortType = 'newest' | 'oldest' | 'highest' | 'lowest';
+
+/**
+ * What the transaction list is showing. Shared by the list and the export
+ * screen so an export contains exactly what was on screen.
+ */
+export interface TransactionFilters {
+  search: string;
+  type: FilterType;
+  // 'all' or an account id
+  account: string;
+  // 'all' or a tag
+  tag: string;
+  sort: SortType;
+}
+
+export const filterTransactions = (
+  transactions: Transaction[],
+  categories: Category[],
+  { search, type, account, tag, sort }: TransactionFilters
+) => {
+  let filtered = transactions;
+
+  // Apply search filter, matching category names rather than ids
+  if (search) {
+    const query = search.toLowerCase();
+    filtered = filtered.filter(t =>
+      t.title.toLowerCase().includes(query) ||
+      categoryLines(t).some(line => categoryPath(categories, line.category).toLowerCase().includes(query)) ||
+      t.tags?.some(tag => tag.includes(query.replace(/^#/, ''))) ||
+      t.notes?.toLowerCase().includes(query)
+    );
+  }
+
+  if (type !== 'all') {
+    filtered = filtered.filter(t => t.type === type);
+  }
+
+  if (account !== 'all') {
+    filtered = filtered.filter(t => involvesAccount(t, account));
+  }
+
+  if (tag !== 'all') {
+    filtered = filtered.filter(t => t.tags?.includes(tag));
+  }
+
+  // Copied first so sorting never reorders the stored list
+  return [...filtered].sort((a, b) => {
+    switch (sort) {
+      case 'newest':
+        return toTimestamp(b.date) - toTimestamp(a.date);
+      case 'oldest':
+        return toTimestamp(a.date) - toTimestamp(b.date);
+      case 'highest':
+        return compareMoney(b.amount, a.amount);
+      case 'lowest':
+        return compareMoney(a.amount, b.amount);
+      default:
+        return 0;
+    }
+  });
+};
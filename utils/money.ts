@@ -0,0 +1,75 @@
+/**
+ * Money is stored as an integer number of minor units (paisa), never as a
+ * float, so sums stay exact no matter how many transactions are added up.
+ * The brand keeps plain numbers from being passed where Money is expected;
+ * create values with `parseMoney`, `fromMinorUnits` or `fromMajorUnits`.
+ */
+export type Money = number & { readonly __brand: 'Money' };
+
+export const CURRENCY_SYMBOL = '₨';
+
+const MINOR_PER_MAJOR = 100;
+
+export const ZERO = 0 as Money;
+
+export const fromMinorUnits = (minor: number): Money => {
+  if (!Number.isSafeInteger(minor)) {
+    throw new RangeError(`Money must be a whole number of minor units, got ${minor}`);
+  }
+  return minor as Money;
+};
+
+export const fromMajorUnits = (major: number): Money => fromMinorUnits(Math.round(major * MINOR_PER_MAJOR));
+
+export const toMajorUnits = (money: Money) => money / MINOR_PER_MAJOR;
+
+export const addMoney = (a: Money, b: Money) => fromMinorUnits(a + b);
+
+export const subtractMoney = (a: Money, b: Money) => fromMinorUnits(a - b);
+
+export const sumMoney = (amounts: Money[]) => amounts.reduce(addMoney, ZERO);
+
+// Rounded to the nearest minor unit, e.g. for averages
+export const divideMoney = (money: Money, divisor: number) => fromMinorUnits(Math.round(money / divisor));
+
+/**
+ * Negative when a < b, positive when a > b, 0 when equal. Usable as a sort comparator.
+ */
+export const compareMoney = (a: Money, b: Money) => Math.sign(a - b);
+
+export const minMoney = (a: Money, b: Money) => (a <= b ? a : b);
+
+const MONEY_INPUT = /^(-)?(\d*)(?:\.(\d{0,2}))?$/;
+
+/**
+ * Parses user input such as "1,250", "₨ 99.5" or ".75". Returns null for
+ * anything that isn't a plain amount with at most two decimal places.
+ */
+export const parseMoney = (input: string): Money | null => {
+  const cleaned = input.replace(/[\s,]/g, '').replace(CURRENCY_SYMBOL, '');
+  const match = MONEY_INPUT.exec(cleaned);
+  if (!match || (!match[2] && !match[3])) return null;
+
+  const [, sign, whole, fraction = ''] = match;
+  const minor = Number(whole || '0') * MINOR_PER_MAJOR + Number(fraction.padEnd(2, '0'));
+  if (!Number.isSafeInteger(minor)) return null;
+  return fromMinorUnits(sign ? -minor : minor);
+};
+
+/**
+ * Formats as "₨1,250" or "₨1,250.50"; decimals are only shown when there are paisa.
+ * With `signed`, positive amounts get a leading "+".
+ */
+export const formatMoney = (money: Money, { signed = false }: { signed?: boolean } = {}) => {
+  const absolute = Math.abs(money);
+  const whole = Math.floor(absolute / MINOR_PER_MAJOR).toLocaleString();
+  const fraction = absolute % MINOR_PER_MAJOR;
+  const sign = money < 0 ? '-' : signed && money > 0 ? '+' : '';
+  return `${sign}${CURRENCY_SYMBOL}${whole}${fraction ? `.${String(fraction).padStart(2, '0')}` : ''}`;
+};
+
+/**
+ * Plain decimal string for pre-filling an input, e.g. 125050 -> "1250.50".
+ */
+export const toInputValue = (money: Money) =>
+  money % MINOR_PER_MAJOR ? toMajorUnits(money).toFixed(2) : String(toMajorUnits(money));
@@ -0,0 +1,94 @@
+import { combineDateAndTime } from './date';
+import { compareMoney, ZERO } from './money';
+import { ParsedStatement, parseStatementAmount, StatementEntry } from './statement';
+
+/**
+ * OFX/QFX bank and credit card statements, both the SGML flavour (1.x, leaf
+ * tags left unclosed) and XML (2.x). Only the transaction list and the
+ * account number are read.
+ */
+
+const TRANSACTION_BLOCK = /<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi;
+const ACCOUNT_BLOCK = /<(?:BANKACCTFROM|CCACCTFROM)>([\s\S]*?)<\/(?:BANKACCTFROM|CCACCTFROM)>/i;
+// YYYYMMDD, optionally followed by HHMMSS, milliseconds and a [zone]
+const OFX_DATE = /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2}))?/;
+
+// Value of a leaf element, whether or not it has a closing tag
+const leaf = (block: string, tag: string) => {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  return match ? decodeEntities(match[1].trim()) : '';
+};
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// The statement's own date, ignoring its time zone so the day doesn't shift
+const parseOfxDate = (value: string) => {
+  const match = OFX_DATE.exec(value);
+  if (!match) return null;
+  const [, year, month, day, hours = '00', minutes = '00'] = match;
+  return combineDateAndTime(`${year}-${month}-${day}`, `${hours}:${minutes}`);
+};
+
+// Line numbers for offsets given in increasing order, counting only the text since the last one
+const lineCounter = (text: string) => {
+  let line = 1;
+  let position = 0;
+  return (index: number) => {
+    for (; position < index; position++) {
+      if (text.charCodeAt(position) === 10) line++;
+    }
+    return line;
+  };
+};
+
+export const parseOfx = (text: string): ParsedStatement => {
+  const entries: StatementEntry[] = [];
+  const problems: ParsedStatement['problems'] = [];
+  const lineAt = lineCounter(text);
+
+  for (const match of text.matchAll(TRANSACTION_BLOCK)) {
+    const block = match[1];
+    const line = lineAt(match.index ?? 0);
+
+    const importId = leaf(block, 'FITID');
+    const rawDate = leaf(block, 'DTPOSTED');
+    const rawAmount = leaf(block, 'TRNAMT');
+    const date = parseOfxDate(rawDate);
+    // Some banks write the decimal part after a comma
+    const amount = parseStatementAmount(rawAmount, /,\d{1,2}$/.test(rawAmount) ? ',' : '.');
+    const name = leaf(block, 'NAME');
+    const memo = leaf(block, 'MEMO');
+
+    if (!importId) {
+      problems.push({ line, message: 'Transaction has no FITID' });
+    } else if (!date) {
+      problems.push({ line, message: `Unrecognised date "${rawDate}"` });
+    } else if (amount === null || compareMoney(amount, ZERO) === 0) {
+      problems.push({ line, message: `Unrecognised amount "${rawAmount}"` });
+    } else {
+      entries.push({
+        line,
+        importId,
+        date,
+        amount,
+        // Card statements often leave NAME blank and put the merchant in MEMO
+        title: name || memo || leaf(block, 'TRNTYPE') || 'Bank transaction',
+        ...(name && memo && memo !== name ? { notes: memo } : {}),
+      });
+    }
+  }
+
+  const account = ACCOUNT_BLOCK.exec(text)?.[1] ?? '';
+  return {
+    format: 'ofx',
+    accountNumber: leaf(account, 'ACCTID') || undefined,
+    entries,
+    problems,
+  };
+};
@@ -0,0 +1,82 @@
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { getRandomBytes } from 'expo-crypto';
+
+/**
+ * Password hashing and strength rules for the accounts stored on this device.
+ * Hashes are kept as "scrypt:N:r:p:salt:hash" so the cost can be raised later
+ * without invalidating existing passwords.
+ */
+
+const HASH_SCHEME = 'scrypt';
+const HASH_PARAMS = { N: 2 ** 14, r: 8, p: 1 };
+const HASH_LENGTH = 32;
+const SALT_LENGTH = 16;
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+// The long-enough entries from the usual most-common lists
+const COMMON_PASSWORDS = new Set([
+  '1234567890',
+  '0123456789',
+  '1q2w3e4r5t',
+  'qwertyuiop',
+  'password12',
+  'password123',
+  'password1!',
+  'passw0rd12',
+  'iloveyou12',
+  'letmein123',
+  'welcome123',
+  'admin12345',
+]);
+
+const derive = (password: string, salt: Uint8Array, { N, r, p }: typeof HASH_PARAMS, length = HASH_LENGTH) =>
+  scryptAsync(utf8ToBytes(password.normalize('NFKC')), salt, { N, r, p, dkLen: length });
+
+/**
+ * Everything wrong with a password, as sentences to show the user. Empty when
+ * it's acceptable.
+ */
+export const passwordProblems = (password: string, username = '') => {
+  const problems: string[] = [];
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    problems.push(`Use at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (!/\p{L}/u.test(password) || !/[^\p{L}]/u.test(password)) {
+    problems.push('Mix letters with numbers or symbols');
+  }
+  const name = username.trim().toLowerCase();
+  if (name && password.toLowerCase().includes(name)) {
+    problems.push("Don't include your username");
+  }
+  if (COMMON_PASSWORDS.has(password.toLowerCase()) || /^(.)\1+$/.test(password)) {
+    problems.push('Choose something less common');
+  }
+  return problems;
+};
+
+export const hashPassword = async (password: string) => {
+  const salt = getRandomBytes(SALT_LENGTH);
+  const hash = await derive(password, salt, HASH_PARAMS);
+  const { N, r, p } = HASH_PARAMS;
+  return [HASH_SCHEME, N, r, p, bytesToHex(salt), bytesToHex(hash)].join(':');
+};
+
+export const verifyPassword = async (password: string, stored: string) => {
+  const [scheme, N, r, p, salt, expected] = stored.split(':');
+  if (scheme !== HASH_SCHEME || !salt || !expected) return false;
+  let hash: string;
+  try {
+    hash = bytesToHex(
+      await derive(password, hexToBytes(salt), { N: Number(N), r: Number(r), p: Number(p) }, expected.length / 2)
+    );
+  } catch {
+    // A damaged hash can't match any password
+    return false;
+  }
+  // Every character is compared so the time taken doesn't hint at how much matched
+  let difference = hash.length ^ expected.length;
+  for (let i = 0; i < hash.length; i++) difference |= hash.charCodeAt(i) ^ expected.charCodeAt(i);
+  return difference === 0;
+};
@@ -0,0 +1,92 @@
+import type { Transaction } from '../app/context/TransactionContext';
+import { toTimestamp } from './date';
+import { addMoney, Money, ZERO } from './money';
+
+/**
+ * A merchant or payer, derived from every transaction sharing a title.
+ * Transfers are not payees.
+ */
+export interface Payee {
+  // Normalized title; see `payeeKey`
+  key: string;
+  // The title as last typed
+  name: string;
+  // Defaults remembered from the most recent transaction
+  type: 'income' | 'expense';
+  category: string;
+  amount: Money;
+  accountId: string;
+  totalSpent: Money;
+  totalReceived: Money;
+  visits: number;
+  lastDate: string;
+}
+
+// Case and spacing don't make a different payee
+export const payeeKey = (title: string) => title.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Words in a title, ignoring case, numbers and punctuation
+export const titleWords = (title: string) =>
+  new Set(payeeKey(title).split(/[^\p{L}]+/u).filter(word => word.length > 1));
+
+// Titles read alike when at least half the words of the longer one are shared
+export const similarWords = (a: Set<string>, b: Set<string>) => {
+  const shared = [...a].filter(word => b.has(word)).length;
+  return shared > 0 && shared * 2 >= Math.max(a.size, b.size);
+};
+
+/**
+ * Transactions for the payee, newest first.
+ */
+export const payeeTransactions = (transactions: Transaction[], key: string) =>
+  transactions
+    .filter(tx => tx.type !== 'transfer' && payeeKey(tx.title) === key)
+    .sort((a, b) => toTimestamp(b.date) - toTimestamp(a.date));
+
+/**
+ * Every payee, most visited first.
+ */
+export const buildPayees = (transactions: Transaction[]): Payee[] => {
+  const payees: Record<string, Payee> = {};
+
+  transactions.forEach(tx => {
+    if (tx.type === 'transfer') return;
+    const key = payeeKey(tx.title);
+    if (!key) return;
+
+    let payee = payees[key];
+    if (!payee || toTimestamp(tx.date) > toTimestamp(payee.lastDate)) {
+      payee = payees[key] = {
+        ...(payee ?? { key, totalSpent: ZERO, totalReceived: ZERO, visits: 0 }),
+        name: tx.title.trim(),
+        type: tx.type,
+        category: tx.category,
+        amount: tx.amount,
+        accountId: tx.accountId,
+        lastDate: tx.date,
+      };
+    }
+    payee.visits += 1;
+    if (tx.type === 'expense') {
+      payee.totalSpent = addMoney(payee.totalSpent, tx.amount);
+    } else {
+      payee.totalReceived = addMoney(payee.totalReceived, tx.amount);
+    }
+  });
+
+  return Object.values(payees).sort((a, b) => b.visits - a.visits || a.name.localeCompare(b.name));
+};
+
+/**
+ * Payees whose name starts with, then contains, what has been typed so far.
+ * An exact match isn't suggested; there's nothing left to complete.
+ */
+export const suggestPayees = (payees: Payee[], input: string, limit = 5): Payee[] => {
+  const query = payeeKey(input);
+  if (!query) return [];
+  const candidates = payees.filter(payee => payee.key !== query && payee.key.includes(query));
+  return [
+    ...candidates.filter(payee => payee.key.startsWith(query)),
+    ...candidates.filter(payee => !payee.key.startsWith(query)),
+  ].slice(0, limit);
+};
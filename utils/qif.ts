@@ -0,0 +1,92 @@
+import { compareMoney, ZERO } from './money';
+import {
+  DateOrder,
+  DecimalSeparator,
+  ParsedStatement,
+  parseStatementAmount,
+  parseStatementDate,
+  StatementEntry
+} from './statement';
+
+/**
+ * Quicken Interchange Format. Each record is a run of lines starting with a
+ * field code (D date, T amount, P payee, M memo, L category, N number) and
+ * ending with "^". QIF has no transaction ids, so each entry's id is built
+ * from its contents, numbered when identical entries repeat.
+ */
+
+// Headers for lists that aren't transactions
+const NON_TRANSACTION_TYPES = /^!Type:(Cat|Class|Memorized|Invst|Prices|Security)/i;
+
+// Quicken writes years as 4/3'25 or 4/ 3/2025
+const normalizeQifDate = (value: string) => value.replace(/'/g, '/').replace(/\s+/g, '');
+
+// "[Savings]" in the category field is a transfer to another account, not a category.
+// "Food:Groceries" is a subcategory, written the way categoryPath does; "/Class" is dropped.
+const categoryName = (value: string) =>
+  /^\[.*\]$/.test(value) ? undefined : value.split('/')[0].replace(/:/g, ' › ') || undefined;
+
+// Like dates, amounts are written in the exporting machine's locale, e.g. "1.234,56"
+export const parseQif = (text: string, dateOrder: DateOrder, decimal: DecimalSeparator = '.'): ParsedStatement => {
+  const entries: StatementEntry[] = [];
+  const problems: ParsedStatement['problems'] = [];
+  const seen: Record<string, number> = {};
+  let accountName: string | undefined;
+  let section: 'transactions' | 'account' | 'skip' = 'transactions';
+  let fields: Record<string, string> = {};
+  let startLine = 1;
+
+  const finishRecord = () => {
+    if (section === 'account' && fields.N) accountName = fields.N;
+    if (section !== 'transactions' || Object.keys(fields).length === 0) return;
+
+    const date = parseStatementDate(normalizeQifDate(fields.D ?? ''), dateOrder);
+    const rawAmount = fields.T ?? fields.U ?? '';
+    const amount = parseStatementAmount(rawAmount, decimal);
+    if (!date) {
+      problems.push({ line: startLine, message: `Unrecognised date "${fields.D ?? ''}"` });
+    } else if (amount === null || compareMoney(amount, ZERO) === 0) {
+      problems.push({ line: startLine, message: `Unrecognised amount "${rawAmount}"` });
+    } else {
+      const title = fields.P || fields.M || 'Bank transaction';
+      const fingerprint = ['qif', date.slice(0, 10), amount, title.toLowerCase(), fields.N ?? ''].join('|');
+      seen[fingerprint] = (seen[fingerprint] ?? 0) + 1;
+      entries.push({
+        line: startLine,
+        importId: seen[fingerprint] > 1 ? `${fingerprint}|${seen[fingerprint]}` : fingerprint,
+        date,
+        amount,
+        title,
+        ...(fields.P && fields.M ? { notes: fields.M } : {}),
+        ...(fields.L && categoryName(fields.L) ? { category: categoryName(fields.L) } : {}),
+      });
+    }
+  };
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith('!')) {
+      finishRecord();
+      fields = {};
+      startLine = index + 2;
+      if (/^!Account/i.test(line)) section = 'account';
+      else if (NON_TRANSACTION_TYPES.test(line) || /^!Option/i.test(line)) section = 'skip';
+      else if (/^!Type:/i.test(line)) section = 'transactions';
+      return;
+    }
+    if (line === '^') {
+      finishRecord();
+      fields = {};
+      startLine = index + 2;
+      return;
+    }
+    // Split lines (S, E, $) repeat per split; only the first of each code is kept
+    const code = line[0];
+    if (fields[code] === undefined) fields[code] = line.slice(1).trim();
+  });
+  finishRecord();
+
+  return { format: 'qif', accountName, entries, problems };
+};
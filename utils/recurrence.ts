@@ -0,0 +1,164 @@
+import type { RecurringRule } from '../app/context/RecurringContext';
+import type { Transaction } from '../app/context/TransactionContext';
+import { parseDate, toDateInputValue, toTimestamp } from './date';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+/**
+ * How often a rule repeats and when it stops. `endDate` (YYYY-MM-DD, inclusive)
+ * and `count` are both optional; whichever is reached first ends the series.
+ */
+export interface RecurrenceSettings {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  endDate?: string;
+  count?: number;
+}
+
+export interface Occurrence {
+  // Position in the series, starting at 0
+  index: number;
+  // Scheduled YYYY-MM-DD day; identifies the occurrence for skips and overrides
+  key: string;
+  // Scheduled ISO timestamp
+  date: string;
+}
+
+// Guards against runaway loops on daily rules that started decades ago
+const MAX_ITERATIONS = 10000;
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+/**
+ * Date of the nth occurrence, always computed from the start so month-end
+ * dates don't drift (Jan 31 -> Feb 28 -> Mar 31).
+ */
+const occurrenceDate = (start: Date, { frequency, interval }: RecurrenceSettings, index: number) => {
+  const date = new Date(start);
+  const step = index * interval;
+
+  if (frequency === 'daily' || frequency === 'weekly') {
+    date.setDate(start.getDate() + step * (frequency === 'weekly' ? 7 : 1));
+    return date;
+  }
+
+  const totalMonths = start.getMonth() + step * (frequency === 'yearly' ? 12 : 1);
+  const year = start.getFullYear() + Math.floor(totalMonths / 12);
+  const month = ((totalMonths % 12) + 12) % 12;
+  date.setFullYear(year, month, Math.min(start.getDate(), daysInMonth(year, month)));
+  return date;
+};
+
+const endOfDay = (day: string) => {
+  const date = parseDate(day);
+  if (!date) return null;
+  date.setHours(23, 59, 59, 999);
+  return date;
+};
+
+/**
+ * Occurrences scheduled after `after` (exclusive, null for the very first one)
+ * up to `until` (inclusive), honouring the rule's end date and count.
+ * Skipped occurrences are included; callers decide what to do with them.
+ */
+export const listOccurrences = (
+  rule: RecurringRule,
+  { after, until, limit = Infinity }: { after: Date | null; until: Date | null; limit?: number }
+): Occurrence[] => {
+  const start = parseDate(rule.startDate);
+  if (!start || rule.interval < 1) return [];
+
+  const seriesEnd = rule.endDate ? endOfDay(rule.endDate) : null;
+  const occurrences: Occurrence[] = [];
+
+  for (let index = 0; index < MAX_ITERATIONS && occurrences.length < limit; index++) {
+    if (rule.count != null && index >= rule.count) break;
+
+    const date = occurrenceDate(start, rule, index);
+    if (seriesEnd && date > seriesEnd) break;
+    if (until && date > until) break;
+    if (after && date <= after) continue;
+
+    occurrences.push({ index, key: toDateInputValue(date.toISOString()), date: date.toISOString() });
+  }
+  return occurrences;
+};
+
+/**
+ * The next few occurrences that haven't been created yet, including skipped ones.
+ */
+export const upcomingOccurrences = (rule: RecurringRule, now: Date, limit: number) => {
+  const lastMaterialized = rule.lastMaterializedAt ? parseDate(rule.lastMaterializedAt) : null;
+  const after = lastMaterialized && lastMaterialized > now ? lastMaterialized : now;
+  return listOccurrences(rule, { after, until: null, limit });
+};
+
+/**
+ * Deterministic so the same occurrence can never be created twice.
+ */
+export const occurrenceTransactionId = (ruleId: string, key: string) => `${ruleId}-${key}`;
+
+/**
+ * Whether an edit may date an occurrence `date`. Occurrences are created on
+ * their scheduled day, so an edit can move one earlier but not later.
+ */
+export const isValidOccurrenceDate = (occurrence: Pick<Occurrence, 'date'>, date: string) =>
+  toTimestamp(date) <= toTimestamp(occurrence.date);
+
+/**
+ * Builds the transaction for one occurrence, applying any single-occurrence edits.
+ */
+export const buildOccurrenceTransaction = (rule: RecurringRule, occurrence: Occurrence): Transaction => {
+  const override = rule.overrides[occurrence.key] ?? {};
+  return {
+    ...rule.template,
+    ...override,
+    id: occurrenceTransactionId(rule.id, occurrence.key),
+    date: override.date && isValidOccurrenceDate(occurrence, override.date) ? override.date : occurrence.date,
+    recurringId: rule.id,
+    occurrenceDate: occurrence.key,
+  };
+};
+
+/**
+ * Creates the transactions for every occurrence that became due since each rule
+ * last ran. Paused rules and skipped occurrences produce nothing. Only rules
+ * that actually advanced are returned with a new `lastMaterializedAt`, so
+ * running this repeatedly with nothing due leaves the rules untouched.
+ */
+export const materializeDueOccurrences = (rules: RecurringRule[], now: Date) => {
+  const transactions: Transaction[] = [];
+  let changed = false;
+
+  const nextRules = rules.map(rule => {
+    if (rule.paused) return rule;
+
+    const after = rule.lastMaterializedAt ? parseDate(rule.lastMaterializedAt) : null;
+    const due = listOccurrences(rule, { after, until: now });
+    if (due.length === 0) return rule;
+
+    due
+      .filter(occurrence => !rule.skippedDates.includes(occurrence.key))
+      .forEach(occurrence => transactions.push(buildOccurrenceTransaction(rule, occurrence)));
+
+    changed = true;
+    return { ...rule, lastMaterializedAt: due[due.length - 1].date };
+  });
+
+  return { transactions, rules: changed ? nextRules : rules };
+};
+
+const frequencyUnits: Record<RecurrenceFrequency, [string, string]> = {
+  daily: ['day', 'days'],
+  weekly: ['week', 'weeks'],
+  monthly: ['month', 'months'],
+  yearly: ['year', 'years'],
+};
+
+/**
+ * e.g. "Every month", "Every 2 weeks"
+ */
+export const describeFrequency = ({ frequency, interval }: RecurrenceSettings) => {
+  const [singular, plural] = frequencyUnits[frequency];
+  return interval === 1 ? `Every ${singular}` : `Every ${interval} ${plural}`;
+};
@@ -0,0 +1,259 @@
+import type { Account } from '../app/context/AccountContext';
+import type { Category } from '../app/context/CategoryContext';
+import type { SavingsGoal } from '../app/context/SavingsContext';
+import type { Transaction } from '../app/context/TransactionContext';
+import { accountBalances } from './accounts';
+import { categoryPath } from './categories';
+import { addDays, addMonths, formatDate, formatDateTime, formatMonth, toDateInputValue, toTimestamp } from './date';
+import { compareMoney, formatMoney, Money, subtractMoney, sumMoney, ZERO } from './money';
+import { categoryTotals } from './splits';
+
+/**
+ * Month-end statement: balances, totals, category breakdown, savings goals
+ * and every transaction in the period, rendered as a standalone HTML page.
+ */
+
+// Local calendar days, both inclusive, as YYYY-MM-DD
+export interface ReportPeriod {
+  start: string;
+  end: string;
+}
+
+export interface StatementReport {
+  period: ReportPeriod;
+  openingBalance: Money;
+  closingBalance: Money;
+  totalIncome: Money;
+  totalExpense: Money;
+  accounts: { name: string; opening: Money; closing: Money }[];
+  // Biggest spending first
+  categories: { name: string; emoji: string; income: Money; expense: Money }[];
+  // Progress as it stands today; goals don't keep a history
+  goals: { title: string; current: Money; target: Money; deadline: string }[];
+  // Oldest first, with names already looked up
+  entries: {
+    id: string;
+    date: string;
+    title: string;
+    type: Transaction['type'];
+    amount: Money;
+    category: string;
+    account: string;
+    notes?: string;
+  }[];
+}
+
+export const monthPeriod = (month: string): ReportPeriod => ({
+  start: `${month}-01`,
+  end: addDays(`${addMonths(month, 1)}-01`, -1),
+});
+
+// A whole calendar month reads better as "April 2025"
+export const periodLabel = ({ start, end }: ReportPeriod) => {
+  const month = start.slice(0, 7);
+  if (start.endsWith('-01') && end === monthPeriod(month).end) return formatMonth(month);
+  return `${formatDate(start)} – ${formatDate(end)}`;
+};
+
+export const buildReport = (
+  period: ReportPeriod,
+  { transactions, accounts, categories, savingsGoals }: {
+    transactions: Transaction[];
+    accounts: Account[];
+    categories: Category[];
+    savingsGoals: SavingsGoal[];
+  }
+): StatementReport => {
+  const day = (tx: Transaction) => toDateInputValue(tx.date);
+  const before = transactions.filter(tx => day(tx) < period.start);
+  const upToEnd = transactions.filter(tx => day(tx) <= period.end);
+  const inPeriod = upToEnd
+    .filter(tx => day(tx) >= period.start)
+    .sort((a, b) => toTimestamp(a.date) - toTimestamp(b.date));
+
+  const opening = accountBalances(accounts, before);
+  const closing = accountBalances(accounts, upToEnd);
+  const accountName = (id?: string) => accounts.find(a => a.id === id)?.name ?? 'Unknown account';
+
+  const totals = categoryTotals(inPeriod);
+  const categoryRows = Object.entries(totals)
+    .map(([id, { income, expense }]) => ({
+      name: categoryPath(categories, id),
+      emoji: categories.find(c => c.id === id)?.emoji ?? '',
+      income,
+      expense,
+    }))
+    .sort((a, b) => compareMoney(b.expense, a.expense) || compareMoney(b.income, a.income));
+
+  return {
+    period,
+    openingBalance: sumMoney(accounts.map(a => opening[a.id])),
+    closingBalance: sumMoney(accounts.map(a => closing[a.id])),
+    totalIncome: sumMoney(inPeriod.filter(tx => tx.type === 'income').map(tx => tx.amount)),
+    totalExpense: sumMoney(inPeriod.filter(tx => tx.type === 'expense').map(tx => tx.amount)),
+    accounts: accounts.map(a => ({ name: a.name, opening: opening[a.id], closing: closing[a.id] })),
+    categories: categoryRows,
+    goals: savingsGoals.map(goal => ({
+      title: goal.title,
+      current: goal.currentAmount,
+      target: goal.targetAmount,
+      deadline: goal.deadline,
+    })),
+    entries: inPeriod.map(tx => ({
+      id: tx.id,
+      date: tx.date,
+      title: tx.title,
+      type: tx.type,
+      amount: tx.amount,
+      category: tx.type === 'transfer'
+        ? `Transfer to ${accountName(tx.toAccountId)}`
+        : tx.splits
+          ? tx.splits.map(split => categoryPath(categories, split.category)).join(', ')
+          : categoryPath(categories, tx.category),
+      account: accountName(tx.accountId),
+      ...(tx.notes ? { notes: tx.notes } : {}),
+    })),
+  };
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const percent = (part: Money, whole: Money) =>
+  compareMoney(whole, ZERO) > 0 ? Math.min(100, Math.round((part / whole) * 100)) : 0;
+
+const signedAmount = (type: Transaction['type'], amount: Money) => {
+  if (type === 'transfer') return formatMoney(amount);
+  return formatMoney(type === 'expense' ? subtractMoney(ZERO, amount) : amount, { signed: true });
+};
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body {
+    font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;
+    color: #111827;
+    margin: 32px;
+    font-size: 13px;
+  }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 28px 0 8px; border-bottom: 2px solid #E5E7EB; padding-bottom: 4px; }
+  .muted { color: #6B7280; }
+  .note { font-size: 11px; white-space: pre-line; margin-top: 2px; }
+  .summary { display: flex; gap: 12px; margin-top: 16px; }
+  .summary div { flex: 1; background: #F3F4F6; border-radius: 8px; padding: 10px 12px; }
+  .summary strong { display: block; font-size: 16px; margin-top: 2px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #F3F4F6; vertical-align: top; }
+  th { font-size: 11px; text-transform: uppercase; color: #6B7280; }
+  .num { text-align: right; white-space: nowrap; font-variant-numeric: tabular-nums; }
+  .income { color: #059669; }
+  .expense { color: #DC2626; }
+  .bar { height: 6px; background: #E5E7EB; border-radius: 3px; margin-top: 4px; }
+  .bar span { display: block; height: 6px; border-radius: 3px; background: #6366F1; }
+  tr { page-break-inside: avoid; }
+  @page { margin: 16mm; }
+  @media print { body { margin: 0; } }
+`;
+
+/**
+ * The report as a complete HTML document with inline styles, so it can be
+ * printed, saved as PDF or opened anywhere without the app.
+ */
+export const renderReportHtml = (report: StatementReport, generatedAt = new Date()) => {
+  const title = `Statement · ${periodLabel(report.period)}`;
+  const net = subtractMoney(report.totalIncome, report.totalExpense);
+  const topExpense = report.categories[0]?.expense ?? ZERO;
+
+  const accountRows = report.accounts.map(account => `
+    <tr>
+      <td>${escapeHtml(account.name)}</td>
+      <td class="num">${formatMoney(account.opening)}</td>
+      <td class="num">${formatMoney(account.closing)}</td>
+    </tr>`).join('');
+
+  const categoryRows = report.categories.map(category => `
+    <tr>
+      <td>${escapeHtml(`${category.emoji} ${category.name}`.trim())}
+        ${compareMoney(category.expense, ZERO) > 0
+          ? `<div class="bar"><span style="width: ${percent(category.expense, topExpense)}%"></span></div>`
+          : ''}
+      </td>
+      <td class="num income">${compareMoney(category.income, ZERO) > 0 ? formatMoney(category.income) : ''}</td>
+      <td class="num expense">${compareMoney(category.expense, ZERO) > 0 ? formatMoney(category.expense) : ''}</td>
+      <td class="num muted">
+        ${compareMoney(category.expense, ZERO) > 0 ? `${percent(category.expense, report.totalExpense)}%` : ''}
+      </td>
+    </tr>`).join('');
+
+  const goalRows = report.goals.map(goal => `
+    <tr>
+      <td>${escapeHtml(goal.title)}
+        <div class="bar"><span style="width: ${percent(goal.current, goal.target)}%"></span></div>
+      </td>
+      <td class="num">${formatMoney(goal.current)} of ${formatMoney(goal.target)}</td>
+      <td class="num">${percent(goal.current, goal.target)}%</td>
+      <td class="num muted">${escapeHtml(formatDate(goal.deadline))}</td>
+    </tr>`).join('');
+
+  const entryRows = report.entries.map(entry => `
+    <tr>
+      <td class="muted">${escapeHtml(formatDate(entry.date))}</td>
+      <td>${escapeHtml(entry.title)}${entry.notes ? `<div class="muted note">${escapeHtml(entry.notes)}</div>` : ''}</td>
+      <td>${escapeHtml(entry.category)}</td>
+      <td>${escapeHtml(entry.account)}</td>
+      <td class="num ${entry.type === 'transfer' ? '' : entry.type}">${signedAmount(entry.type, entry.amount)}</td>
+    </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <div class="muted">Generated ${escapeHtml(formatDateTime(generatedAt.toISOString()))}</div>
+
+  <div class="summary">
+    <div>Opening balance<strong>${formatMoney(report.openingBalance)}</strong></div>
+    <div>Income<strong class="income">${formatMoney(report.totalIncome)}</strong></div>
+    <div>Expenses<strong class="expense">${formatMoney(report.totalExpense)}</strong></div>
+    <div>Net<strong>${formatMoney(net, { signed: true })}</strong></div>
+    <div>Closing balance<strong>${formatMoney(report.closingBalance)}</strong></div>
+  </div>
+
+  <h2>Accounts</h2>
+  <table>
+    <thead><tr><th>Account</th><th class="num">Opening</th><th class="num">Closing</th></tr></thead>
+    <tbody>${accountRows}</tbody>
+  </table>
+
+  <h2>By category</h2>
+  ${report.categories.length > 0 ? `<table>
+    <thead><tr><th>Category</th><th class="num">Income</th><th class="num">Spent</th><th class="num">Share</th></tr></thead>
+    <tbody>${categoryRows}</tbody>
+  </table>` : '<p class="muted">No income or spending in this period.</p>'}
+
+  ${report.goals.length > 0 ? `<h2>Savings goals</h2>
+  <p class="muted">Progress as of today.</p>
+  <table>
+    <thead><tr><th>Goal</th><th class="num">Saved</th><th class="num">Progress</th><th class="num">Deadline</th></tr></thead>
+    <tbody>${goalRows}</tbody>
+  </table>` : ''}
+
+  <h2>Transactions (${report.entries.length})</h2>
+  ${report.entries.length > 0 ? `<table>
+    <thead><tr><th>Date</th><th>Description</th><th>Category</th><th>Account</th><th class="num">Amount</th></tr></thead>
+    <tbody>${entryRows}</tbody>
+  </table>` : '<p class="muted">No transactions in this period.</p>'}
+</body>
+</html>
+`;
+};
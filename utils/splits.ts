@@ -0,0 +1,49 @@
+import type { Transaction, TransactionSplit } from '../app/context/TransactionContext';
+import { addMoney, compareMoney, formatMoney, Money, subtractMoney, sumMoney, ZERO } from './money';
+
+/**
+ * The category lines a transaction contributes to: its splits, or the whole
+ * amount under its single category.
+ */
+export const categoryLines = (tx: Transaction): TransactionSplit[] =>
+  tx.splits && tx.splits.length > 0 ? tx.splits : [{ category: tx.category, amount: tx.amount }];
+
+/**
+ * Income and spending per category id, each split line counting towards its
+ * own category. Transfers only move money between accounts and are left out.
+ */
+export const categoryTotals = (transactions: Transaction[]) =>
+  transactions.reduce((acc, t) => {
+    if (t.type === 'transfer') return acc;
+    const type = t.type;
+    categoryLines(t).forEach(({ category, amount }) => {
+      if (!acc[category]) {
+        acc[category] = { income: ZERO, expense: ZERO };
+      }
+      acc[category][type] = addMoney(acc[category][type], amount);
+    });
+    return acc;
+  }, {} as Record<string, { income: Money; expense: Money }>);
+
+/**
+ * Amount of the total not yet covered by split lines; negative when the lines add up to more.
+ */
+export const unassignedAmount = (splits: TransactionSplit[], total: Money) =>
+  subtractMoney(total, sumMoney(splits.map(split => split.amount)));
+
+/**
+ * Why the split lines can't be saved against `total`, or null when they can.
+ */
+export const validateSplits = (splits: TransactionSplit[], total: Money): string | null => {
+  if (splits.length < 2) return 'A split needs at least two lines';
+  if (splits.some(split => compareMoney(split.amount, ZERO) <= 0)) {
+    return 'Every split line needs an amount above zero';
+  }
+  const unassigned = unassignedAmount(splits, total);
+  if (compareMoney(unassigned, ZERO) !== 0) {
+    return compareMoney(unassigned, ZERO) > 0
+      ? `Split lines are ${formatMoney(unassigned)} short of the total`
+      : `Split lines are ${formatMoney(subtractMoney(ZERO, unassigned))} over the total`;
+  }
+  return null;
+};
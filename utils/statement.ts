@@ -0,0 +1,220 @@
+import type { Category, CategoryType } from '../app/context/CategoryContext';
+import type { CategoryRule } from '../app/context/CategoryRuleContext';
+import type { Transaction } from '../app/context/TransactionContext';
+import { categoryPickerOptions, findCategoryByName } from './categories';
+import { findCategoryRule } from './categoryRules';
+import { combineDateAndTime } from './date';
+import { compareMoney, Money, parseMoney, subtractMoney, ZERO } from './money';
+
+/**
+ * Helpers shared by the statement importers (CSV, OFX, QIF).
+ */
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+// Order of day, month and year in a numeric date such as 03/04/2025
+export type DateOrder = 'ymd' | 'dmy' | 'mdy';
+export type DecimalSeparator = '.' | ',';
+
+/**
+ * One parsed statement line: a transaction ready to add, or the reasons it
+ * can't be. `line` is 1-based in the source file.
+ */
+export interface ImportRow {
+  line: number;
+  transaction: Transaction | null;
+  errors: string[];
+}
+
+/**
+ * One transaction read from an OFX or QIF file.
+ */
+export interface StatementEntry {
+  line: number;
+  // The bank's FITID for OFX; derived from the entry's contents for QIF
+  importId: string;
+  date: string;
+  // Negative for money out
+  amount: Money;
+  title: string;
+  notes?: string;
+  // Category name as written in the file, if any
+  category?: string;
+}
+
+export interface ParsedStatement {
+  format: 'ofx' | 'qif';
+  // The bank's account number (OFX) or the account's name (QIF), when the file says
+  accountNumber?: string;
+  accountName?: string;
+  entries: StatementEntry[];
+  // Entries that couldn't be read
+  problems: { line: number; message: string }[];
+}
+
+/**
+ * Guesses the format from the file name, then from the contents.
+ */
+export const detectStatementFormat = (text: string, fileName?: string | null): StatementFormat => {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+  if (extension === 'csv') return 'csv';
+  if (/<OFX>/i.test(text) || /^\s*OFXHEADER:/i.test(text)) return 'ofx';
+  if (/^\s*!(Type|Account|Option)/i.test(text)) return 'qif';
+  return 'csv';
+};
+
+const NUMERIC_DATE = /^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})$/;
+const CLOCK_TIME = /^(\d{1,2}):(\d{2})(?::([0-5]\d)(?:\.\d+)?)?([AP]\.?M\.?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+const MERIDIEM = /^[AP]\.?M\.?$/i;
+const ZONE = /^(?:Z|([+-])(\d{2}):?(\d{2}))$/i;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Minutes ahead of UTC for "Z", "+05:00" or "-0330"
+const zoneOffset = (zone: string) => {
+  const [, sign, hours, minutes] = ZONE.exec(zone) ?? [];
+  if (!sign) return 0;
+  return (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes));
+};
+
+// 24-hour hours for a 12-hour clock reading, or null if it isn't one
+const to24Hour = (hours: number, meridiem: string) => {
+  if (hours < 1 || hours > 12) return null;
+  return (hours % 12) + (/^p/i.test(meridiem) ? 12 : 0);
+};
+
+/**
+ * Reads a statement date such as "03/04/2025", "03/04/2025 2:30 PM",
+ * "2025-04-03 14:30" or "2025-04-03T14:30:00Z" as an ISO timestamp. Times
+ * with a zone keep the moment they name; others are read in local time, and
+ * dates without a time are placed at midnight. Two-digit years are taken as
+ * 20xx. Returns null if it isn't a real date or has anything else after it.
+ */
+export const parseStatementDate = (raw: string, order: DateOrder): string | null => {
+  const [datePart = '', timePart = '00:00', ...rest] = raw.trim().split(/[\sT]+/);
+  const match = NUMERIC_DATE.exec(datePart);
+  const time = CLOCK_TIME.exec(timePart);
+  if (!match || !time) return null;
+
+  // AM/PM and the zone may each follow the time directly or after a space
+  const [, rawHours, minutes, seconds = '0', attachedMeridiem, attachedZone] = time;
+  const meridiem = attachedMeridiem ?? (!attachedZone && MERIDIEM.test(rest[0] ?? '') ? rest.shift() : undefined);
+  const zone = attachedZone ?? (ZONE.test(rest[0] ?? '') ? rest.shift() : undefined);
+  if (rest.length > 0) return null;
+  const hours = meridiem ? to24Hour(Number(rawHours), meridiem) : Number(rawHours);
+  if (hours === null) return null;
+
+  const [, a, b, c] = match.map(Number);
+  let [year, month, day] = order === 'ymd' ? [a, b, c] : order === 'dmy' ? [c, b, a] : [c, a, b];
+  if (year < 100) year += 2000;
+  const local = combineDateAndTime(`${year}-${pad(month)}-${pad(day)}`, `${pad(hours)}:${minutes}`);
+
+  if (!local || !zone) return local;
+  const utc = Date.UTC(year, month - 1, day, hours, Number(minutes), Number(seconds));
+  return new Date(utc - zoneOffset(zone) * 60_000).toISOString();
+};
+
+// Anything around the number, e.g. "USD -" and "" in "USD -12.50"
+const AMOUNT_PARTS = /^(\D*?)([.,]?\d[\d.,\s']*?)(\D*)$/;
+const MINUS = /[-\u2212]/;
+
+/**
+ * Reads a statement amount with its sign. Understands currency symbols and
+ * codes on either side, thousands separators, a minus sign anywhere before
+ * the digits ("-$12.50", "$-12.50", "USD -12.50"), "(12.50)" and "12.50-"
+ * for negatives, and a comma decimal separator when asked. Returns null for
+ * anything else.
+ */
+export const parseStatementAmount = (raw: string, decimal: DecimalSeparator = '.'): Money | null => {
+  const parts = AMOUNT_PARTS.exec(raw.trim());
+  if (!parts) return null;
+
+  const [, before, number, after] = parts;
+  const negative = MINUS.test(before) || MINUS.test(after) || (before.includes('(') && after.includes(')'));
+  let text = number.replace(/[^\d.,]/g, '');
+  text = decimal === ',' ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+  return parseMoney(negative ? `-${text}` : text);
+};
+
+/**
+ * Category for an imported transaction: the named category if it exists,
+ * then the first matching category rule, then "Other" (or the first category)
+ * of the type. Tags come from the rule when one applies.
+ */
+export const resolveImportCategory = (
+  categories: Category[],
+  rules: CategoryRule[],
+  tx: Pick<Transaction, 'title' | 'amount' | 'accountId'> & { type: CategoryType },
+  categoryName = ''
+): { category: string; tags?: string[] } => {
+  const named = categoryName.trim() ? findCategoryByName(categories, tx.type, categoryName) : undefined;
+  if (named) return { category: named.id };
+
+  const rule = findCategoryRule(rules, tx);
+  const fallback = findCategoryByName(categories, tx.type, 'Other')?.id ??
+    categoryPickerOptions(categories, tx.type)[0]?.value ?? '';
+  // A rule for the other type can still tag, but its category would be the wrong kind
+  const category = rule?.category && rule.type === tx.type ? rule.category : fallback;
+  return { category, tags: rule?.tags };
+};
+
+/**
+ * Turns a parsed statement into transactions for `accountId`. Entries whose
+ * import id is already on a transaction in that account, or earlier in the
+ * same file, are left out and counted as already imported.
+ */
+export const buildStatementImport = (
+  statement: ParsedStatement,
+  accountId: string,
+  existing: Transaction[],
+  categories: Category[],
+  rules: CategoryRule[],
+  createId: () => string
+): { rows: ImportRow[]; alreadyImported: number } => {
+  const seen = new Set(
+    existing.filter(tx => tx.accountId === accountId && tx.importId).map(tx => tx.importId)
+  );
+  let alreadyImported = 0;
+  const rows: ImportRow[] = statement.problems.map(problem => ({
+    line: problem.line,
+    transaction: null,
+    errors: [problem.message],
+  }));
+
+  statement.entries.forEach(entry => {
+    if (seen.has(entry.importId)) {
+      alreadyImported++;
+      return;
+    }
+    seen.add(entry.importId);
+
+    const type = compareMoney(entry.amount, ZERO) < 0 ? 'expense' : 'income';
+    const amount = type === 'expense' ? subtractMoney(ZERO, entry.amount) : entry.amount;
+    const { category, tags } = resolveImportCategory(
+      categories,
+      rules,
+      { title: entry.title, amount, accountId, type },
+      entry.category
+    );
+    rows.push({
+      line: entry.line,
+      transaction: {
+        id: createId(),
+        title: entry.title,
+        amount,
+        category,
+        type,
+        date: entry.date,
+        accountId,
+        importId: entry.importId,
+        ...(tags?.length ? { tags } : {}),
+        ...(entry.notes ? { notes: entry.notes } : {}),
+      },
+      errors: [],
+    });
+  });
+
+  return { rows: rows.sort((a, b) => a.line - b.line), alreadyImported };
+};
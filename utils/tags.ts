@@ -0,0 +1,42 @@
+import type { Transaction } from '../app/context/TransactionContext';
+import { addMoney, compareMoney, Money, ZERO } from './money';
+
+export interface TagTotal {
+  tag: string;
+  // Expenses only; income and transfers under the tag aren't spending
+  spent: Money;
+  count: number;
+}
+
+/**
+ * Canonical form of a tag: lowercase, no leading '#', spaces as dashes.
+ * Returns '' when nothing is left.
+ */
+export const normalizeTag = (raw: string) =>
+  raw.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-');
+
+/**
+ * Comma-separated tags as typed by the user, normalized and de-duplicated.
+ */
+export const parseTags = (input: string): string[] =>
+  [...new Set(input.split(',').map(normalizeTag).filter(tag => tag !== ''))];
+
+// Every tag in use, alphabetically
+export const allTags = (transactions: Transaction[]): string[] =>
+  [...new Set(transactions.flatMap(tx => tx.tags ?? []))].sort();
+
+/**
+ * Spending per tag, largest first. A transaction with several tags counts in
+ * full towards each of them.
+ */
+export const tagTotals = (transactions: Transaction[]): TagTotal[] => {
+  const totals: Record<string, TagTotal> = {};
+  transactions.forEach(tx => {
+    (tx.tags ?? []).forEach(tag => {
+      const total = (totals[tag] ??= { tag, spent: ZERO, count: 0 });
+      total.count += 1;
+      if (tx.type === 'expense') total.spent = addMoney(total.spent, tx.amount);
+    });
+  });
+  return Object.values(totals).sort((a, b) => compareMoney(b.spent, a.spent) || a.tag.localeCompare(b.tag));
+};